@@ -0,0 +1,8 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // Type errors are reported by `tsc`, not the test run
+    '^.+\\.ts$': ['ts-jest', { diagnostics: false }]
+  }
+};
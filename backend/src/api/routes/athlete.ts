@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { AppConfig } from '../../config/config.service';
+import { getAthleteService } from '../../services/athlete.service';
+import { getClassificationService } from '../../services/classification.service';
+import { HR_ZONE_MODELS } from '../../models/database.types';
+
+const router = Router();
+
+// Empty values are estimated from the runs (see getEffectiveProfile)
+const profileSchema = Joi.object({
+  max_hr: Joi.number().integer().min(100).max(250).allow(null),
+  resting_hr: Joi.number().integer().min(25).max(120).allow(null),
+  threshold_hr: Joi.number().integer().min(80).max(240).allow(null),
+  threshold_pace: Joi.number().integer().min(150).max(600).allow(null), // seconds per km
+  hr_zone_model: Joi.string().valid(...HR_ZONE_MODELS)
+}).min(1);
+
+function profileResponse(config: AppConfig) {
+  const athleteService = getAthleteService(config);
+  const { profile: effective, zones } = athleteService.getHrZones();
+  return { profile: athleteService.getProfile(), effective, zones, pace_zones: athleteService.getPaceZones(effective) };
+}
+
+// GET /api/athlete - Athlete profile as saved, with estimates filled in and the heart rate and pace zones
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.json(profileResponse(req.app.locals.config as AppConfig));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/athlete - Update max, resting and threshold heart rate, threshold pace and the zone model
+router.put('/', (req: Request, res: Response) => {
+  try {
+    const { error, value } = profileSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({ error: error.details[0].message });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const athleteService = getAthleteService(config);
+    const before = athleteService.getProfile();
+    const merged = { ...before, ...value };
+    if (merged.max_hr && merged.resting_hr && merged.resting_hr >= merged.max_hr) {
+      res.status(400).json({ error: 'resting_hr must be below max_hr' });
+      return;
+    }
+    if (merged.max_hr && merged.threshold_hr && merged.threshold_hr > merged.max_hr) {
+      res.status(400).json({ error: 'threshold_hr must not be above max_hr' });
+      return;
+    }
+
+    getClassificationService(config).profileUpdated(before, athleteService.updateProfile(value));
+    res.json(profileResponse(config));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
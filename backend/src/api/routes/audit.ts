@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { AppConfig } from '../../config/config.service';
+import { getDatabase } from '../../services/database.service';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, AUDIT_SOURCES, AuditAction, AuditEntity, AuditFilter, AuditSource } from '../../models/database.types';
+
+const router = Router();
+
+const MAX_LIMIT = 1000;
+
+// GET /api/audit - Audit log entries, newest first, with optional filters
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const { entity_type, entity_id, action, source, startDate, endDate, limit = 100, offset = 0 } = req.query;
+
+    const allowed: [string, unknown, readonly string[]][] = [
+      ['entity_type', entity_type, AUDIT_ENTITIES],
+      ['action', action, AUDIT_ACTIONS],
+      ['source', source, AUDIT_SOURCES]
+    ];
+    for (const [name, value, values] of allowed) {
+      if (value !== undefined && !values.includes(value as string)) {
+        res.status(400).json({ error: `${name} must be one of ${values.join(', ')}` });
+        return;
+      }
+    }
+
+    const entityId = entity_id !== undefined ? parseInt(entity_id as string) : undefined;
+    if (entityId !== undefined && isNaN(entityId)) {
+      res.status(400).json({ error: 'entity_id must be a number' });
+      return;
+    }
+
+    const filter: AuditFilter = {
+      ...(entity_type ? { entityType: entity_type as AuditEntity } : {}),
+      ...(entityId !== undefined ? { entityId } : {}),
+      ...(action ? { action: action as AuditAction } : {}),
+      ...(source ? { source: source as AuditSource } : {}),
+      ...(startDate ? { startDate: startDate as string } : {}),
+      ...(endDate ? { endDate: endDate as string } : {})
+    };
+
+    const db = getDatabase(req.app.locals.config as AppConfig);
+    const pageLimit = Math.min(parseInt(limit as string) || 100, MAX_LIMIT);
+    const pageOffset = parseInt(offset as string) || 0;
+    const entries = db.getAuditLog({ ...filter, limit: pageLimit, offset: pageOffset });
+
+    res.json({
+      entries,
+      total: db.countAuditLog(filter),
+      limit: pageLimit,
+      offset: pageOffset
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { AppConfig } from '../../config/config.service';
+import { getBackupService } from '../../services/backup.service';
+
+const router = Router();
+
+// Databases with full streams for years of runs run to several hundred MB
+const BACKUP_MAX_BYTES = 1024 * 1024 * 1024;
+const backupUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: BACKUP_MAX_BYTES } });
+
+function restoreErrorStatus(message: string): number {
+  if (message.startsWith('Backup not found')) return 404;
+  if (message.startsWith('Not a valid backup')) return 422;
+  return 500;
+}
+
+// GET /api/backups - Backups in backup_path, newest first, with the schedule
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const backups = getBackupService(config).listBackups();
+    res.json({
+      backups,
+      total: backups.length,
+      auto_backup: config.database.auto_backup,
+      schedule: config.database.backup_schedule,
+      keep: config.database.backup_keep
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/backups - Back up the database now
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const backup = getBackupService(req.app.locals.config as AppConfig).createBackup('manual');
+    res.status(201).json(backup);
+  } catch (error: any) {
+    console.error('[Backup] Manual backup failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/backups/restore - Restore an uploaded database file
+router.post('/restore', backupUpload.single('backup'), (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No backup provided' });
+      return;
+    }
+
+    const result = getBackupService(req.app.locals.config as AppConfig).restoreUpload(req.file.buffer);
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Backup] Restore from upload failed:', error.message);
+    res.status(restoreErrorStatus(error.message)).json({ error: error.message });
+  }
+});
+
+// GET /api/backups/:name/download - Download a backup file
+router.get('/:name/download', (req: Request, res: Response) => {
+  try {
+    const file = getBackupService(req.app.locals.config as AppConfig).getBackupPath(req.params.name);
+    if (!file) {
+      res.status(404).json({ error: 'Backup not found' });
+      return;
+    }
+
+    res.download(file, req.params.name);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/backups/:name/restore - Replace the database with a backup
+router.post('/:name/restore', (req: Request, res: Response) => {
+  try {
+    const result = getBackupService(req.app.locals.config as AppConfig).restoreBackup(req.params.name);
+    res.json(result);
+  } catch (error: any) {
+    console.error(`[Backup] Restore of ${req.params.name} failed:`, error.message);
+    res.status(restoreErrorStatus(error.message)).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -68,12 +68,12 @@ router.put('/:id', (req, res) => {
   }
 });
 
-// DELETE /api/custom-events/:id
+// DELETE /api/custom-events/:id - Move event to the trash
 router.delete('/:id', (req, res) => {
   try {
     const db = getDatabase();
     const id = parseInt(req.params.id);
-    const success = db.deleteCustomEvent(id);
+    const success = db.trashCustomEvent(id);
     if (!success) {
       return res.status(404).json({ error: 'Event not found' });
     }
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { AppConfig } from '../../config/config.service';
+import { getDatabase } from '../../services/database.service';
+import { getDuplicateService } from '../../services/duplicate.service';
+
+const router = Router();
+
+// GET /api/duplicates - Suspected duplicate runs, with both runs of each pair
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'pending';
+    if (status !== 'pending' && status !== 'dismissed') {
+      res.status(400).json({ error: "status must be 'pending' or 'dismissed'" });
+      return;
+    }
+
+    const db = getDatabase(req.app.locals.config as AppConfig);
+    const duplicates = db.getRunDuplicates(status).map(pair => ({
+      ...pair,
+      run: db.getRun(pair.run_id),
+      duplicate_run: db.getRun(pair.duplicate_run_id)
+    }));
+
+    res.json({ duplicates, total: duplicates.length });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/duplicates/scan - Check all runs for duplicates
+router.post('/scan', (req: Request, res: Response) => {
+  try {
+    const summary = getDuplicateService(req.app.locals.config as AppConfig).scanAll();
+    res.json(summary);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/duplicates/:id/merge - Merge a pair into one run
+router.post('/:id/merge', (req: Request, res: Response) => {
+  try {
+    const keepRunId = req.body?.keep_run_id;
+    if (keepRunId !== undefined && !Number.isInteger(keepRunId)) {
+      res.status(400).json({ error: 'keep_run_id must be a run id' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const pair = getDatabase(config).getRunDuplicate(parseInt(req.params.id));
+    if (!pair) {
+      res.status(404).json({ error: 'Duplicate not found' });
+      return;
+    }
+    if (keepRunId !== undefined && keepRunId !== pair.run_id && keepRunId !== pair.duplicate_run_id) {
+      res.status(400).json({ error: 'keep_run_id must be one of the two runs' });
+      return;
+    }
+
+    const runId = getDuplicateService(config).merge(pair.id, keepRunId);
+    if (runId === null) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    res.json({ run_id: runId, message: 'Runs merged' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/duplicates/:id/dismiss - Mark a pair as not duplicates
+router.post('/:id/dismiss', (req: Request, res: Response) => {
+  try {
+    const dismissed = getDuplicateService(req.app.locals.config as AppConfig).dismiss(parseInt(req.params.id));
+    if (!dismissed) {
+      res.status(404).json({ error: 'Duplicate not found' });
+      return;
+    }
+
+    res.json({ message: 'Duplicate dismissed' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { AppConfig } from '../../config/config.service';
+import { EXPORT_PARTS, ExportPart, getExportService } from '../../services/export.service';
+import { ExportFilter } from '../../models/database.types';
+
+const router = Router();
+
+// Same filters as GET /api/runs
+function exportFilter(req: Request): ExportFilter {
+  const { startDate, endDate, type } = req.query;
+  return {
+    ...(startDate ? { startDate: startDate as string } : {}),
+    ...(endDate ? { endDate: endDate as string } : {}),
+    ...(type ? { type: type as string } : {})
+  };
+}
+
+function exportDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// GET /api/export - ZIP with export.json, CSV per table and GPX per run
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const include = req.query.include ? (req.query.include as string).split(',').map(p => p.trim()) : [...EXPORT_PARTS];
+    const unknown = include.filter(p => !(EXPORT_PARTS as readonly string[]).includes(p));
+    if (unknown.length > 0 || include.length === 0) {
+      res.status(400).json({ error: `include must be a comma-separated list of ${EXPORT_PARTS.join(', ')}` });
+      return;
+    }
+
+    res.attachment(`running-export-${exportDate()}.zip`);
+    res.type('application/zip');
+    await getExportService(req.app.locals.config as AppConfig).writeArchive(res, exportFilter(req), include as ExportPart[]);
+    res.end();
+  } catch (error: any) {
+    console.error('[Export] Archive failed:', error.message);
+    // Part of the ZIP may already be sent; cut the download short so it isn't taken as complete
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/export/json - export.json on its own
+router.get('/json', (req: Request, res: Response) => {
+  try {
+    const dump = getExportService(req.app.locals.config as AppConfig).buildDump(exportFilter(req));
+    res.attachment(`running-export-${exportDate()}.json`);
+    res.json(dump);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
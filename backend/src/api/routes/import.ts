@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { AppConfig } from '../../config/config.service';
+import { getImportService } from '../../services/import.service';
+import { withAuditSource } from '../../services/audit.utils';
+
+const router = Router();
+
+// Strava archives and Apple Health exports of long-time users run to several
+// hundred MB, so uploads go to a temp file and are read from there
+const ARCHIVE_MAX_BYTES = 1024 * 1024 * 1024;
+const archiveUpload = multer({ storage: multer.diskStorage({ destination: os.tmpdir() }), limits: { fileSize: ARCHIVE_MAX_BYTES } });
+
+function removeUpload(req: Request): void {
+  if (req.file) {
+    fs.rmSync(req.file.path, { force: true });
+  }
+}
+
+// POST /api/import/strava-archive - Import a Strava "Download your data" ZIP
+router.post('/strava-archive', archiveUpload.single('archive'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No archive provided' });
+      return;
+    }
+    if (!req.file.originalname.toLowerCase().endsWith('.zip')) {
+      res.status(422).json({ error: 'Archive must be a .zip file' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const importService = getImportService(config);
+    const summary = await withAuditSource('import', () => importService.importStravaArchive(req.file!.path));
+
+    res.json(summary);
+  } catch (error: any) {
+    console.error('[Import] Strava archive failed:', error.message);
+    const invalidArchive = /ZIP|activities\.csv/.test(error.message);
+    res.status(invalidArchive ? 422 : 500).json({ error: error.message });
+  } finally {
+    removeUpload(req);
+  }
+});
+
+// POST /api/import/apple-health - Import running workouts from an Apple Health export.zip
+router.post('/apple-health', archiveUpload.single('archive'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No archive provided' });
+      return;
+    }
+    if (!req.file.originalname.toLowerCase().endsWith('.zip')) {
+      res.status(422).json({ error: 'Archive must be a .zip file' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const importService = getImportService(config);
+    const summary = await withAuditSource('import', () => importService.importAppleHealthExport(req.file!.path));
+
+    res.json(summary);
+  } catch (error: any) {
+    console.error('[Import] Apple Health export failed:', error.message);
+    const invalidArchive = /ZIP|export\.xml/.test(error.message);
+    res.status(invalidArchive ? 422 : 500).json({ error: error.message });
+  } finally {
+    removeUpload(req);
+  }
+});
+
+// POST /api/import/data-export - Re-import a data export (export.json or the export ZIP)
+router.post('/data-export', archiveUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file provided' });
+      return;
+    }
+    const fileName = req.file.originalname.toLowerCase();
+    if (!fileName.endsWith('.json') && !fileName.endsWith('.zip')) {
+      res.status(422).json({ error: 'File must be export.json or the export .zip' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const summary = await withAuditSource('import', () => getImportService(config).importDataExport(req.file!.path, fileName));
+
+    res.json(summary);
+  } catch (error: any) {
+    console.error('[Import] Data export failed:', error.message);
+    const invalidFile = /ZIP|export\.json/.test(error.message);
+    res.status(invalidFile ? 422 : 500).json({ error: error.message });
+  } finally {
+    removeUpload(req);
+  }
+});
+
+export default router;
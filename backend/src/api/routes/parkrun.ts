@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { getParkrunService } from '../../services/parkrun.service';
+import { withAuditSource } from '../../services/audit.utils';
 import { AppConfig } from '../../config/config.service';
 import Joi from 'joi';
 import * as fs from 'fs';
@@ -53,7 +54,7 @@ router.post('/scrape', async (req: Request, res: Response) => {
 
     const config = req.app.locals.config as AppConfig;
     const service = getParkrunService(config);
-    const result = await service.scrapeResults(value.daysBack || 90);
+    const result = await withAuditSource('parkrun_scrape', () => service.scrapeResults(value.daysBack || 90));
 
     res.json(result);
   } catch (error: any) {
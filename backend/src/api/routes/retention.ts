@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import { AppConfig } from '../../config/config.service';
+import { getDatabase } from '../../services/database.service';
+import { getRetentionService } from '../../services/retention.service';
+import { withAuditSource } from '../../services/audit.utils';
+
+const router = Router();
+
+const RETENTION_MODES = ['archive', 'strip', 'delete'];
+
+// GET /api/retention - Retention settings and what the archive holds
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const retentionService = getRetentionService(config);
+    res.json({
+      keep_years: config.retention.keep_years,
+      mode: config.retention.mode,
+      auto_cleanup: config.retention.auto_cleanup,
+      schedule: config.retention.cleanup_schedule,
+      cutoff: retentionService.cutoffDate(),
+      archive: getDatabase(config).getArchiveStats()
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/retention/preview - Dry run of cleanup, optionally with other settings
+router.get('/preview', (req: Request, res: Response) => {
+  try {
+    const { keep_years, mode, limit } = req.query;
+    if (mode && !RETENTION_MODES.includes(mode as string)) {
+      res.status(400).json({ error: `mode must be one of ${RETENTION_MODES.join(', ')}` });
+      return;
+    }
+    const keepYears = keep_years !== undefined ? parseInt(keep_years as string) : undefined;
+    if (keepYears !== undefined && (isNaN(keepYears) || keepYears < 0)) {
+      res.status(400).json({ error: 'keep_years must be a whole number of years' });
+      return;
+    }
+
+    const preview = getRetentionService(req.app.locals.config as AppConfig).preview({
+      ...(keepYears !== undefined ? { keepYears } : {}),
+      ...(mode ? { mode: mode as AppConfig['retention']['mode'] } : {}),
+      ...(limit ? { limit: parseInt(limit as string) } : {})
+    });
+    res.json(preview);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/retention/cleanup - Run cleanup now with the configured settings
+router.post('/cleanup', (req: Request, res: Response) => {
+  try {
+    const result = withAuditSource('retention', () => getRetentionService(req.app.locals.config as AppConfig).cleanup());
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Retention] Cleanup failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/retention/archive - Archived run summaries, newest first
+router.get('/archive', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config as AppConfig);
+    const { limit = 100, offset = 0 } = req.query;
+    const runs = db.getArchivedRuns({
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string)
+    });
+    res.json({ runs, total: db.getArchiveStats().runs });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/retention/archive/:id - An archived run with its streams and laps
+router.get('/archive/:id', (req: Request, res: Response) => {
+  try {
+    const run = getRetentionService(req.app.locals.config as AppConfig).getArchivedRun(parseInt(req.params.id));
+    if (!run) {
+      res.status(404).json({ error: 'Archived run not found' });
+      return;
+    }
+    res.json(run);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
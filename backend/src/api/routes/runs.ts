@@ -1,14 +1,87 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseService, getDatabase } from '../../services/database.service';
-import { Run } from '../../models/database.types';
+import { BEST_EFFORT_DISTANCES, HR_ZONE_MODELS, HrZoneModel, ParsedActivity, Run, STREAM_TYPES, StreamType, WORKOUT_TYPES, WorkoutType } from '../../models/database.types';
 import multer from 'multer';
-import GPXParser from 'gpxparser';
-import { tcxParser } from 'tcxparser';
+import { isSupportedActivityFile, parseActivityFile } from '../../services/parsers';
+import { UnsupportedSportError } from '../../services/parsers/track.utils';
+import { getImportService } from '../../services/import.service';
+import { withAuditSource } from '../../services/audit.utils';
+import { downsampleStreams } from '../../services/streams.utils';
+import { computeSplits, formatSplitPace, SPLIT_DISTANCES } from '../../services/splits.utils';
+import { formatEffortTime } from '../../services/best-efforts.utils';
+import { getDuplicateService } from '../../services/duplicate.service';
+import { getExportService } from '../../services/export.service';
+import { getAthleteService } from '../../services/athlete.service';
 import * as fs from 'fs';
-import path from 'path';
+import Joi from 'joi';
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
+const MAX_BULK_FILES = 100;
+const bulkUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { files: MAX_BULK_FILES, fileSize: 50 * 1024 * 1024 }
+});
+
+// Types a run can be entered or edited as (the running types Strava uses)
+const RUN_TYPES = ['Run', 'TrailRun', 'VirtualRun', 'Race'];
+
+// Fields of a manual entry, matching the Run interface (meters, seconds)
+const runFields = {
+  name: Joi.string().trim().min(1).max(200),
+  type: Joi.string().valid(...RUN_TYPES),
+  distance: Joi.number().min(0).max(1000000),
+  moving_time: Joi.number().integer().min(1),
+  elapsed_time: Joi.number().integer().min(1),
+  start_date: Joi.date().iso(),
+  start_date_local: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/)
+    .messages({ 'string.pattern.base': '"start_date_local" must be a local date and time (YYYY-MM-DDTHH:MM:SS)' }),
+  average_heartrate: Joi.number().min(20).max(250).allow(null),
+  max_heartrate: Joi.number().min(20).max(250).allow(null),
+  total_elevation_gain: Joi.number().min(0).allow(null),
+  notes: Joi.string().trim().max(5000).allow('', null),
+  tags: Joi.array().items(Joi.string().trim().min(1).max(40)).max(20).unique(),
+  // Overrides the classification; null hands it back to the classifier
+  workout_type: Joi.string().valid(...WORKOUT_TYPES).allow(null)
+};
+
+const createRunSchema = Joi.object({
+  ...runFields,
+  name: runFields.name.required(),
+  type: runFields.type.default('Run'),
+  distance: runFields.distance.required(),
+  moving_time: runFields.moving_time.required(),
+  start_date: runFields.start_date.required()
+});
+
+const updateRunSchema = Joi.object(runFields).min(1)
+  .messages({ 'object.min': 'Provide at least one field to update' });
+
+type RunInput = Partial<Omit<Run, 'start_date'>> & { start_date?: Date };
+
+function validationError(error: Joi.ValidationError): string {
+  return error.details.map(d => d.message).join(', ');
+}
+
+// Validated input -> run columns. Speed follows from distance and moving time.
+function runFromInput(input: RunInput, existing?: Run): Partial<Omit<Run, 'id' | 'created_at' | 'updated_at'>> {
+  const { start_date, ...fields } = input;
+  const run: Partial<Omit<Run, 'id' | 'created_at' | 'updated_at'>> = { ...fields };
+
+  if (start_date) {
+    run.start_date = start_date.toISOString();
+    // Without a local time, UTC is the best guess (same as file uploads)
+    run.start_date_local = input.start_date_local ?? run.start_date.replace('Z', '');
+  }
+  if (input.notes === '') run.notes = null;
+
+  const distance = run.distance ?? existing?.distance ?? 0;
+  const movingTime = run.moving_time ?? existing?.moving_time ?? 0;
+  if (run.distance !== undefined || run.moving_time !== undefined) {
+    run.average_speed = movingTime > 0 ? distance / movingTime : null;
+  }
+  return run;
+}
 
 // GET /api/runs - List runs with filters
 router.get('/', (req: Request, res: Response) => {
@@ -17,22 +90,30 @@ router.get('/', (req: Request, res: Response) => {
     const {
       startDate,
       endDate,
+      type,
+      workoutType,
       limit = 100,
       offset = 0,
       sortBy = 'start_date',
       sortOrder = 'desc'
     } = req.query;
 
+    if (workoutType !== undefined && !WORKOUT_TYPES.includes(workoutType as WorkoutType)) {
+      res.status(400).json({ error: `workoutType must be one of ${WORKOUT_TYPES.join(', ')}` });
+      return;
+    }
     const runs = db.getRuns({
       startDate: startDate as string,
       endDate: endDate as string,
+      type: type as string,
+      workoutType: workoutType as WorkoutType,
       limit: parseInt(limit as string),
       offset: parseInt(offset as string),
       sortBy: sortBy as string,
       sortOrder: sortOrder as 'asc' | 'desc'
     });
 
-    const total = db.countRuns(startDate as string, endDate as string);
+    const total = db.countRuns(startDate as string, endDate as string, type as string, workoutType as WorkoutType);
 
     res.json({
       runs: runs.map(run => ({
@@ -42,7 +123,9 @@ router.get('/', (req: Request, res: Response) => {
       total,
       limit: parseInt(limit as string),
       offset: parseInt(offset as string),
-      has_more: parseInt(offset as string) + runs.length < total
+      has_more: parseInt(offset as string) + runs.length < total,
+      // Matching every filter but workoutType
+      workout_types: db.countRunsByWorkoutType(startDate as string, endDate as string, type as string)
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -63,7 +146,179 @@ router.get('/:id', (req: Request, res: Response) => {
   }
 });
 
-// POST /api/runs/upload - Upload GPX/TCX file
+// GET /api/runs/:id/streams - Per-sample streams (time, latlng, distance, altitude, heartrate, ...)
+router.get('/:id/streams', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config);
+    const runId = parseInt(req.params.id);
+    if (!db.getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const streams = db.getRunStreams(runId);
+    if (!streams || streams.point_count === 0) {
+      res.status(404).json({ error: 'No streams for this run' });
+      return;
+    }
+
+    const maxPoints = req.query.max_points ? parseInt(req.query.max_points as string) : null;
+    if (maxPoints !== null && (isNaN(maxPoints) || maxPoints < 2)) {
+      res.status(400).json({ error: 'max_points must be an integer of at least 2' });
+      return;
+    }
+
+    const types = req.query.types ? (req.query.types as string).split(',') : null;
+    const unknown = types?.filter(t => !STREAM_TYPES.includes(t as StreamType)) || [];
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown stream types: ${unknown.join(', ')}` });
+      return;
+    }
+
+    const result: Record<string, any> = maxPoints ? downsampleStreams(streams, maxPoints) : { ...streams };
+    if (types) {
+      for (const type of STREAM_TYPES) {
+        if (!types.includes(type)) delete result[type];
+      }
+    }
+
+    res.json({
+      ...result,
+      original_point_count: streams.point_count
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/runs/:id/laps - Device laps (Strava or uploaded TCX/FIT)
+router.get('/:id/laps', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config);
+    const runId = parseInt(req.params.id);
+    if (!db.getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const laps = db.getRunLaps(runId).map(lap => ({
+      ...lap,
+      pace: formatPace(lap.moving_time > 0 && lap.distance > 0 ? (lap.moving_time / lap.distance) * 1000 : 0)
+    }));
+
+    res.json({ run_id: runId, laps });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/runs/:id/gpx - Download the run's route as GPX
+router.get('/:id/gpx', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config;
+    const runId = parseInt(req.params.id);
+    if (!getDatabase(config).getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const exported = getExportService(config).runGpx(runId);
+    if (!exported) {
+      res.status(404).json({ error: 'Run has no route' });
+      return;
+    }
+
+    res.attachment(exported.fileName);
+    res.type('application/gpx+xml').send(exported.gpx);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/runs/:id/splits - Per-kilometre or per-mile splits from the run's streams
+router.get('/:id/splits', (req: Request, res: Response) => {
+  try {
+    const unit = (req.query.unit as string) || 'km';
+    if (unit !== 'km' && unit !== 'mi') {
+      res.status(400).json({ error: "unit must be 'km' or 'mi'" });
+      return;
+    }
+
+    const db = getDatabase(req.app.locals.config);
+    const runId = parseInt(req.params.id);
+    if (!db.getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const streams = db.getRunStreams(runId);
+    const splits = streams ? computeSplits(streams, unit) : [];
+    if (splits.length === 0) {
+      res.status(404).json({ error: 'No distance/time streams for this run' });
+      return;
+    }
+
+    res.json({
+      run_id: runId,
+      unit,
+      split_distance: SPLIT_DISTANCES[unit],
+      splits
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/runs/:id/hr-zones - Time in each heart rate zone, from the heart rate stream or the average
+router.get('/:id/hr-zones', (req: Request, res: Response) => {
+  try {
+    const model = req.query.model as string | undefined;
+    if (model !== undefined && !HR_ZONE_MODELS.includes(model as HrZoneModel)) {
+      res.status(400).json({ error: `model must be one of ${HR_ZONE_MODELS.join(', ')}` });
+      return;
+    }
+
+    const config = req.app.locals.config;
+    const runId = parseInt(req.params.id);
+    if (!getDatabase(config).getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const zones = getAthleteService(config).getRunHrZones(runId, model as HrZoneModel | undefined);
+    if (!zones) {
+      res.status(404).json({ error: 'No heart rate data for this run' });
+      return;
+    }
+    res.json(zones);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/runs/:id/best-efforts - The run's fastest 400m, 1K, mile, 5K, ... each ranked against all runs
+router.get('/:id/best-efforts', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config);
+    const runId = parseInt(req.params.id);
+    if (!db.getRun(runId)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const efforts = db.getRunBestEfforts(runId).map(effort => ({
+      ...effort,
+      label: BEST_EFFORT_DISTANCES[effort.distance_key].label,
+      time: formatEffortTime(effort.elapsed_time),
+      pace: formatSplitPace((effort.elapsed_time / effort.distance) * 1000)
+    }));
+    res.json({ run_id: runId, efforts });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/runs/upload - Upload GPX/TCX/FIT file
 router.post('/upload', upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
@@ -71,24 +326,24 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
     }
 
     const name = req.body.name as string || `Uploaded Run ${new Date().toLocaleDateString()}`;
-    const fileExt = path.extname(req.file.originalname).toLowerCase();
-    let newRunData: any = null;
+    if (!isSupportedActivityFile(req.file.originalname)) {
+      return res.status(422).json({ error: 'Unsupported file format. Use GPX, TCX or FIT.' });
+    }
 
-    if (fileExt === '.gpx') {
-      newRunData = parseGPX(req.file.buffer.toString(), name);
-    } else if (fileExt === '.tcx') {
-      newRunData = parseTCX(req.file.buffer.toString(), name);
-    } else {
-      return res.status(422).json({ error: 'Unsupported file format. Use GPX or TCX.' });
+    let parsed: ParsedActivity | null;
+    try {
+      parsed = parseActivityFile(req.file.originalname, req.file.buffer, name);
+    } catch (error: any) {
+      if (!(error instanceof UnsupportedSportError)) throw error;
+      return res.status(422).json({ error: `${error.message}: only runs can be uploaded` });
     }
 
-    if (!newRunData) {
+    if (!parsed) {
       return res.status(422).json({ error: 'Failed to parse file. Invalid format.' });
     }
 
-    const db = getDatabase(req.app.locals.config);
-    const runId = db.insertRun(newRunData);
-    const run = db.getRun(runId);
+    const importService = getImportService(req.app.locals.config);
+    const runId = withAuditSource('upload', () => importService.saveParsedActivity(parsed));
 
     res.status(201).json({
       id: runId,
@@ -100,18 +355,145 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
   }
 });
 
-// DELETE /api/runs/:id - Delete run
+// POST /api/runs/upload/bulk - Upload many GPX/TCX/FIT files with a result per file
+router.post('/upload/bulk', (req: Request, res: Response) => {
+  bulkUpload.array('files', MAX_BULK_FILES)(req, res, async (uploadError: any) => {
+    if (uploadError) {
+      res.status(400).json({ error: uploadError.message });
+      return;
+    }
+
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        res.status(400).json({ error: 'No files provided' });
+        return;
+      }
+
+      const importService = getImportService(req.app.locals.config);
+      const summary = await withAuditSource('upload', () => importService.importFiles(
+        files.map(file => ({ fileName: file.originalname, buffer: file.buffer }))
+      ));
+
+      res.status(summary.created > 0 ? 201 : 200).json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+});
+
+// POST /api/runs - Enter a run by hand (treadmill sessions, races without a watch)
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { error, value } = createRunSchema.validate(req.body, { abortEarly: false });
+    if (error) {
+      res.status(400).json({ error: validationError(error) });
+      return;
+    }
+
+    const input = value as RunInput;
+    const fields = runFromInput(input);
+    const elapsedTime = fields.elapsed_time ?? fields.moving_time!;
+    if (elapsedTime < fields.moving_time!) {
+      res.status(400).json({ error: '"elapsed_time" must be at least "moving_time"' });
+      return;
+    }
+
+    const config = req.app.locals.config;
+    const db = getDatabase(config);
+    const id = db.insertRun({
+      strava_id: null,
+      name: fields.name!,
+      distance: fields.distance!,
+      moving_time: fields.moving_time!,
+      elapsed_time: elapsedTime,
+      start_date: fields.start_date!,
+      start_date_local: fields.start_date_local!,
+      type: fields.type!,
+      upload_id: null,
+      average_speed: fields.average_speed ?? null,
+      max_speed: null,
+      average_heartrate: fields.average_heartrate ?? null,
+      max_heartrate: fields.max_heartrate ?? null,
+      total_elevation_gain: fields.total_elevation_gain ?? null,
+      elev_high: null,
+      elev_low: null,
+      location_country: null,
+      location_state: null,
+      location_city: null,
+      latitude_start: null,
+      longitude_start: null,
+      latitude_end: null,
+      longitude_end: null,
+      polyline: null,
+      notes: fields.notes ?? null,
+      tags: fields.tags ?? [],
+      workout_type: fields.workout_type ?? null,
+      workout_type_manual: !!fields.workout_type
+    });
+    // Flag it if the same session was already synced or uploaded
+    getDuplicateService(config).checkRun(id);
+
+    res.status(201).json(db.getRun(id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PATCH /api/runs/:id - Edit a run's name, type, distance, times, notes, tags or workout type
+router.patch('/:id', (req: Request, res: Response) => {
+  try {
+    const { error, value } = updateRunSchema.validate(req.body, { abortEarly: false });
+    if (error) {
+      res.status(400).json({ error: validationError(error) });
+      return;
+    }
+
+    const db = getDatabase(req.app.locals.config);
+    const id = parseInt(req.params.id);
+    const existing = db.getRun(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const { workout_type: workoutType, ...input } = value as RunInput;
+    const fields = runFromInput(input, existing);
+    const movingTime = fields.moving_time ?? existing.moving_time;
+    const elapsedTime = fields.elapsed_time ?? existing.elapsed_time;
+    if (elapsedTime < movingTime) {
+      // Raising moving time on its own pushes elapsed time up with it
+      if (fields.elapsed_time !== undefined) {
+        res.status(400).json({ error: '"elapsed_time" must be at least "moving_time"' });
+        return;
+      }
+      fields.elapsed_time = movingTime;
+    }
+
+    db.updateRun(id, fields);
+    // Kept through later Strava syncs; notes and tags never come from Strava
+    db.markRunFieldsEdited(id, (Object.keys(fields) as (keyof Run)[]).filter(field => field !== 'notes' && field !== 'tags'));
+    if (workoutType !== undefined) {
+      db.setWorkoutTypeOverride(id, workoutType);
+    }
+    res.json(db.getRun(id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/runs/:id - Move run to the trash
 router.delete('/:id', (req: Request, res: Response) => {
   try {
     const db = getDatabase(req.app.locals.config);
     const id = parseInt(req.params.id);
-    const deleted = db.deleteRun(id);
+    const trashed = db.trashRun(id);
 
-    if (!deleted) {
+    if (!trashed) {
       return res.status(404).json({ error: 'Run not found' });
     }
 
-    res.json({ message: 'Run deleted' });
+    res.json({ message: 'Run moved to trash' });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -141,72 +523,6 @@ router.get('/stats/summary', (req: Request, res: Response) => {
   }
 });
 
-function parseGPX(gpxString: string, name: string): any {
-  try {
-    const gpx = new GPXParser(gpxString);
-    const track = gpx.tracks[0];
-
-    if (!track || !track.segments[0] || track.segments[0].points.length === 0) {
-      return null;
-    }
-
-    const points = track.segments[0].points;
-    const startPoint = points[0];
-    const endPoint = points[points.length - 1];
-
-    // Calculate total distance and moving time approximations
-    let totalDistance = 0;
-    for (let i = 1; i < points.length; i++) {
-      totalDistance += points[i].distanceFromPrevious || 0;
-    }
-
-    // Moving time - sum of time gaps
-    const elapsedTime = points.length > 1
-      ? (points[points.length - 1].time.getTime() - points[0].time.getTime()) / 1000
-      : 0;
-
-    // Average speed
-    const avgSpeed = totalDistance / elapsedTime;
-
-    return {
-      strava_id: null,
-      name,
-      distance: totalDistance,
-      moving_time: elapsedTime,
-      elapsed_time: elapsedTime,
-      start_date: startPoint.time.toISOString(),
-      start_date_local: startPoint.time.toISOString().replace('Z', ''),
-      type: 'Run',
-      upload_id: null,
-      average_speed: avgSpeed,
-      max_speed: avgSpeed,
-      average_heartrate: null,
-      max_heartrate: null,
-      total_elevation_gain: 0, // Could compute from elevation data
-      elev_high: null,
-      elev_low: null,
-      location_country: null,
-      location_state: null,
-      location_city: null,
-      latitude_start: startPoint.lat,
-      longitude_start: startPoint.lon,
-      latitude_end: endPoint.lat,
-      longitude_end: endPoint.lon,
-      polyline: null // Would need to encode points to polyline
-    };
-  } catch (error) {
-    console.error('GPX parse error:', error);
-    return null;
-  }
-}
-
-function parseTCX(tcxString: string, name: string): any {
-  // Similar implementation for TCX, using tcxParser library
-  // For now, return null - would implement in production
-  console.warn('TCX parsing not yet implemented');
-  return null;
-}
-
 function formatPace(secondsPerKm: number): string {
   if (!secondsPerKm || secondsPerKm <= 0) return 'N/A';
   const minutes = Math.floor(secondsPerKm / 60);
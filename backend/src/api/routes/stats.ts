@@ -1,16 +1,37 @@
 import { Router, Request, Response } from 'express';
 import { getStatsService } from '../../services/stats.service';
+import { getPredictionService } from '../../services/prediction.service';
+import { getTrainingLoadService } from '../../services/training-load.service';
+import { getAthleteService } from '../../services/athlete.service';
+import { getClassificationService } from '../../services/classification.service';
+import { HR_ZONE_MODELS, HrZoneModel, WORKOUT_TYPES, WorkoutType } from '../../models/database.types';
+import { getDatabase } from '../../services/database.service';
 import { AppConfig } from '../../config/config.service';
 
 const router = Router();
 
+const MAX_TRAINING_LOAD_DAYS = 3650;
+// Zones come from each run's heart rate stream, so the window is kept bounded
+const MAX_HR_ZONE_WEEKS = 104;
+
+// Archived runs (see retention.mode) count unless ?include_archived=false
+function includeArchived(req: Request): boolean {
+  return req.query.include_archived !== 'false';
+}
+
 // GET /api/stats/summary
 router.get('/summary', (req: Request, res: Response) => {
   try {
+    const workoutType = req.query.workout_type as string | undefined;
+    if (workoutType !== undefined && !WORKOUT_TYPES.includes(workoutType as WorkoutType)) {
+      res.status(400).json({ error: `workout_type must be one of ${WORKOUT_TYPES.join(', ')}` });
+      return;
+    }
+
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
     const days = req.query.days ? parseInt(req.query.days as string) : undefined;
-    const summary = statsService.getSummary(days);
+    const summary = statsService.getSummary(days, includeArchived(req), workoutType as WorkoutType | undefined);
     res.json(summary);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -23,7 +44,7 @@ router.get('/progress', (req: Request, res: Response) => {
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
     const period = req.query.period as 'weekly' | 'monthly' || 'weekly';
-    const progress = statsService.getPaceProgress(period);
+    const progress = statsService.getPaceProgress(period, includeArchived(req));
     res.json({ period, data: progress });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -36,7 +57,7 @@ router.get('/by-location', (req: Request, res: Response) => {
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
     const radius = req.query.radius_meters ? parseInt(req.query.radius_meters as string) : 1000;
-    const locations = statsService.getByLocation(radius);
+    const locations = statsService.getByLocation(radius, includeArchived(req));
     res.json({ locations });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -49,7 +70,7 @@ router.get('/consistency', (req: Request, res: Response) => {
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
     const days = req.query.days ? parseInt(req.query.days as string) : 30;
-    const consistency = statsService.getConsistency(days);
+    const consistency = statsService.getConsistency(days, includeArchived(req));
     res.json(consistency);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -61,23 +82,90 @@ router.get('/personal-records', (req: Request, res: Response) => {
   try {
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
-    const records = statsService.getPersonalRecords();
+    const records = statsService.getPersonalRecords(includeArchived(req));
     res.json(records);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// GET /api/stats/predict-5k
-router.get('/predict-5k', (req: Request, res: Response) => {
+// GET /api/stats/best-efforts - Fastest effort at each standard distance, with PR history
+router.get('/best-efforts', (req: Request, res: Response) => {
   try {
     const config = req.app.locals.config as AppConfig;
     const statsService = getStatsService(config);
-    const prediction = statsService.predict5KTime();
-    if (!prediction) {
-      return res.status(404).json({ error: 'Not enough recent run data to predict 5K time' });
+    res.json({ distances: statsService.getBestEfforts(includeArchived(req)) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/stats/best-efforts/rebuild - Recompute every run's best efforts from its streams
+router.post('/best-efforts/rebuild', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config as AppConfig);
+    res.json(db.rebuildBestEfforts());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/stats/workout-types/rebuild - Classify every run again with the current thresholds
+router.post('/workout-types/rebuild', (req: Request, res: Response) => {
+  try {
+    res.json(getClassificationService(req.app.locals.config as AppConfig).reclassifyAll());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/stats/predictions - Mile, 5K, 10K, half and marathon predictions with confidence intervals
+router.get('/predictions', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const predictions = getPredictionService(config).getPredictions();
+    if (!predictions) {
+      res.status(404).json({ error: 'No recent races or best efforts to predict from' });
+      return;
     }
-    res.json(prediction);
+    res.json(predictions);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/stats/training-load - Daily acute/chronic load, form and ACWR, with each run's load
+router.get('/training-load', (req: Request, res: Response) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 180;
+    if (isNaN(days) || days < 1 || days > MAX_TRAINING_LOAD_DAYS) {
+      res.status(400).json({ error: `days must be between 1 and ${MAX_TRAINING_LOAD_DAYS}` });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    res.json(getTrainingLoadService(config).getTrainingLoad(days, includeArchived(req)));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/stats/hr-zones - Weekly time in each heart rate zone
+router.get('/hr-zones', (req: Request, res: Response) => {
+  try {
+    const weeks = req.query.weeks ? parseInt(req.query.weeks as string) : 12;
+    if (isNaN(weeks) || weeks < 1 || weeks > MAX_HR_ZONE_WEEKS) {
+      res.status(400).json({ error: `weeks must be between 1 and ${MAX_HR_ZONE_WEEKS}` });
+      return;
+    }
+    const model = req.query.model as string | undefined;
+    if (model !== undefined && !HR_ZONE_MODELS.includes(model as HrZoneModel)) {
+      res.status(400).json({ error: `model must be one of ${HR_ZONE_MODELS.join(', ')}` });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    res.json(getAthleteService(config).getWeeklyHrZones(weeks, includeArchived(req), model as HrZoneModel | undefined));
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { getDatabase } from '../../services/database.service';
 import { getStravaService } from '../../services/strava.service';
+import { withAuditSource } from '../../services/audit.utils';
 import { AppConfig } from '../../config/config.service';
+import { StravaWebhookEvent } from '../../models/database.types';
 
 const router = Router();
 
@@ -29,9 +31,14 @@ router.get('/callback', async (req: Request, res: Response) => {
     const stravaService = getStravaService(config);
     const tokens = await stravaService.exchangeCodeForToken(code as string);
 
-    // Save tokens to config file
+    // Save tokens to config file (and the athlete id webhook events are matched against)
     stravaService.saveTokens(tokens);
 
+    // Import the athlete's full history in the background
+    if (stravaService.needsBackfill()) {
+      withAuditSource('strava_poll', () => stravaService.startBackfill());
+    }
+
     // Redirect to frontend settings page
     const frontendUrl = config.frontend.url;
     res.redirect(`${frontendUrl}/settings?strava_connected=true`);
@@ -40,12 +47,26 @@ router.get('/callback', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/strava/sync - Manual trigger sync
+// POST /api/strava/sync - Manual trigger sync (optionally reconcile recent activities)
 router.post('/sync', async (req: Request, res: Response) => {
   try {
+    const { reconcile, days, missing } = req.body || {};
+    if (reconcile !== undefined && typeof reconcile !== 'boolean') {
+      res.status(400).json({ error: 'reconcile must be a boolean' });
+      return;
+    }
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > 3650)) {
+      res.status(400).json({ error: 'days must be an integer between 1 and 3650' });
+      return;
+    }
+    if (missing !== undefined && missing !== 'flag' && missing !== 'delete') {
+      res.status(400).json({ error: "missing must be 'flag' or 'delete'" });
+      return;
+    }
+
     const config = req.app.locals.config as AppConfig;
     const stravaService = getStravaService(config);
-    const result = await stravaService.pollActivities();
+    const result = await withAuditSource('strava_poll', () => stravaService.pollActivities());
 
     console.log(`[Strava] Manual sync: ${result.added} added, ${result.found} fetched, ${result.errors.length} errors`);
 
@@ -53,18 +74,165 @@ router.post('/sync', async (req: Request, res: Response) => {
       console.warn('[Strava] Sync errors:', result.errors);
     }
 
+    const reconciliation = reconcile
+      ? await withAuditSource('strava_poll', () => stravaService.reconcileActivities({
+          ...(days !== undefined && { days }),
+          ...(missing !== undefined && { missing })
+        }))
+      : undefined;
+
     res.json({
       message: 'Sync completed',
       activities_found: result.found,
       activities_added: result.added,
-      errors: result.errors
+      streams_fetched: result.streams,
+      errors: result.errors,
+      ...(reconciliation && { reconciliation })
     });
   } catch (error: any) {
     console.error('[Strava] Sync exception:', error);
+    res.status(500).json({ error: error.response?.data?.message || error.message });
+  }
+});
+
+// GET /api/strava/backfill - Full history backfill progress
+router.get('/backfill', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+
+    res.json({
+      running: stravaService.isBackfillRunning(),
+      state: stravaService.getBackfillState(),
+      rate_limit: stravaService.getRateLimit()
+    });
+  } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// POST /api/strava/backfill - Start or resume the full history backfill
+router.post('/backfill', (req: Request, res: Response) => {
+  try {
+    const restart = req.body?.restart;
+    if (restart !== undefined && typeof restart !== 'boolean') {
+      res.status(400).json({ error: 'restart must be a boolean' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+    const alreadyRunning = stravaService.isBackfillRunning();
+    const state = withAuditSource('strava_poll', () => stravaService.startBackfill(restart === true));
+
+    console.log(`[Strava] Backfill ${alreadyRunning ? 'already running' : 'started'} (restart=${restart === true})`);
+
+    res.status(202).json({
+      message: alreadyRunning ? 'Backfill already running' : 'Backfill started',
+      running: true,
+      state
+    });
+  } catch (error: any) {
+    console.error('[Strava] Backfill start error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/strava/webhook - Subscription validation handshake from Strava
+router.get('/webhook', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'] as string | undefined;
+    const challenge = req.query['hub.challenge'];
+
+    if (mode !== 'subscribe' || !challenge || !stravaService.verifyWebhookToken(token)) {
+      console.warn('[Strava] Webhook validation rejected');
+      res.status(403).json({ error: 'Invalid verify token' });
+      return;
+    }
+
+    console.log('[Strava] Webhook subscription validated');
+    res.json({ 'hub.challenge': challenge });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/strava/webhook - Receive push events
+router.post('/webhook', (req: Request, res: Response) => {
+  const event = req.body as StravaWebhookEvent;
+  if (!event || !event.object_type || !event.aspect_type || !event.object_id) {
+    res.status(400).json({ error: 'Invalid webhook event' });
+    return;
+  }
+
+  // Strava retries unless it gets a 200 within two seconds, so acknowledge first
+  res.status(200).json({ received: true });
+
+  const config = req.app.locals.config as AppConfig;
+  const stravaService = getStravaService(config);
+  withAuditSource('webhook', () => stravaService.handleWebhookEvent(event))
+    .then(result => {
+      console.log(`[Strava] Webhook ${event.object_type} ${event.aspect_type} ${event.object_id}: ${result}`);
+    })
+    .catch((error: any) => {
+      console.error(`[Strava] Webhook ${event.object_type} ${event.aspect_type} ${event.object_id} failed:`, error.response?.data?.message || error.message);
+    });
+});
+
+// GET /api/strava/webhook/subscription - Current push subscription
+router.get('/webhook/subscription', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+    const subscription = await stravaService.getWebhookSubscription();
+    res.json({ subscription });
+  } catch (error: any) {
+    res.status(500).json({ error: error.response?.data?.message || error.message });
+  }
+});
+
+// POST /api/strava/webhook/subscription - Subscribe to push events
+router.post('/webhook/subscription', async (req: Request, res: Response) => {
+  try {
+    const callbackUrl = req.body?.callback_url;
+    if (typeof callbackUrl !== 'string' || !/^https?:\/\//.test(callbackUrl)) {
+      res.status(400).json({ error: 'callback_url must be a public http(s) URL ending in /api/strava/webhook' });
+      return;
+    }
+
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+    const subscription = await stravaService.createWebhookSubscription(callbackUrl);
+
+    console.log(`[Strava] Webhook subscription ${subscription.id} created for ${callbackUrl}`);
+    res.status(201).json({ subscription });
+  } catch (error: any) {
+    console.error('[Strava] Webhook subscribe error:', error.response?.data || error.message);
+    res.status(500).json({ error: error.response?.data?.message || error.message });
+  }
+});
+
+// DELETE /api/strava/webhook/subscription - Unsubscribe from push events
+router.delete('/webhook/subscription', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const stravaService = getStravaService(config);
+    const deleted = await stravaService.deleteWebhookSubscription();
+    if (!deleted) {
+      res.status(404).json({ error: 'No webhook subscription' });
+      return;
+    }
+
+    console.log('[Strava] Webhook subscription deleted');
+    res.json({ message: 'Webhook subscription deleted' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.response?.data?.message || error.message });
+  }
+});
+
 // GET /api/strava/status - Check connection status
 router.get('/status', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { AppConfig } from '../../config/config.service';
+import { getDatabase } from '../../services/database.service';
+
+const router = Router();
+
+// GET /api/trash - Trashed runs and events, most recently trashed first
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const db = getDatabase(config);
+    const runs = db.getTrashedRuns();
+    const customEvents = db.getTrashedCustomEvents();
+    res.json({
+      runs,
+      custom_events: customEvents,
+      total: runs.length + customEvents.length,
+      trash_days: config.retention.trash_days
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/trash - Empty the trash
+router.delete('/', (req: Request, res: Response) => {
+  try {
+    const purged = getDatabase(req.app.locals.config).purgeTrash();
+    console.log(`[Trash] Emptied: ${purged.runs} runs, ${purged.custom_events} events`);
+    res.json(purged);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/trash/runs/:id/restore - Put a run back
+router.post('/runs/:id/restore', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config);
+    const id = parseInt(req.params.id);
+    if (!db.restoreRun(id)) {
+      res.status(404).json({ error: 'Run not in trash' });
+      return;
+    }
+    res.json(db.getRun(id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/trash/runs/:id - Permanently delete a trashed run
+router.delete('/runs/:id', (req: Request, res: Response) => {
+  try {
+    if (!getDatabase(req.app.locals.config).purgeRun(parseInt(req.params.id))) {
+      res.status(404).json({ error: 'Run not in trash' });
+      return;
+    }
+    res.json({ message: 'Run permanently deleted' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/trash/custom-events/:id/restore - Put an event back
+router.post('/custom-events/:id/restore', (req: Request, res: Response) => {
+  try {
+    const db = getDatabase(req.app.locals.config);
+    const id = parseInt(req.params.id);
+    if (!db.restoreCustomEvent(id)) {
+      res.status(404).json({ error: 'Event not in trash' });
+      return;
+    }
+    res.json(db.getCustomEvent(id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/trash/custom-events/:id - Permanently delete a trashed event
+router.delete('/custom-events/:id', (req: Request, res: Response) => {
+  try {
+    if (!getDatabase(req.app.locals.config).purgeCustomEvent(parseInt(req.params.id))) {
+      res.status(404).json({ error: 'Event not in trash' });
+      return;
+    }
+    res.json({ message: 'Event permanently deleted' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import Joi from 'joi';
+import { RetentionMode } from '../models/database.types';
 
 export interface StravaConfig {
   client_id: string;
@@ -11,6 +12,7 @@ export interface StravaConfig {
   access_token: string;
   token_expires_at: number | null;
   poll_interval_hours: number;
+  webhook_verify_token: string;
 }
 
 export interface ServerConfig {
@@ -21,6 +23,9 @@ export interface ServerConfig {
 export interface DatabaseConfig {
   path: string;
   backup_path: string;
+  auto_backup: boolean;
+  backup_schedule: string;
+  backup_keep: number; // newest backups kept in backup_path
 }
 
 export interface ParkrunConfig {
@@ -40,10 +45,17 @@ export interface LoggingConfig {
 
 export interface RetentionConfig {
   keep_years: number;
+  mode: RetentionMode;
+  trash_days: number;
+  audit_days: number;
   auto_cleanup: boolean;
   cleanup_schedule: string;
 }
 
+export interface DuplicatesConfig {
+  auto_merge: boolean;
+}
+
 export interface FrontendConfig {
   url: string;
 }
@@ -55,6 +67,7 @@ export interface AppConfig {
   parkrun: ParkrunConfig;
   logging: LoggingConfig;
   retention: RetentionConfig;
+  duplicates: DuplicatesConfig;
   frontend: FrontendConfig;
 }
 
@@ -65,7 +78,10 @@ const configSchema: Joi.ObjectSchema<AppConfig> = Joi.object({
   }).required(),
   database: Joi.object({
     path: Joi.string().required(),
-    backup_path: Joi.string().required()
+    backup_path: Joi.string().required(),
+    auto_backup: Joi.boolean().default(true),
+    backup_schedule: Joi.string().default('0 3 * * *'),
+    backup_keep: Joi.number().integer().min(1).default(7)
   }).required(),
   strava: Joi.object({
     client_id: Joi.string().required(),
@@ -75,7 +91,8 @@ const configSchema: Joi.ObjectSchema<AppConfig> = Joi.object({
     refresh_token: Joi.string().allow('').default(''),
     access_token: Joi.string().allow('').default(''),
     token_expires_at: Joi.number().allow(null).default(null),
-    poll_interval_hours: Joi.number().integer().min(1).default(6)
+    poll_interval_hours: Joi.number().integer().min(1).default(6),
+    webhook_verify_token: Joi.string().allow('').default('')
   }).required(),
   parkrun: Joi.object({
     base_url: Joi.string().required(),
@@ -92,9 +109,15 @@ const configSchema: Joi.ObjectSchema<AppConfig> = Joi.object({
   }).required(),
   retention: Joi.object({
     keep_years: Joi.number().integer().min(0).default(1),
+    mode: Joi.string().valid('archive', 'strip', 'delete').default('archive'),
+    trash_days: Joi.number().integer().min(0).default(30),
+    audit_days: Joi.number().integer().min(0).default(365),
     auto_cleanup: Joi.boolean().default(true),
     cleanup_schedule: Joi.string().required()
   }).required(),
+  duplicates: Joi.object({
+    auto_merge: Joi.boolean().default(false)
+  }).default(),
   frontend: Joi.object({
     url: Joi.string().required()
   }).required()
@@ -1,4 +1,4 @@
-import express, { Application, Request, Response } from 'express';
+import express, { Application, NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
@@ -10,9 +10,13 @@ import fs from 'fs';
 
 import { loadConfig, AppConfig } from './config/config.service';
 import { initializeDatabase, getDatabase } from './services/database.service';
+import { getClassificationService } from './services/classification.service';
 import { getStravaService } from './services/strava.service';
 import { getParkrunService } from './services/parkrun.service';
 import { getRecommendationService } from './services/recommendation.service';
+import { getBackupService } from './services/backup.service';
+import { getRetentionService } from './services/retention.service';
+import { withAuditSource } from './services/audit.utils';
 
 import runsRouter from './api/routes/runs';
 import stravaRouter from './api/routes/strava';
@@ -21,6 +25,14 @@ import statsRouter from './api/routes/stats';
 import recommendationsRouter from './api/routes/recommendations';
 import calendarRouter from './api/routes/calendar';
 import customEventsRouter from './api/routes/custom-events';
+import importRouter from './api/routes/import';
+import duplicatesRouter from './api/routes/duplicates';
+import backupsRouter from './api/routes/backups';
+import exportRouter from './api/routes/export';
+import retentionRouter from './api/routes/retention';
+import trashRouter from './api/routes/trash';
+import auditRouter from './api/routes/audit';
+import athleteRouter from './api/routes/athlete';
 
 // Load configuration
 const config: AppConfig = loadConfig();
@@ -28,6 +40,9 @@ const config: AppConfig = loadConfig();
 // Initialize database
 initializeDatabase(config);
 
+// Classify runs on first start, and again when the classification rules change
+getClassificationService(config).ensureWorkoutTypes();
+
 // Get database instance
 const db = getDatabase(config);
 
@@ -51,6 +66,10 @@ app.locals.config = config;
 app.locals.db = getDatabase(config);
 app.locals.recommendationService = new (require('./services/recommendation.service').RecommendationService)(db, config);
 
+// Changes made through the API are logged as the user's, unless the route
+// says otherwise (syncs, uploads, imports, ...)
+app.use('/api', (_req: Request, _res: Response, next: NextFunction) => withAuditSource('user', next));
+
 // API Routes
 app.use('/api/runs', runsRouter);
 app.use('/api/strava', stravaRouter);
@@ -59,13 +78,22 @@ app.use('/api/stats', statsRouter);
 app.use('/api/recommendations', require('./api/routes/recommendations').default);
 app.use('/api/calendar', calendarRouter);
 app.use('/api/custom-events', customEventsRouter);
+app.use('/api/import', importRouter);
+app.use('/api/duplicates', duplicatesRouter);
+app.use('/api/backups', backupsRouter);
+app.use('/api/export', exportRouter);
+app.use('/api/retention', retentionRouter);
+app.use('/api/trash', trashRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/athlete', athleteRouter);
 
 // Health check
 app.get('/api/health', (req: Request, res: Response) => {
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    version: '1.0.0'
+    version: '1.0.0',
+    schema_version: db.getSchemaVersion()
   });
 });
 
@@ -133,8 +161,14 @@ function scheduleTasks(): void {
       try {
         logger.info('Starting Strava poll');
         const stravaService = getStravaService(config);
-        const result = await stravaService.pollActivities();
-        logger.info('Strava poll completed', { found: result.found, added: result.added, errors: result.errors });
+        const result = await withAuditSource('strava_poll', () => stravaService.pollActivities());
+        logger.info('Strava poll completed', { found: result.found, added: result.added, streams: result.streams, errors: result.errors });
+
+        // Pick up a backfill that stopped on the daily rate limit, an error or a restart
+        if (stravaService.needsBackfill()) {
+          logger.info('Resuming Strava history backfill');
+          withAuditSource('strava_poll', () => stravaService.startBackfill());
+        }
       } catch (error: any) {
         logger.error('Strava poll failed', { error: error.message });
       }
@@ -148,7 +182,7 @@ function scheduleTasks(): void {
       try {
         logger.info('Starting parkrun scrape');
         const parkrunService = getParkrunService(config);
-        const result = await parkrunService.scrapeResults(config.parkrun.scrape_days_back);
+        const result = await withAuditSource('parkrun_scrape', () => parkrunService.scrapeResults(config.parkrun.scrape_days_back));
         logger.info('Parkrun scrape completed', { eventsFound: result.eventsFound, resultsAdded: result.resultsAdded, errors: result.errors });
       } catch (error: any) {
         logger.error('Parkrun scrape failed', { error: error.message });
@@ -162,15 +196,36 @@ function scheduleTasks(): void {
     cron.schedule(config.retention.cleanup_schedule, () => {
       try {
         logger.info('Starting data cleanup');
-        const db = getDatabase(config);
-        const deleted = db.cleanupOldRuns(config.retention.keep_years);
-        logger.info(`Data cleanup completed: ${deleted} old runs deleted`);
+        const result = withAuditSource('retention', () => getRetentionService(config).cleanup());
+        logger.info(`Data cleanup completed: ${result.runs} runs before ${result.cutoff.slice(0, 10)} (${result.mode})`);
+        if (config.retention.trash_days > 0) {
+          const purged = withAuditSource('retention', () => db.purgeTrash(config.retention.trash_days));
+          logger.info(`Trash emptied: ${purged.runs} runs, ${purged.custom_events} events older than ${config.retention.trash_days} days`);
+        }
+        if (config.retention.audit_days > 0) {
+          const pruned = db.pruneAuditLog(config.retention.audit_days);
+          logger.info(`Audit log pruned: ${pruned} entries older than ${config.retention.audit_days} days`);
+        }
       } catch (error: any) {
         logger.error('Data cleanup failed', { error: error.message });
       }
     });
     logger.info(`Data cleanup scheduled: ${config.retention.cleanup_schedule}`);
   }
+
+  // Database backups
+  if (config.database.auto_backup) {
+    cron.schedule(config.database.backup_schedule, () => {
+      try {
+        logger.info('Starting database backup');
+        const backup = getBackupService(config).createBackup('scheduled');
+        logger.info(`Database backup completed: ${backup.name}`, { size: backup.size });
+      } catch (error: any) {
+        logger.error('Database backup failed', { error: error.message });
+      }
+    });
+    logger.info(`Database backups scheduled: ${config.database.backup_schedule} (keeping ${config.database.backup_keep})`);
+  }
 }
 
 // Start server
@@ -184,8 +239,13 @@ app.listen(PORT, HOST, () => {
       if (config.strava.refresh_token) {
         logger.info('Triggering initial Strava sync');
         const stravaService = getStravaService(config);
-        const result = await stravaService.pollActivities();
+        const result = await withAuditSource('strava_poll', () => stravaService.pollActivities());
         logger.info('Initial Strava sync completed', { added: result.added });
+
+        if (stravaService.needsBackfill()) {
+          logger.info('Starting Strava history backfill');
+          withAuditSource('strava_poll', () => stravaService.startBackfill());
+        }
       }
     } catch (error: any) {
       logger.error('Initial Strava sync failed', { error: error.message });
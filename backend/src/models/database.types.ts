@@ -25,6 +25,13 @@ export interface Run {
   latitude_end: number | null;
   longitude_end: number | null;
   polyline: string | null; // Encoded polyline for map
+  strava_missing_at?: string | null; // Set when reconciliation no longer finds the activity on Strava
+  notes?: string | null; // Free text, entered by hand
+  tags?: string[]; // Entered by hand, e.g. ['treadmill', 'race']
+  workout_type?: WorkoutType | null; // Null until classified (see classification.utils)
+  workout_type_manual?: boolean; // Set by hand; never reclassified
+  edited_fields?: (keyof Run)[]; // Edited by hand; never overwritten from Strava
+  deleted_at?: string | null; // Set while the run is in the trash
   created_at: string; // ISO 8601
   updated_at: string; // ISO 8601
 }
@@ -64,6 +71,15 @@ export interface RunStats {
   average_speed_kmh: number;
   longest_run: number;
   most_frequent_day: string;
+  by_workout_type?: WorkoutTypeStats[];
+}
+
+export interface WorkoutTypeStats {
+  workout_type: WorkoutType | null; // null for runs not classified yet
+  runs: number;
+  distance: number; // meters
+  moving_time: number; // seconds
+  average_pace_seconds: number; // per km
 }
 
 export interface PaceProgress {
@@ -113,6 +129,7 @@ export interface StravaTokenResponse {
   refresh_token: string;
   expires_at: number;
   expires_in: number;
+  athlete?: StravaAthlete; // Only on the authorization_code exchange
 }
 
 export interface StravaActivity {
@@ -142,6 +159,68 @@ export interface StravaActivity {
   location_city?: string;
 }
 
+// Strava rate limit usage from the X-RateLimit-* response headers
+export interface StravaRateLimit {
+  short_limit: number; // requests per 15 minutes
+  short_usage: number;
+  daily_limit: number;
+  daily_usage: number;
+  updated_at: string;
+}
+
+// Checkpoint for the full-history backfill, stored in sync_metadata
+export interface StravaBackfillState {
+  status: 'idle' | 'running' | 'waiting' | 'rate_limited' | 'completed' | 'failed';
+  before: number | null; // epoch seconds; next page fetches activities older than this
+  pages: number;
+  activities_fetched: number;
+  runs_added: number;
+  oldest_activity_date: string | null;
+  resume_at: string | null; // when waiting on the 15-minute limit
+  started_at: string | null;
+  updated_at: string | null;
+  completed_at: string | null;
+  error: string | null;
+}
+
+// One changed field found by reconciliation
+export interface RunFieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Result of re-fetching a window of Strava activities and diffing it against the runs table
+export interface StravaReconcileSummary {
+  window_start: string;
+  window_end: string;
+  missing_action: 'flag' | 'delete';
+  activities_checked: number;
+  added: { strava_id: number; name: string }[];
+  updated: { run_id: number; strava_id: number; name: string; changes: RunFieldChange[] }[];
+  removed: { run_id: number; strava_id: number; name: string; reason: string }[];
+  flagged: { run_id: number; strava_id: number; name: string }[];
+  unchanged: number;
+}
+
+// Push event from the Strava webhook subscription
+export interface StravaWebhookEvent {
+  object_type: 'activity' | 'athlete';
+  object_id: number; // activity id or athlete id
+  aspect_type: 'create' | 'update' | 'delete';
+  owner_id: number; // athlete id
+  subscription_id: number;
+  event_time: number; // epoch seconds
+  updates?: Record<string, string>; // e.g. { title: 'New name' }, { authorized: 'false' }
+}
+
+export interface StravaSubscription {
+  id: number;
+  callback_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface StravaAthlete {
   id: number;
   username?: string;
@@ -151,11 +230,521 @@ export interface StravaAthlete {
   profile: string;
 }
 
+// Single sample from an uploaded activity file (GPX/TCX/FIT)
+export interface TrackPoint {
+  time: Date;
+  lat: number | null;
+  lon: number | null;
+  altitude: number | null; // meters
+  distance: number | null; // cumulative meters, when the device recorded it
+  heartrate: number | null; // bpm
+  cadence: number | null; // steps per minute (single leg, as Strava reports it)
+  power: number | null; // watts
+  speed: number | null; // m/s, when the device recorded it
+}
+
+// Lap as recorded by the device
+export interface ParsedLap {
+  lap_index: number;
+  start_date: string; // ISO 8601 UTC
+  elapsed_time: number; // seconds
+  moving_time: number; // seconds
+  distance: number; // meters
+  average_speed: number | null; // m/s
+  max_speed: number | null; // m/s
+  average_heartrate: number | null;
+  max_heartrate: number | null;
+  average_cadence: number | null;
+  total_elevation_gain: number | null;
+  intensity: string | null; // e.g. 'active', 'rest'
+  trigger: string | null; // e.g. 'manual', 'distance'
+}
+
+// Stream types stored per run, matching Strava's stream keys
+export const STREAM_TYPES = [
+  'time', 'latlng', 'distance', 'altitude', 'heartrate', 'cadence', 'velocity_smooth', 'grade_smooth'
+] as const;
+
+export type StreamType = typeof STREAM_TYPES[number];
+
+// Per-second (or per-sample) data for a run. Every present stream has
+// point_count entries; streams the source didn't record are null.
+export interface RunStreams {
+  run_id: number;
+  source: 'strava' | 'upload';
+  point_count: number;
+  time: number[] | null; // seconds from start
+  latlng: [number, number][] | null;
+  distance: number[] | null; // cumulative meters
+  altitude: number[] | null; // meters
+  heartrate: number[] | null; // bpm
+  cadence: number[] | null; // steps per minute (single leg)
+  velocity_smooth: number[] | null; // m/s
+  grade_smooth: number[] | null; // percent
+  created_at: string;
+}
+
+export type SplitUnit = 'km' | 'mi';
+
+// One kilometre or mile of a run, derived from its streams. The last split is
+// usually partial; pace is still per full unit.
+export interface RunSplit {
+  split: number; // 1-based
+  distance: number; // meters covered in this split
+  elapsed_time: number; // seconds
+  moving_time: number; // seconds
+  pace_seconds: number | null; // moving seconds per unit
+  pace: string; // M:SS
+  average_speed: number | null; // m/s
+  elevation_difference: number | null; // meters, end minus start
+  average_heartrate: number | null; // time-weighted bpm
+}
+
+// Stored lap, from Strava /activities/{id}/laps or an uploaded TCX/FIT file
+export interface RunLap extends ParsedLap {
+  id: number;
+  run_id: number;
+  name: string | null; // Strava's lap name, e.g. 'Lap 3'
+  created_at: string;
+}
+
+// Lap as returned by Strava /activities/{id}/laps
+export interface StravaLap {
+  id: number;
+  name: string;
+  lap_index: number; // 1-based
+  start_date: string;
+  elapsed_time: number;
+  moving_time: number;
+  distance: number;
+  average_speed: number;
+  max_speed: number;
+  average_heartrate?: number;
+  max_heartrate?: number;
+  average_cadence?: number;
+  total_elevation_gain: number;
+}
+
+// Result of parsing an uploaded activity file
+export interface ParsedActivity {
+  run: Omit<Run, 'id' | 'created_at' | 'updated_at'>;
+  points: TrackPoint[];
+  laps: ParsedLap[];
+}
+
+// Outcome for one file of a bulk or archive import
+export interface ImportFileResult {
+  file: string;
+  status: 'created' | 'duplicate' | 'skipped' | 'failed';
+  run_id: number | null; // created run, or the existing run for duplicates
+  strava_id: number | null;
+  name: string | null;
+  reason: string | null; // why it was skipped, a duplicate or failed
+}
+
+export interface ImportSummary {
+  total: number;
+  created: number;
+  duplicate: number;
+  skipped: number;
+  failed: number;
+  results: ImportFileResult[];
+}
+
+// Two runs that look like the same session recorded or imported twice.
+// run_id is always the lower id of the pair.
+export interface RunDuplicate {
+  id: number;
+  run_id: number;
+  duplicate_run_id: number;
+  time_overlap: number; // overlap as a fraction of the shorter run's elapsed time
+  distance_difference: number; // |a - b| as a fraction of the longer distance
+  start_distance: number | null; // meters between start points, null if either has no position
+  confidence: 'high' | 'medium';
+  status: 'pending' | 'dismissed';
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface DuplicateCheckResult {
+  run_id: number; // the run that remains; differs from the checked run after an auto-merge
+  flagged: number;
+  merged: boolean;
+}
+
 // Custom calendar events
 export interface CustomEvent {
   id: number;
   date: string; // ISO 8601 date (YYYY-MM-DD)
   title: string;
   description?: string;
+  deleted_at?: string | null; // Set while the event is in the trash
+  created_at: string;
+  updated_at: string;
+}
+
+// Database copy in database.backup_path
+export type BackupKind = 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore' | 'uploaded' | 'other';
+
+export interface BackupInfo {
+  name: string; // file name, e.g. 'running-scheduled-2025-02-19T03-00-00-000Z.db'
+  kind: BackupKind;
+  size: number; // bytes
+  created_at: string;
+}
+
+export interface RestoreResult {
+  restored: string; // name of the backup now in use
+  pre_restore_backup: string; // copy of the database as it was before the restore
+  schema_version: number;
+  runs: number;
+}
+
+// Full data export, written as export.json and read back by the JSON import
+export const DATA_EXPORT_FORMAT = 'running-dashboard-export';
+export const DATA_EXPORT_VERSION = 1;
+
+export interface ExportFilter {
+  startDate?: string;
+  endDate?: string;
+  type?: string; // runs only
+}
+
+export interface ExportedRun extends Run {
+  streams: Omit<RunStreams, 'run_id' | 'created_at'> | null;
+  laps: RunLap[];
+}
+
+export interface DataExport {
+  format: typeof DATA_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  schema_version: number;
+  filters: ExportFilter;
+  runs: ExportedRun[];
+  parkrun_results: ParkrunResult[];
+  custom_events: CustomEvent[];
+}
+
+export interface DataImportSummary {
+  runs: ImportSummary;
+  parkrun_results: { total: number; created: number; existing: number };
+  custom_events: { total: number; created: number; existing: number };
+}
+
+// Run moved to run_archive by retention cleanup: the summary columns kept for
+// stats. The full run is stored compressed alongside (see ArchivedRunDetail).
+export interface ArchivedRun {
+  id: number; // the run's id before it was archived
+  strava_id: number | null;
+  name: string;
+  type: string;
+  start_date: string;
+  start_date_local: string;
+  distance: number;
+  moving_time: number;
+  elapsed_time: number;
+  average_speed: number | null;
+  max_speed: number | null;
+  average_heartrate: number | null;
+  max_heartrate: number | null;
+  total_elevation_gain: number | null;
+  latitude_start: number | null;
+  longitude_start: number | null;
+  workout_type: WorkoutType | null;
+  data_size: number; // bytes of compressed data
+  archived_at: string;
+}
+
+export interface ArchivedRunDetail extends ExportedRun {
+  archived_at: string;
+}
+
+// What retention cleanup does with runs older than retention.keep_years:
+// archive moves them to run_archive, strip keeps them but drops the polyline
+// and streams, delete removes them
+export type RetentionMode = 'archive' | 'strip' | 'delete';
+
+export interface RetentionCandidate {
+  id: number;
+  name: string;
+  type: string;
+  start_date: string;
+  distance: number;
+  has_route: boolean;
+  has_streams: boolean;
+  heavy_bytes: number; // polyline and stream data, uncompressed
+}
+
+export interface RetentionPreview {
+  mode: RetentionMode;
+  keep_years: number;
+  cutoff: string; // runs starting before this are affected
+  runs: number;
+  total_distance: number; // meters
+  heavy_bytes: number;
+  oldest: string | null;
+  newest: string | null;
+  candidates: RetentionCandidate[]; // the oldest first, up to the requested limit
+}
+
+export interface RetentionResult {
+  mode: RetentionMode;
+  keep_years: number;
+  cutoff: string;
+  runs: number; // runs archived, stripped or deleted
+}
+
+// Audit log
+export const AUDIT_ENTITIES = ['run', 'parkrun_result', 'custom_event'] as const;
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+// trash and restore move rows in and out of the trash; archive moves a run to
+// run_archive; delete removes a row for good
+export const AUDIT_ACTIONS = ['insert', 'update', 'trash', 'restore', 'archive', 'delete'] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// What made the change. system covers anything outside a request or a
+// scheduled job, such as scripts.
+export const AUDIT_SOURCES = [
+  'strava_poll', 'webhook', 'upload', 'import', 'parkrun_scrape', 'user', 'retention', 'system'
+] as const;
+export type AuditSource = typeof AUDIT_SOURCES[number];
+
+// Changed fields with their old and new values. Long text such as polylines
+// is summarised rather than copied.
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  id: number;
+  entity_type: AuditEntity;
+  entity_id: number;
+  action: AuditAction;
+  source: AuditSource;
+  label: string | null; // run name, event title, ... as it was at the time
+  changes: AuditChanges | null; // null for trash, restore and archive
   created_at: string;
 }
+
+export interface AuditFilter {
+  entityType?: AuditEntity;
+  entityId?: number;
+  action?: AuditAction;
+  source?: AuditSource;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Best efforts: the fastest stretch of each standard distance within a run
+export const BEST_EFFORT_KEYS = ['400m', '1k', '1mi', '5k', '10k', 'half', 'marathon'] as const;
+export type BestEffortKey = typeof BEST_EFFORT_KEYS[number];
+
+export const BEST_EFFORT_DISTANCES: Record<BestEffortKey, { label: string; distance: number }> = {
+  '400m': { label: '400m', distance: 400 },
+  '1k': { label: '1K', distance: 1000 },
+  '1mi': { label: '1 mile', distance: 1609.344 },
+  '5k': { label: '5K', distance: 5000 },
+  '10k': { label: '10K', distance: 10000 },
+  half: { label: 'Half marathon', distance: 21097.5 },
+  marathon: { label: 'Marathon', distance: 42195 }
+};
+
+// streams: found by sliding a window over the distance stream; summary: the
+// whole run, for runs without streams whose distance is close to a standard one
+export type BestEffortSource = 'streams' | 'summary';
+
+export interface BestEffort {
+  run_id: number;
+  distance_key: BestEffortKey;
+  distance: number; // meters
+  elapsed_time: number; // seconds
+  start_offset: number | null; // seconds into the run; null for summary efforts
+  source: BestEffortSource;
+}
+
+// A best effort with the run it came from
+export interface RunBestEffort extends BestEffort {
+  run_name: string;
+  start_date: string;
+  start_date_local: string;
+}
+
+// A run's own effort, with its place among all runs' efforts at that distance
+export interface RankedBestEffort extends BestEffort {
+  rank: number; // 1 is the PR
+}
+
+export interface BestEffortRecord extends RunBestEffort {
+  time: string; // h:mm:ss or m:ss
+  pace: string; // per km
+}
+
+export interface BestEffortSummary {
+  distance_key: BestEffortKey;
+  label: string;
+  distance: number;
+  best: BestEffortRecord | null;
+  efforts: number; // runs with an effort at this distance
+  history: BestEffortRecord[]; // each time the PR was beaten, oldest first
+}
+
+// Race predictions
+// race: a run of type Race or tagged 'race'; best_effort: the run's best
+// effort with the highest VDOT
+export type PredictionSource = 'race' | 'parkrun' | 'best_effort';
+
+// A recent performance predictions are based on
+export interface PredictionInput {
+  source: PredictionSource;
+  run_id: number | null; // null for parkrun results
+  name: string;
+  date: string;
+  distance: number; // meters
+  elapsed_time: number; // seconds
+  time: string;
+  vdot: number;
+}
+
+export interface RacePrediction {
+  distance_key: BestEffortKey;
+  label: string;
+  distance: number;
+  predicted_seconds: number; // mean of the Riegel and VDOT times
+  predicted_time: string;
+  pace: string; // per km
+  riegel_seconds: number;
+  vdot_seconds: number;
+  lower_seconds: number; // confidence interval
+  upper_seconds: number;
+  lower_time: string;
+  upper_time: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface RacePredictions {
+  window_days: number;
+  vdot: number; // mean of the inputs'
+  based_on: PredictionInput[]; // best VDOT first
+  predictions: RacePrediction[];
+}
+
+// Training load
+// trimp: Banister's TRIMP from average heart rate; rtss: running TSS
+// estimated from pace, for runs without heart rate
+export type TrainingLoadMethod = 'trimp' | 'rtss';
+
+// The run columns archived runs keep too, for models over the whole history
+export type RunSummary = Pick<Run, 'id' | 'name' | 'type' | 'start_date' | 'start_date_local' | 'distance' | 'moving_time' | 'elapsed_time' | 'average_heartrate' | 'max_heartrate'>;
+
+export interface RunTrainingLoad {
+  run_id: number;
+  name: string;
+  date: string; // YYYY-MM-DD, local
+  load: number;
+  method: TrainingLoadMethod;
+}
+
+export interface TrainingLoadDay {
+  date: string; // YYYY-MM-DD, local
+  load: number; // sum of the day's runs
+  atl: number; // acute load (fatigue), 7-day exponentially weighted average
+  ctl: number; // chronic load (fitness), 42-day exponentially weighted average
+  tsb: number; // training stress balance (form): yesterday's ctl - atl
+  acwr: number | null; // acute:chronic workload ratio, atl / ctl; null while ctl is ~0
+}
+
+export interface TrainingLoad {
+  days: number;
+  // What the loads were computed with
+  hr_max: number;
+  hr_rest: number;
+  threshold_pace: string; // per km
+  current: TrainingLoadDay | null;
+  series: TrainingLoadDay[]; // oldest first, one entry per day
+  runs: RunTrainingLoad[]; // runs within the series, oldest first
+}
+
+// Athlete profile and heart rate zones
+// percent_max: percentages of max HR; karvonen: percentages of heart rate
+// reserve above resting HR; lthr: percentages of lactate threshold HR (Friel)
+export const HR_ZONE_MODELS = ['percent_max', 'karvonen', 'lthr'] as const;
+export type HrZoneModel = typeof HR_ZONE_MODELS[number];
+
+// As stored; null values are estimated (see EffectiveAthleteProfile)
+export interface AthleteProfile {
+  max_hr: number | null;
+  resting_hr: number | null;
+  threshold_hr: number | null;
+  threshold_pace: number | null; // seconds per km
+  hr_zone_model: HrZoneModel;
+  updated_at?: string;
+}
+
+export interface EffectiveAthleteProfile {
+  max_hr: number;
+  resting_hr: number;
+  threshold_hr: number;
+  threshold_pace: number; // seconds per km
+  hr_zone_model: HrZoneModel;
+  estimated: ('max_hr' | 'resting_hr' | 'threshold_hr' | 'threshold_pace')[];
+}
+
+export interface HrZone {
+  zone: number; // 1-5
+  name: string;
+  min_hr: number; // inclusive; 0 for zone 1
+  max_hr: number | null; // exclusive; null for zone 5
+}
+
+export interface HrZoneTime extends HrZone {
+  seconds: number;
+  percent: number; // of the run's time with heart rate
+}
+
+// streams: each sample's heart rate; average: the whole moving time in the
+// zone of the run's average heart rate, for runs without a heart rate stream
+export type HrZoneSource = 'streams' | 'average';
+
+export interface RunHrZones {
+  run_id: number;
+  model: HrZoneModel;
+  source: HrZoneSource;
+  zones: HrZoneTime[];
+}
+
+export interface WeeklyHrZones {
+  week_start: string; // Monday, YYYY-MM-DD
+  seconds: number[]; // per zone, zone 1 first
+  total: number;
+  runs: number;
+}
+
+export interface HrZoneDistribution {
+  model: HrZoneModel;
+  profile: EffectiveAthleteProfile;
+  zones: HrZone[];
+  weeks: WeeklyHrZones[]; // oldest first
+  totals: number[]; // per zone, over all weeks
+}
+
+export interface PaceZone {
+  zone: number; // 1-6
+  name: string;
+  min_speed: number; // m/s, inclusive; 0 for zone 1
+  max_speed: number | null; // m/s, exclusive; null for zone 6
+  slowest_pace: string | null; // per km; null for zone 1
+  fastest_pace: string | null; // per km; null for zone 6
+}
+
+// Kinds of run by effort, classified from pace, heart rate and distance
+export const WORKOUT_TYPES = ['recovery', 'easy', 'steady', 'tempo', 'interval', 'long', 'race'] as const;
+export type WorkoutType = typeof WORKOUT_TYPES[number];
+
+// Thresholds runs are classified with: the effective profile as of the last
+// full classification, kept so that runs aren't relabelled as fitness moves
+export interface WorkoutTypeThresholds {
+  threshold_pace: number; // seconds per km
+  threshold_hr: number;
+}
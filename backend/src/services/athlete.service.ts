@@ -0,0 +1,166 @@
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { getPredictionService } from './prediction.service';
+import { thresholdSpeed } from './prediction.utils';
+import { hrZones, paceZones, timeInZones, zoneIndex } from './zones.utils';
+import { addDays } from './training-load.utils';
+import { AthleteProfile, EffectiveAthleteProfile, HrZone, HrZoneDistribution, HrZoneModel, PaceZone, RunHrZones, WeeklyHrZones } from '../models/database.types';
+
+// Used when the profile leaves a value empty and the runs can't tell
+const DEFAULT_RESTING_HR = 60;
+const DEFAULT_MAX_HR = 190;
+// Lactate threshold is typically around 89% of max HR
+const THRESHOLD_HR_FRACTION = 0.89;
+// Recorded maximums above this are strap or optical glitches
+const MAX_PLAUSIBLE_HR = 220;
+// Seconds per km, used until there's a race or best effort to go on
+const DEFAULT_THRESHOLD_PACE = 300;
+
+export class AthleteService {
+  private config: AppConfig;
+  private db: DatabaseService;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  getProfile(): AthleteProfile {
+    return this.db.getAthleteProfile();
+  }
+
+  updateProfile(profile: Partial<Omit<AthleteProfile, 'updated_at'>>): AthleteProfile {
+    return this.db.updateAthleteProfile(profile);
+  }
+
+  // The profile with its gaps filled: max HR from the highest plausible
+  // heart rate recorded, threshold HR as a fraction of max, threshold pace
+  // from the current VDOT of race predictions
+  getEffectiveProfile(): EffectiveAthleteProfile {
+    const profile = this.getProfile();
+    const estimated: EffectiveAthleteProfile['estimated'] = [];
+
+    let maxHr = profile.max_hr;
+    if (!maxHr) {
+      const recorded = this.db.getRunSummaries(true).reduce((max, run) =>
+        run.max_heartrate && run.max_heartrate <= MAX_PLAUSIBLE_HR && run.max_heartrate > max ? run.max_heartrate : max, 0);
+      maxHr = recorded > DEFAULT_RESTING_HR ? Math.round(recorded) : DEFAULT_MAX_HR;
+      estimated.push('max_hr');
+    }
+    if (!profile.resting_hr) estimated.push('resting_hr');
+    if (!profile.threshold_hr) estimated.push('threshold_hr');
+
+    let thresholdPace = profile.threshold_pace;
+    if (!thresholdPace) {
+      const predictions = getPredictionService(this.config).getPredictions();
+      thresholdPace = predictions ? Math.round(1000 / thresholdSpeed(predictions.vdot)) : DEFAULT_THRESHOLD_PACE;
+      estimated.push('threshold_pace');
+    }
+
+    return {
+      max_hr: maxHr,
+      resting_hr: profile.resting_hr || DEFAULT_RESTING_HR,
+      threshold_hr: profile.threshold_hr || Math.round(maxHr * THRESHOLD_HR_FRACTION),
+      threshold_pace: thresholdPace,
+      hr_zone_model: profile.hr_zone_model,
+      estimated
+    };
+  }
+
+  getPaceZones(profile: EffectiveAthleteProfile = this.getEffectiveProfile()): PaceZone[] {
+    return paceZones(1000 / profile.threshold_pace);
+  }
+
+  getHrZones(model?: HrZoneModel): { model: HrZoneModel; profile: EffectiveAthleteProfile; zones: HrZone[] } {
+    const profile = this.getEffectiveProfile();
+    const zoneModel = model ?? profile.hr_zone_model;
+    return { model: zoneModel, profile, zones: hrZones(zoneModel, profile) };
+  }
+
+  // Time in each zone for one run, or null if it has no heart rate at all
+  getRunHrZones(runId: number, model?: HrZoneModel): RunHrZones | null {
+    const run = this.db.getRun(runId);
+    if (!run) return null;
+
+    const { model: zoneModel, zones } = this.getHrZones(model);
+    const result = this.zoneSeconds(runId, run.moving_time, run.average_heartrate, zones);
+    if (!result) return null;
+
+    const total = result.seconds.reduce((sum, value) => sum + value, 0);
+    return {
+      run_id: runId,
+      model: zoneModel,
+      source: result.source,
+      zones: zones.map((zone, i) => ({
+        ...zone,
+        seconds: Math.round(result.seconds[i]),
+        percent: total > 0 ? Math.round((result.seconds[i] / total) * 1000) / 10 : 0
+      }))
+    };
+  }
+
+  // Time in each zone per week (Monday to Sunday) for the last `weeks` weeks,
+  // this one included. Archived runs have no streams, so their time goes to
+  // the zone of their average heart rate.
+  getWeeklyHrZones(weeks: number = 12, includeArchived: boolean = true, model?: HrZoneModel): HrZoneDistribution {
+    const { model: zoneModel, profile, zones } = this.getHrZones(model);
+
+    const today = new Date().toISOString().split('T')[0];
+    const thisMonday = addDays(today, -((new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7));
+    const firstMonday = addDays(thisMonday, -7 * (weeks - 1));
+
+    const byWeek = new Map<string, WeeklyHrZones>();
+    for (let i = 0; i < weeks; i++) {
+      const weekStart = addDays(firstMonday, 7 * i);
+      byWeek.set(weekStart, { week_start: weekStart, seconds: zones.map(() => 0), total: 0, runs: 0 });
+    }
+
+    for (const run of this.db.getRunSummaries(includeArchived)) {
+      const date = run.start_date_local.slice(0, 10);
+      if (date < firstMonday || date > today) continue;
+      const result = this.zoneSeconds(run.id!, run.moving_time, run.average_heartrate, zones);
+      if (!result) continue;
+
+      const weekStart = addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+      const week = byWeek.get(weekStart)!;
+      result.seconds.forEach((value, i) => { week.seconds[i] += value; });
+      week.runs++;
+    }
+
+    const weekly = [...byWeek.values()].map(week => {
+      const seconds = week.seconds.map(Math.round);
+      return { ...week, seconds, total: seconds.reduce((sum, value) => sum + value, 0) };
+    });
+    return {
+      model: zoneModel,
+      profile,
+      zones,
+      weeks: weekly,
+      totals: zones.map((_, i) => weekly.reduce((sum, week) => sum + week.seconds[i], 0))
+    };
+  }
+
+  // From the heart rate stream when there is one, else the whole moving time
+  // in the zone of the average heart rate
+  private zoneSeconds(runId: number, movingTime: number, averageHeartrate: number | null, zones: HrZone[]): { source: RunHrZones['source']; seconds: number[] } | null {
+    const stream = this.db.getHeartRateStream(runId);
+    if (stream) {
+      const seconds = timeInZones(stream, zones);
+      if (seconds.some(value => value > 0)) return { source: 'streams', seconds };
+    }
+    if (!averageHeartrate || !movingTime) return null;
+
+    const seconds = zones.map(() => 0);
+    seconds[zoneIndex(zones, averageHeartrate)] = movingTime;
+    return { source: 'average', seconds };
+  }
+}
+
+let athleteServiceInstance: AthleteService | null = null;
+
+export function getAthleteService(config: AppConfig): AthleteService {
+  if (!athleteServiceInstance) {
+    athleteServiceInstance = new AthleteService(config);
+  }
+  return athleteServiceInstance;
+}
@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditSource } from '../models/database.types';
+
+// The source recorded with audit log entries. It follows async calls, so a
+// Strava poll started by a request is still logged as a poll when its
+// activities come back.
+const auditSource = new AsyncLocalStorage<AuditSource>();
+
+export function withAuditSource<T>(source: AuditSource, fn: () => T): T {
+  return auditSource.run(source, fn);
+}
+
+export function currentAuditSource(): AuditSource {
+  return auditSource.getStore() ?? 'system';
+}
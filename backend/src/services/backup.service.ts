@@ -0,0 +1,172 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, backupFilePath, getDatabase } from './database.service';
+import { LATEST_SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { BackupInfo, BackupKind, RestoreResult } from '../models/database.types';
+
+// Labels in backup file names (see backupFilePath)
+const BACKUP_KINDS: Exclude<BackupKind, 'other'>[] = ['scheduled', 'manual', 'pre-migration', 'pre-restore', 'uploaded'];
+
+// Plain file names only: no path separators or parent references
+const BACKUP_NAME_PATTERN = /^[\w.-]+\.db$/;
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+export class BackupService {
+  private db: DatabaseService;
+  private config: AppConfig;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  // Backups in backup_path, newest first
+  listBackups(): BackupInfo[] {
+    const dir = this.config.database.backup_path;
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(name => BACKUP_NAME_PATTERN.test(name))
+      .map(name => {
+        const stat = fs.statSync(path.join(dir, name));
+        return {
+          name,
+          kind: backupKind(name),
+          size: stat.size,
+          created_at: stat.mtime.toISOString()
+        };
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  // Write a new backup, then rotate: only the newest database.backup_keep
+  // scheduled and manual backups are kept. Safety copies taken before
+  // migrations and restores, uploads and files put there by hand are left alone.
+  createBackup(kind: 'scheduled' | 'manual'): BackupInfo {
+    const file = backupFilePath(this.config, kind);
+    this.db.backup(file);
+    console.log(`[Backup] Created ${path.basename(file)}`);
+
+    this.pruneBackups();
+    return this.getBackup(path.basename(file))!;
+  }
+
+  getBackup(name: string): BackupInfo | null {
+    return this.listBackups().find(b => b.name === name) ?? null;
+  }
+
+  // Absolute path of a backup, or null if there is no such backup
+  getBackupPath(name: string): string | null {
+    if (!BACKUP_NAME_PATTERN.test(name)) return null;
+    const file = path.join(this.config.database.backup_path, name);
+    return fs.existsSync(file) ? file : null;
+  }
+
+  restoreBackup(name: string): RestoreResult {
+    const file = this.getBackupPath(name);
+    if (!file) {
+      throw new Error(`Backup not found: ${name}`);
+    }
+
+    this.validateBackup(file);
+    return this.swapIn(file);
+  }
+
+  // Restore a database file uploaded by the user, e.g. a backup downloaded
+  // earlier. It is kept in backup_path like any other backup.
+  restoreUpload(buffer: Buffer): RestoreResult {
+    const file = backupFilePath(this.config, 'uploaded');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, buffer);
+
+    try {
+      this.validateBackup(file);
+    } catch (error) {
+      fs.rmSync(file, { force: true });
+      throw error;
+    }
+    return this.swapIn(file);
+  }
+
+  private swapIn(file: string): RestoreResult {
+    // Keep the current data in case the restore was a mistake
+    const preRestore = backupFilePath(this.config, 'pre-restore');
+    this.db.backup(preRestore);
+
+    this.db.restoreFrom(file);
+    const name = path.basename(file);
+    const result: RestoreResult = {
+      restored: name,
+      pre_restore_backup: path.basename(preRestore),
+      schema_version: this.db.getSchemaVersion(),
+      runs: this.db.countRuns()
+    };
+    console.log(`[Backup] Restored ${name} (${result.runs} runs); previous database saved as ${result.pre_restore_backup}`);
+    return result;
+  }
+
+  // Refuse anything that isn't an intact database this version can migrate
+  private validateBackup(file: string): void {
+    const header = Buffer.alloc(SQLITE_HEADER.length);
+    const fd = fs.openSync(file, 'r');
+    try {
+      fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    if (header.toString('latin1') !== SQLITE_HEADER) {
+      throw new Error('Not a valid backup: not an SQLite database');
+    }
+
+    let backup: Database.Database;
+    try {
+      backup = new Database(file, { readonly: true, fileMustExist: true });
+    } catch (error: any) {
+      throw new Error(`Not a valid backup: ${error.message}`);
+    }
+
+    try {
+      const integrity = backup.pragma('integrity_check', { simple: true });
+      if (integrity !== 'ok') {
+        throw new Error(`Not a valid backup: integrity check failed (${integrity})`);
+      }
+      const hasRuns = backup.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'runs'").get() !== undefined;
+      if (!hasRuns) {
+        throw new Error('Not a valid backup: no runs table');
+      }
+      const version = getSchemaVersion(backup);
+      if (version > LATEST_SCHEMA_VERSION) {
+        throw new Error(`Not a valid backup: schema version ${version} is newer than this app supports (${LATEST_SCHEMA_VERSION})`);
+      }
+    } catch (error: any) {
+      throw new Error(error.message.startsWith('Not a valid backup') ? error.message : `Not a valid backup: ${error.message}`);
+    } finally {
+      backup.close();
+    }
+  }
+
+  private pruneBackups(): void {
+    const keep = this.config.database.backup_keep;
+    const rotated = this.listBackups().filter(b => b.kind === 'scheduled' || b.kind === 'manual');
+    for (const backup of rotated.slice(keep)) {
+      fs.rmSync(path.join(this.config.database.backup_path, backup.name), { force: true });
+      console.log(`[Backup] Removed old backup ${backup.name}`);
+    }
+  }
+}
+
+function backupKind(name: string): BackupKind {
+  return BACKUP_KINDS.find(kind => name.includes(`-${kind}-`)) ?? 'other';
+}
+
+let backupServiceInstance: BackupService | null = null;
+
+export function getBackupService(config: AppConfig): BackupService {
+  if (!backupServiceInstance) {
+    backupServiceInstance = new BackupService(config);
+  }
+  return backupServiceInstance;
+}
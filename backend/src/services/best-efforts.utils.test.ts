@@ -0,0 +1,61 @@
+import { computeBestEfforts, formatEffortTime, summaryBestEfforts } from './best-efforts.utils';
+
+function streams(time: number[], distance: number[]) {
+  return { time, distance, point_count: time.length };
+}
+
+describe('computeBestEfforts', () => {
+  it('finds the fastest window, interpolating the time at its end', () => {
+    // 2.5 m/s, then 3.5 m/s from 200 s
+    const efforts = computeBestEfforts(streams([0, 100, 200, 300, 400], [0, 250, 500, 850, 1100]));
+
+    expect(efforts).toEqual([
+      // 500 m at 200 s to 900 m, a fifth of the way from 850 m (300 s) to 1100 m (400 s)
+      { distance_key: '400m', distance: 400, elapsed_time: 120, start_offset: 200, source: 'streams' },
+      // The only 1K window: from the start to 1000 m at 360 s
+      { distance_key: '1k', distance: 1000, elapsed_time: 360, start_offset: 0, source: 'streams' }
+    ]);
+  });
+
+  it('skips windows faster than a runner could go', () => {
+    // 400 m in the first second is a GPS jump
+    const efforts = computeBestEfforts(streams([0, 1, 100], [0, 400, 800]));
+
+    expect(efforts).toEqual([
+      { distance_key: '400m', distance: 400, elapsed_time: 99, start_offset: 1, source: 'streams' }
+    ]);
+  });
+
+  it('returns nothing for a run shorter than the distance, or without streams', () => {
+    expect(computeBestEfforts(streams([0, 60, 120], [0, 180, 350]))).toEqual([]);
+    expect(computeBestEfforts(streams([0], [0]))).toEqual([]);
+    expect(computeBestEfforts({ time: null, distance: null, point_count: 0 })).toEqual([]);
+  });
+});
+
+describe('summaryBestEfforts', () => {
+  it('counts the whole run at a standard distance within GPS error', () => {
+    expect(summaryBestEfforts({ distance: 5040, elapsed_time: 1500, moving_time: 1480 })).toEqual([
+      { distance_key: '5k', distance: 5000, elapsed_time: 1500, start_offset: null, source: 'summary' }
+    ]);
+  });
+
+  it('falls back to moving time without an elapsed time', () => {
+    expect(summaryBestEfforts({ distance: 10000, elapsed_time: 0, moving_time: 2700 })).toEqual([
+      expect.objectContaining({ distance_key: '10k', elapsed_time: 2700 })
+    ]);
+  });
+
+  it('ignores other distances and impossible speeds', () => {
+    expect(summaryBestEfforts({ distance: 7000, elapsed_time: 2100, moving_time: 2100 })).toEqual([]);
+    expect(summaryBestEfforts({ distance: 5200, elapsed_time: 1560, moving_time: 1560 })).toEqual([]);
+    expect(summaryBestEfforts({ distance: 400, elapsed_time: 30, moving_time: 30 })).toEqual([]);
+  });
+});
+
+describe('formatEffortTime', () => {
+  it('shows hours only when there are some', () => {
+    expect(formatEffortTime(1199.6)).toBe('20:00');
+    expect(formatEffortTime(5025)).toBe('1:23:45');
+  });
+});
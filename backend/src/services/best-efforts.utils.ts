@@ -0,0 +1,99 @@
+import { BEST_EFFORT_DISTANCES, BEST_EFFORT_KEYS, BestEffort, BestEffortRecord, Run, RunBestEffort, RunStreams } from '../models/database.types';
+import { formatSplitPace } from './splits.utils';
+
+// Faster than this over a whole effort is a GPS jump, not running (m/s; the
+// 400m world record is about 9.3)
+const MAX_EFFORT_SPEED = 10;
+// A run without streams counts as an effort at a distance it covers within this ratio
+const SUMMARY_DISTANCE_TOLERANCE = 1.03;
+
+type Effort = Omit<BestEffort, 'run_id'>;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Fastest stretch of each standard distance, by elapsed time. Every sample
+// is tried as a start; the end falls between samples, so its time is
+// linearly interpolated. Both pointers only move forward, so each distance
+// is a single pass over the streams.
+export function computeBestEfforts(streams: Pick<RunStreams, 'time' | 'distance' | 'point_count'>): Effort[] {
+  const time = streams.time;
+  const distance = streams.distance;
+  if (!time || !distance || streams.point_count < 2) {
+    return [];
+  }
+
+  const efforts: Effort[] = [];
+  const n = Math.min(time.length, distance.length);
+
+  for (const key of BEST_EFFORT_KEYS) {
+    const length = BEST_EFFORT_DISTANCES[key].distance;
+    if (distance[n - 1] - distance[0] < length) break;
+
+    let best: { elapsed: number; start: number } | null = null;
+    let end = 1;
+    for (let start = 0; start < n - 1; start++) {
+      const target = distance[start] + length;
+      if (end <= start) end = start + 1;
+      while (end < n && distance[end] < target) end++;
+      if (end === n) break;
+
+      const fraction = (target - distance[end - 1]) / (distance[end] - distance[end - 1]);
+      const endTime = time[end - 1] + (time[end] - time[end - 1]) * fraction;
+      const elapsed = endTime - time[start];
+      if (elapsed <= 0 || length / elapsed > MAX_EFFORT_SPEED) continue;
+      if (!best || elapsed < best.elapsed) {
+        best = { elapsed, start: time[start] - time[0] };
+      }
+    }
+
+    if (best) {
+      efforts.push({
+        distance_key: key,
+        distance: length,
+        elapsed_time: round(best.elapsed),
+        start_offset: round(best.start),
+        source: 'streams'
+      });
+    }
+  }
+
+  return efforts;
+}
+
+// For runs without streams: the whole run, if its distance is a standard one
+// (give or take GPS error). A 5.04 km parkrun is a 5K; a 7 km run is nothing.
+export function summaryBestEfforts(run: Pick<Run, 'distance' | 'elapsed_time' | 'moving_time'>): Effort[] {
+  const elapsed = run.elapsed_time || run.moving_time;
+  if (!run.distance || !elapsed) return [];
+
+  return BEST_EFFORT_KEYS
+    .filter(key => {
+      const length = BEST_EFFORT_DISTANCES[key].distance;
+      return run.distance >= length && run.distance <= length * SUMMARY_DISTANCE_TOLERANCE;
+    })
+    .filter(key => BEST_EFFORT_DISTANCES[key].distance / elapsed <= MAX_EFFORT_SPEED)
+    .map(key => ({
+      distance_key: key,
+      distance: BEST_EFFORT_DISTANCES[key].distance,
+      elapsed_time: elapsed,
+      start_offset: null,
+      source: 'summary' as const
+    }));
+}
+
+// 1:23:45 from an hour up, 23:45 below
+export function formatEffortTime(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+export function toBestEffortRecord(effort: RunBestEffort): BestEffortRecord {
+  return {
+    ...effort,
+    time: formatEffortTime(effort.elapsed_time),
+    pace: formatSplitPace((effort.elapsed_time / effort.distance) * 1000)
+  };
+}
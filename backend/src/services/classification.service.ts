@@ -0,0 +1,51 @@
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { getAthleteService } from './athlete.service';
+import { AthleteProfile, WorkoutTypeThresholds } from '../models/database.types';
+
+// Profile values the classification thresholds come from (max HR sets the
+// estimated threshold HR)
+const THRESHOLD_PROFILE_FIELDS = ['threshold_pace', 'threshold_hr', 'max_hr'] as const;
+
+export class ClassificationService {
+  private config: AppConfig;
+  private db: DatabaseService;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  // Runs are classified when they are written, with the thresholds of the
+  // last full classification (see DatabaseService.refreshWorkoutType). A full
+  // classification takes the current effective profile, so estimates (max HR
+  // recorded, VDOT) move only when one is run.
+  reclassifyAll(): { runs: number } & WorkoutTypeThresholds {
+    const profile = getAthleteService(this.config).getEffectiveProfile();
+    const thresholds = { threshold_pace: profile.threshold_pace, threshold_hr: profile.threshold_hr };
+    return { ...this.db.rebuildWorkoutTypes(thresholds), ...thresholds };
+  }
+
+  // On startup: classify every run if it never was, or the rules changed
+  ensureWorkoutTypes(): void {
+    if (this.db.getWorkoutTypeThresholds()) return;
+    const { runs } = this.reclassifyAll();
+    console.log(`[Classification] Classified ${runs} runs`);
+  }
+
+  // After a profile edit: classify every run again if a threshold changed
+  profileUpdated(before: AthleteProfile, after: AthleteProfile): boolean {
+    if (THRESHOLD_PROFILE_FIELDS.every(field => before[field] === after[field])) return false;
+    this.reclassifyAll();
+    return true;
+  }
+}
+
+let classificationServiceInstance: ClassificationService | null = null;
+
+export function getClassificationService(config: AppConfig): ClassificationService {
+  if (!classificationServiceInstance) {
+    classificationServiceInstance = new ClassificationService(config);
+  }
+  return classificationServiceInstance;
+}
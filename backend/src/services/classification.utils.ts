@@ -0,0 +1,90 @@
+import { PaceZone, Run, WorkoutType } from '../models/database.types';
+import { paceZoneIndex } from './zones.utils';
+
+// Pace zone indexes (see paceZones)
+const RECOVERY_ZONE = 0;
+const STEADY_ZONE = 2;
+const TEMPO_ZONE = 3;
+const INTERVAL_ZONE = 4;
+
+// Average heart rate, as a fraction of threshold HR, that makes a run at
+// least steady or tempo whatever the pace (hills, trails), and below which an
+// easy pace is a recovery run
+const STEADY_HR = 0.9;
+const TEMPO_HR = 0.95;
+const RECOVERY_HR = 0.8;
+
+// With a stream: a run with this share of its time at interval pace or
+// faster, more than at tempo pace, is intervals; this share at tempo pace or
+// faster is a tempo run with a warm-up and cool-down
+const INTERVAL_SHARE = 0.1;
+const TEMPO_SHARE = 0.4;
+
+// A long run is this much longer than the median run of the
+// LONG_RUN_WINDOW_DAYS before it, and at least LONG_RUN_MIN_DISTANCE
+const LONG_RUN_FACTOR = 1.5;
+const LONG_RUN_MIN_DISTANCE = 10000;
+export const LONG_RUN_WINDOW_DAYS = 42;
+const LONG_RUN_WINDOW_MS = LONG_RUN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export type ClassifiedRun = Pick<Run, 'type' | 'tags' | 'distance' | 'moving_time' | 'average_heartrate'>;
+
+export interface ClassificationContext {
+  zones: PaceZone[];
+  thresholdHr: number;
+  longRunDistance: number; // meters
+}
+
+// Runs entered as type Race or tagged 'race' (any case), as in getRaceRuns
+export function isRace(run: Pick<Run, 'type' | 'tags'>): boolean {
+  return run.type === 'Race' || (run.tags || []).some(tag => tag.toLowerCase() === 'race');
+}
+
+export function longRunDistance(recentDistances: number[]): number {
+  if (recentDistances.length === 0) return LONG_RUN_MIN_DISTANCE;
+  const sorted = [...recentDistances].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.max(LONG_RUN_MIN_DISTANCE, LONG_RUN_FACTOR * median);
+}
+
+// Long-run distance for runs starting at each of `starts` (ms), from the
+// history runs in the window before each. Both are sorted by start; the
+// window only moves forward, so the history is read once.
+export function longRunDistances(starts: number[], history: { start: number; distance: number }[]): number[] {
+  let from = 0;
+  let to = 0;
+  return starts.map(start => {
+    while (to < history.length && history[to].start < start) to++;
+    while (from < to && history[from].start < start - LONG_RUN_WINDOW_MS) from++;
+    return longRunDistance(history.slice(from, to).map(run => run.distance));
+  });
+}
+
+// The first rule that matches wins: race, interval, tempo, long, steady,
+// recovery, otherwise easy. Pace and heart rate each count, so a slow run on
+// hills at tempo effort is still tempo. paceSeconds is the time in each pace
+// zone from the run's streams, if it has them.
+export function classifyRun(run: ClassifiedRun, context: ClassificationContext, paceSeconds: number[] | null): WorkoutType {
+  if (isRace(run)) return 'race';
+  if (!run.distance || !run.moving_time) return 'easy';
+
+  const paceZone = paceZoneIndex(context.zones, run.distance / run.moving_time);
+  const hrFraction = run.average_heartrate ? run.average_heartrate / context.thresholdHr : null;
+
+  const streamTime = paceSeconds ? paceSeconds.reduce((sum, seconds) => sum + seconds, 0) : 0;
+  const share = (fromZone: number, toZone: number = context.zones.length - 1): number =>
+    streamTime > 0 ? paceSeconds!.slice(fromZone, toZone + 1).reduce((sum, seconds) => sum + seconds, 0) / streamTime : 0;
+
+  const intervalShare = share(INTERVAL_ZONE);
+  if (paceZone < TEMPO_ZONE && intervalShare >= INTERVAL_SHARE && intervalShare > share(TEMPO_ZONE, TEMPO_ZONE)) {
+    return 'interval';
+  }
+  if (paceZone >= TEMPO_ZONE || (hrFraction !== null && hrFraction >= TEMPO_HR) || share(TEMPO_ZONE) >= TEMPO_SHARE) {
+    return 'tempo';
+  }
+  if (run.distance >= context.longRunDistance) return 'long';
+  if (paceZone >= STEADY_ZONE || (hrFraction !== null && hrFraction >= STEADY_HR)) return 'steady';
+  if (paceZone === RECOVERY_ZONE && (hrFraction === null || hrFraction < RECOVERY_HR)) return 'recovery';
+  return 'easy';
+}
@@ -2,7 +2,102 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { AppConfig } from '../config/config.service';
-import { Run, ParkrunResult, SyncMetadata, RunStats, PaceProgress, LocationCluster, ConsistencyStats, CustomEvent } from '../models/database.types';
+import { getPendingMigrations, getSchemaVersion, runMigrations } from './migrations';
+import { currentAuditSource } from './audit.utils';
+import { computeBestEfforts, summaryBestEfforts } from './best-efforts.utils';
+import { LONG_RUN_WINDOW_DAYS, classifyRun, longRunDistance, longRunDistances } from './classification.utils';
+import { paceZones, timeInPaceZones } from './zones.utils';
+import { Run, ParkrunResult, SyncMetadata, RunStats, PaceProgress, LocationCluster, ConsistencyStats, CustomEvent, RunStreams, STREAM_TYPES, ParsedLap, RunLap, RunDuplicate, ArchivedRun, RetentionCandidate, AuditAction, AuditChanges, AuditEntity, AuditEntry, AuditFilter, BestEffortKey, RankedBestEffort, RunBestEffort, RunSummary, AthleteProfile, PaceZone, WorkoutType, WorkoutTypeStats, WorkoutTypeThresholds } from '../models/database.types';
+
+// Writable run columns, in table order
+const RUN_COLUMNS = [
+  'strava_id', 'name', 'distance', 'moving_time', 'elapsed_time', 'start_date', 'start_date_local',
+  'type', 'upload_id', 'average_speed', 'max_speed', 'average_heartrate', 'max_heartrate',
+  'total_elevation_gain', 'elev_high', 'elev_low', 'location_country', 'location_state',
+  'location_city', 'latitude_start', 'longitude_start', 'latitude_end', 'longitude_end', 'polyline',
+  'strava_missing_at', 'notes', 'tags'
+] as const;
+
+// Summary columns kept in run_archive (and the all_runs view)
+const ARCHIVE_COLUMNS = [
+  'id', 'strava_id', 'name', 'type', 'start_date', 'start_date_local', 'distance', 'moving_time',
+  'elapsed_time', 'average_speed', 'max_speed', 'average_heartrate', 'max_heartrate',
+  'total_elevation_gain', 'latitude_start', 'longitude_start', 'workout_type'
+] as const;
+
+// Bump when best effort detection changes; stored efforts are recomputed on startup
+const BEST_EFFORTS_VERSION = '1';
+
+// Run columns best efforts are computed from when a run has no streams
+const BEST_EFFORT_RUN_COLUMNS = ['distance', 'elapsed_time', 'moving_time'] as const;
+
+// Bump when the classification rules change; every run is classified again on startup
+const WORKOUT_TYPES_VERSION = '1';
+
+// Run columns a workout type is classified from; changing one reclassifies the run
+const WORKOUT_TYPE_RUN_COLUMNS = ['type', 'distance', 'moving_time', 'average_heartrate', 'tags', 'start_date'] as const;
+
+type ClassifiableRun = Pick<Run, 'id' | 'type' | 'tags' | 'start_date' | 'distance' | 'moving_time' | 'average_heartrate'>;
+
+const PARKRUN_COLUMNS = [
+  'parkrun_date', 'event_number', 'runner_name', 'position', 'total_runners', 'finish_time',
+  'age_category', 'age_grading', 'gender', 'gender_position', 'club', 'note'
+] as const;
+
+// Columns a repeated scrape can change (see upsertParkrunResult)
+const PARKRUN_UPSERT_COLUMNS = [
+  'position', 'total_runners', 'age_category', 'age_grading', 'gender', 'gender_position', 'club', 'note'
+] as const;
+
+const CUSTOM_EVENT_COLUMNS = ['date', 'title', 'description'] as const;
+
+// Longer text (polylines, mostly) is logged by its length only
+const AUDIT_MAX_TEXT_LENGTH = 200;
+
+// Duplicate pairs are hidden while either run is in the trash
+const LIVE_PAIR = `NOT EXISTS (
+  SELECT 1 FROM runs
+  WHERE runs.id IN (run_duplicates.run_id, run_duplicates.duplicate_run_id) AND runs.deleted_at IS NOT NULL
+)`;
+
+// Row from the runs table, with the tags and edited fields JSON decoded
+function toRun(row: unknown): Run | null {
+  if (!row) return null;
+  const run = row as Run & { tags: string | string[] | null; workout_type_manual?: number | boolean; edited_fields?: string | (keyof Run)[] | null };
+  return {
+    ...run,
+    tags: typeof run.tags === 'string' ? JSON.parse(run.tags) : [],
+    workout_type_manual: Boolean(run.workout_type_manual),
+    edited_fields: typeof run.edited_fields === 'string' ? JSON.parse(run.edited_fields) : []
+  };
+}
+
+// Copy one column between runs, keeping its type
+function copyColumn<K extends keyof Run>(target: Partial<Run>, source: Run, column: K): void {
+  target[column] = source[column];
+}
+
+// Fields that differ between two versions of a row, for the audit log. before
+// is null for an insert and after is null for a delete; missing values, null
+// and empty tag lists count as the same.
+function changedFields(before: object | null, after: object | null, fields: readonly string[]): AuditChanges {
+  const valueOf = (row: object | null, field: string): unknown => {
+    const value = row ? (row as Record<string, unknown>)[field] : null;
+    return value === undefined || (Array.isArray(value) && value.length === 0) ? null : value;
+  };
+  const logged = (value: unknown): unknown =>
+    typeof value === 'string' && value.length > AUDIT_MAX_TEXT_LENGTH ? `(${value.length} characters)` : value;
+
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const from = valueOf(before, field);
+    const to = valueOf(after, field);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: logged(from), to: logged(to) };
+    }
+  }
+  return changes;
+}
 
 export class DatabaseService {
   private db: Database.Database;
@@ -24,87 +119,29 @@ export class DatabaseService {
     this.db.pragma('journal_mode = WAL'); // Write-Ahead Logging for better concurrency
     this.db.pragma('foreign_keys = ON');
 
-    this.createTables();
-    this.createIndexes();
-  }
-
-  private createTables(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS runs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        strava_id INTEGER UNIQUE,
-        name TEXT NOT NULL,
-        distance REAL,
-        moving_time INTEGER,
-        elapsed_time INTEGER,
-        start_date TEXT,
-        start_date_local TEXT,
-        type TEXT,
-        upload_id INTEGER,
-        average_speed REAL,
-        max_speed REAL,
-        average_heartrate REAL,
-        max_heartrate REAL,
-        total_elevation_gain REAL,
-        elev_high REAL,
-        elev_low REAL,
-        location_country TEXT,
-        location_state TEXT,
-        location_city TEXT,
-        latitude_start REAL,
-        longitude_start REAL,
-        latitude_end REAL,
-        longitude_end REAL,
-        polyline TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS parkrun_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        parkrun_date TEXT,
-        event_number INTEGER,
-        runner_name TEXT NOT NULL,
-        position INTEGER,
-        total_runners INTEGER,
-        finish_time TEXT,
-        age_category TEXT,
-        age_grading REAL,
-        gender TEXT,
-        gender_position INTEGER,
-        club TEXT,
-        note TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(parkrun_date, runner_name, finish_time)
-      );
-
-       CREATE TABLE IF NOT EXISTS sync_metadata (
-         key TEXT PRIMARY KEY,
-         value TEXT,
-         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-       );
-
-       CREATE TABLE IF NOT EXISTS custom_events (
-         id INTEGER PRIMARY KEY AUTOINCREMENT,
-         date TEXT NOT NULL, -- ISO 8601 date (YYYY-MM-DD)
-         title TEXT NOT NULL,
-         description TEXT,
-         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-       );
-     `);
+    this.migrate();
+    this.ensureBestEfforts();
   }
 
-  private createIndexes(): void {
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_runs_start_date ON runs(start_date);
-      CREATE INDEX IF NOT EXISTS idx_runs_type ON runs(type);
-      CREATE INDEX IF NOT EXISTS idx_runs_strava_id ON runs(strava_id);
-       CREATE INDEX IF NOT EXISTS idx_parkrun_results_date ON parkrun_results(parkrun_date);
-       CREATE INDEX IF NOT EXISTS idx_parkrun_results_name ON parkrun_results(runner_name);
-       CREATE INDEX IF NOT EXISTS idx_sync_metadata_key ON sync_metadata(key);
-       CREATE INDEX IF NOT EXISTS idx_custom_events_date ON custom_events(date);
-     `);
+  // Bring the schema up to date, backing up an existing database first
+  private migrate(): void {
+    const pending = getPendingMigrations(this.db);
+    if (pending.length === 0) return;
+
+    const from = getSchemaVersion(this.db);
+    const hasData = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'runs'").get() !== undefined;
+    if (hasData) {
+      const backupFile = backupFilePath(this.config, `pre-migration-v${from}`);
+      this.backup(backupFile);
+      console.log(`[Database] Backed up database to ${backupFile} before migrating`);
+    }
+
+    const applied = runMigrations(this.db);
+    console.log(`[Database] Migrated schema from version ${from} to ${applied[applied.length - 1].version} (${applied.map(m => m.name).join(', ')})`);
+  }
+
+  getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
   }
 
   // Runs CRUD
@@ -114,9 +151,13 @@ export class DatabaseService {
         strava_id, name, distance, moving_time, elapsed_time, start_date, start_date_local,
         type, upload_id, average_speed, max_speed, average_heartrate, max_heartrate,
         total_elevation_gain, elev_high, elev_low, location_country, location_state,
-        location_city, latitude_start, longitude_start, latitude_end, longitude_end, polyline
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        location_city, latitude_start, longitude_start, latitude_end, longitude_end, polyline,
+        notes, tags, workout_type, workout_type_manual, edited_fields
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    // A workout type set by hand is kept (e.g. through an export and import);
+    // any other is classified again
+    const manualWorkoutType = run.workout_type_manual && run.workout_type ? run.workout_type : null;
 
     const result = stmt.run(
       run.strava_id,
@@ -142,53 +183,84 @@ export class DatabaseService {
       run.longitude_start,
       run.latitude_end,
       run.longitude_end,
-      run.polyline
+      run.polyline,
+      run.notes ?? null,
+      run.tags && run.tags.length > 0 ? JSON.stringify(run.tags) : null,
+      manualWorkoutType,
+      manualWorkoutType ? 1 : 0,
+      run.edited_fields && run.edited_fields.length > 0 ? JSON.stringify(run.edited_fields) : null
     );
 
-    return result.lastInsertRowid as number;
+    const id = result.lastInsertRowid as number;
+    this.audit('run', id, 'insert', run.name, changedFields(null, run, RUN_COLUMNS));
+    this.refreshBestEfforts(id);
+    this.refreshWorkoutType(id);
+    return id;
   }
 
   getRun(id: number): Run | null {
-    const stmt = this.db.prepare('SELECT * FROM runs WHERE id = ?');
-    return stmt.get(id) as Run | null;
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE id = ? AND deleted_at IS NULL');
+    return toRun(stmt.get(id));
   }
 
   getRunByStravaId(stravaId: number): Run | null {
-    const stmt = this.db.prepare('SELECT * FROM runs WHERE strava_id = ?');
-    return stmt.get(stravaId) as Run | null;
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE strava_id = ? AND deleted_at IS NULL');
+    return toRun(stmt.get(stravaId));
+  }
+
+  // Run starting within `toleranceSeconds` of the given time, e.g. the same
+  // activity uploaded twice or already synced from Strava
+  findRunByStartTime(startDate: string, toleranceSeconds: number = 60): Run | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM runs
+      WHERE deleted_at IS NULL AND ABS(julianday(start_date) - julianday(?)) * 86400 <= ?
+      ORDER BY ABS(julianday(start_date) - julianday(?))
+      LIMIT 1
+    `);
+    return toRun(stmt.get(startDate, toleranceSeconds, startDate));
   }
 
   getRuns(params?: {
     startDate?: string;
     endDate?: string;
+    type?: string;
+    workoutType?: WorkoutType;
     limit?: number;
     offset?: number;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
   }): Run[] {
-    const conditions: string[] = [];
-    const values: any[] = [];
-
-    if (params?.startDate) {
-      conditions.push('start_date >= ?');
-      values.push(params.startDate);
-    }
-    if (params?.endDate) {
-      conditions.push('start_date <= ?');
-      values.push(params.endDate);
-    }
-
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { whereClause, values } = this.runFilter(params?.startDate, params?.endDate, params?.type, params?.workoutType);
     const orderBy = params?.sortBy ? `ORDER BY ${params.sortBy} ${params.sortOrder || 'DESC'}` : 'ORDER BY start_date DESC';
     const limit = params?.limit ? `LIMIT ${params.limit}` : '';
     const offset = params?.offset ? `OFFSET ${params.offset}` : '';
 
     const stmt = this.db.prepare(`SELECT * FROM runs ${whereClause} ${orderBy} ${limit} ${offset}`);
-    return stmt.all(...values) as Run[];
+    return stmt.all(...values).map(row => toRun(row)!);
   }
 
-  countRuns(startDate?: string, endDate?: string): number {
-    const conditions: string[] = [];
+  countRuns(startDate?: string, endDate?: string, type?: string, workoutType?: WorkoutType): number {
+    const { whereClause, values } = this.runFilter(startDate, endDate, type, workoutType);
+    const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM runs ${whereClause}`);
+    const result = stmt.get(...values) as { count: number };
+    return result.count;
+  }
+
+  // Runs matching the other filters, per workout type ('unclassified' for
+  // runs not classified yet)
+  countRunsByWorkoutType(startDate?: string, endDate?: string, type?: string): Record<string, number> {
+    const { whereClause, values } = this.runFilter(startDate, endDate, type);
+    const rows = this.db.prepare(`
+      SELECT COALESCE(workout_type, 'unclassified') as workout_type, COUNT(*) as count
+      FROM runs ${whereClause}
+      GROUP BY workout_type
+    `).all(...values) as { workout_type: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.workout_type, row.count]));
+  }
+
+  // WHERE clause of the run list filters, trashed runs left out
+  private runFilter(startDate?: string, endDate?: string, type?: string, workoutType?: WorkoutType): { whereClause: string; values: any[] } {
+    const conditions: string[] = ['deleted_at IS NULL'];
     const values: any[] = [];
 
     if (startDate) {
@@ -199,27 +271,301 @@ export class DatabaseService {
       conditions.push('start_date <= ?');
       values.push(endDate);
     }
+    if (type) {
+      conditions.push('type = ?');
+      values.push(type);
+    }
+    if (workoutType) {
+      conditions.push('workout_type = ?');
+      values.push(workoutType);
+    }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-    const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM runs ${whereClause}`);
-    const result = stmt.get(...values) as { count: number };
-    return result.count;
+    return { whereClause: `WHERE ${conditions.join(' AND ')}`, values };
   }
 
-  deleteRun(id: number): boolean {
-    const stmt = this.db.prepare('DELETE FROM runs WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+  updateRun(id: number, run: Partial<Omit<Run, 'id' | 'created_at' | 'updated_at'>>): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const column of RUN_COLUMNS) {
+      const value = run[column];
+      if (value !== undefined) {
+        fields.push(`${column} = ?`);
+        values.push(column === 'tags' ? (Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : null) : value);
+      }
+    }
+
+    if (fields.length === 0) return false;
+
+    const before = this.getRun(id);
+    if (!before) return false;
+
+    values.push(id);
+    const stmt = this.db.prepare(`UPDATE runs SET ${fields.join(', ')}, updated_at = datetime('now') WHERE id = ? AND deleted_at IS NULL`);
+    stmt.run(...values);
+
+    // Syncs rewrite runs that haven't changed; only real changes are logged
+    const changes = changedFields(before, run, RUN_COLUMNS.filter(column => run[column] !== undefined));
+    if (Object.keys(changes).length > 0) {
+      this.audit('run', id, 'update', run.name ?? before.name, changes);
+    }
+    if (BEST_EFFORT_RUN_COLUMNS.some(column => column in changes)) {
+      this.refreshBestEfforts(id);
+    }
+    if (WORKOUT_TYPE_RUN_COLUMNS.some(column => column in changes)) {
+      this.refreshWorkoutType(id);
+    }
+    return true;
+  }
+
+  // Runs raced since a date: type Race, or tagged 'race' (any case)
+  getRaceRuns(startDate: string): Run[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM runs
+      WHERE deleted_at IS NULL AND start_date >= ?
+        AND (type = 'Race' OR EXISTS (SELECT 1 FROM json_each(runs.tags) WHERE lower(json_each.value) = 'race'))
+      ORDER BY start_date ASC
+    `);
+    return stmt.all(startDate).map(row => toRun(row)!);
+  }
+
+  // Strava runs in a start_date window, for reconciliation against the API
+  getStravaRunsBetween(startDate: string, endDate: string): Run[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM runs
+      WHERE strava_id IS NOT NULL AND deleted_at IS NULL AND start_date >= ? AND start_date <= ?
+      ORDER BY start_date DESC
+    `);
+    return stmt.all(startDate, endDate).map(row => toRun(row)!);
+  }
+
+  // Move a run to the trash. Its streams, laps and duplicate pairs are kept
+  // until it is purged.
+  trashRun(id: number): boolean {
+    const run = this.getRun(id);
+    if (!run) return false;
+
+    this.db.prepare("UPDATE runs SET deleted_at = datetime('now') WHERE id = ?").run(id);
+    this.audit('run', id, 'trash', run.name);
+    return true;
   }
 
-  deleteRunByStravaId(stravaId: number): boolean {
-    const stmt = this.db.prepare('DELETE FROM runs WHERE strava_id = ?');
-    const result = stmt.run(stravaId);
-    return result.changes > 0;
+  trashRunByStravaId(stravaId: number): boolean {
+    const run = this.getRunByStravaId(stravaId);
+    return run ? this.trashRun(run.id!) : false;
+  }
+
+  // Run streams
+  saveRunStreams(runId: number, source: RunStreams['source'], streams: Omit<RunStreams, 'run_id' | 'source' | 'created_at'>): void {
+    const json = (data: unknown[] | null) => (data ? JSON.stringify(data) : null);
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO run_streams (
+        run_id, source, point_count, time, latlng, distance, altitude,
+        heartrate, cadence, velocity_smooth, grade_smooth, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    `);
+    stmt.run(
+      runId,
+      source,
+      streams.point_count,
+      json(streams.time),
+      json(streams.latlng),
+      json(streams.distance),
+      json(streams.altitude),
+      json(streams.heartrate),
+      json(streams.cadence),
+      json(streams.velocity_smooth),
+      json(streams.grade_smooth)
+    );
+    this.refreshBestEfforts(runId);
+    this.refreshWorkoutType(runId);
+  }
+
+  getRunStreams(runId: number): RunStreams | null {
+    const row = this.db.prepare(`
+      SELECT run_streams.* FROM run_streams
+      JOIN runs ON runs.id = run_streams.run_id
+      WHERE run_streams.run_id = ? AND runs.deleted_at IS NULL
+    `).get(runId) as Record<string, any> | undefined;
+    if (!row) return null;
+
+    const streams: Record<string, any> = {
+      run_id: row.run_id,
+      source: row.source,
+      point_count: row.point_count,
+      created_at: row.created_at
+    };
+    for (const type of STREAM_TYPES) {
+      streams[type] = row[type] ? JSON.parse(row[type]) : null;
+    }
+    return streams as RunStreams;
+  }
+
+  // Strava runs whose streams haven't been fetched yet, newest first
+  getRunsWithoutStreams(limit: number): Run[] {
+    const stmt = this.db.prepare(`
+      SELECT runs.* FROM runs
+      LEFT JOIN run_streams ON run_streams.run_id = runs.id
+      WHERE runs.strava_id IS NOT NULL AND runs.deleted_at IS NULL AND run_streams.run_id IS NULL
+      ORDER BY runs.start_date DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit).map(row => toRun(row)!);
+  }
+
+  // Run laps
+  // Replaces all laps of a run
+  saveRunLaps(runId: number, laps: (ParsedLap & { name?: string | null })[]): void {
+    const remove = this.db.prepare('DELETE FROM run_laps WHERE run_id = ?');
+    const insert = this.db.prepare(`
+      INSERT INTO run_laps (
+        run_id, lap_index, name, start_date, elapsed_time, moving_time, distance, average_speed,
+        max_speed, average_heartrate, max_heartrate, average_cadence, total_elevation_gain, intensity, trigger
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      remove.run(runId);
+      for (const lap of laps) {
+        insert.run(
+          runId,
+          lap.lap_index,
+          lap.name ?? null,
+          lap.start_date,
+          lap.elapsed_time,
+          lap.moving_time,
+          lap.distance,
+          lap.average_speed,
+          lap.max_speed,
+          lap.average_heartrate,
+          lap.max_heartrate,
+          lap.average_cadence,
+          lap.total_elevation_gain,
+          lap.intensity,
+          lap.trigger
+        );
+      }
+    })();
+  }
+
+  getRunLaps(runId: number): RunLap[] {
+    const stmt = this.db.prepare(`
+      SELECT run_laps.* FROM run_laps
+      JOIN runs ON runs.id = run_laps.run_id
+      WHERE run_laps.run_id = ? AND runs.deleted_at IS NULL
+      ORDER BY lap_index
+    `);
+    return stmt.all(runId) as RunLap[];
+  }
+
+  // Run duplicates
+  // Other runs whose start..start+elapsed window overlaps the given one
+  getOverlappingRuns(run: Pick<Run, 'start_date' | 'elapsed_time' | 'moving_time'> & { id?: number }): Run[] {
+    const start = new Date(run.start_date);
+    const end = new Date(start.getTime() + (run.elapsed_time || run.moving_time || 0) * 1000);
+    const stmt = this.db.prepare(`
+      SELECT * FROM runs
+      WHERE id != ?
+        AND deleted_at IS NULL
+        AND julianday(start_date) <= julianday(?)
+        AND julianday(start_date) + COALESCE(elapsed_time, moving_time, 0) / 86400.0 >= julianday(?)
+      ORDER BY start_date
+    `);
+    return stmt.all(run.id ?? -1, end.toISOString(), start.toISOString()).map(row => toRun(row)!);
+  }
+
+  // Records a suspected pair. An existing pair keeps its status, so dismissed
+  // pairs stay dismissed when a later scan finds them again.
+  saveRunDuplicate(pair: Omit<RunDuplicate, 'id' | 'status' | 'created_at' | 'resolved_at'>): { id: number; status: RunDuplicate['status']; created: boolean } {
+    const runId = Math.min(pair.run_id, pair.duplicate_run_id);
+    const duplicateRunId = Math.max(pair.run_id, pair.duplicate_run_id);
+    const existing = this.db.prepare('SELECT id, status FROM run_duplicates WHERE run_id = ? AND duplicate_run_id = ?')
+      .get(runId, duplicateRunId) as { id: number; status: RunDuplicate['status'] } | undefined;
+
+    if (existing) {
+      this.db.prepare(`
+        UPDATE run_duplicates SET time_overlap = ?, distance_difference = ?, start_distance = ?, confidence = ?
+        WHERE id = ?
+      `).run(pair.time_overlap, pair.distance_difference, pair.start_distance, pair.confidence, existing.id);
+      return { ...existing, created: false };
+    }
+
+    const result = this.db.prepare(`
+      INSERT INTO run_duplicates (run_id, duplicate_run_id, time_overlap, distance_difference, start_distance, confidence)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(runId, duplicateRunId, pair.time_overlap, pair.distance_difference, pair.start_distance, pair.confidence);
+    return { id: result.lastInsertRowid as number, status: 'pending', created: true };
+  }
+
+  getRunDuplicates(status: RunDuplicate['status'] = 'pending'): RunDuplicate[] {
+    const stmt = this.db.prepare(`SELECT * FROM run_duplicates WHERE status = ? AND ${LIVE_PAIR} ORDER BY created_at DESC, id DESC`);
+    return stmt.all(status) as RunDuplicate[];
+  }
+
+  getRunDuplicate(id: number): RunDuplicate | null {
+    const stmt = this.db.prepare(`SELECT * FROM run_duplicates WHERE id = ? AND ${LIVE_PAIR}`);
+    return stmt.get(id) as RunDuplicate | null;
+  }
+
+  countRunDuplicates(status: RunDuplicate['status'] = 'pending'): number {
+    const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM run_duplicates WHERE status = ? AND ${LIVE_PAIR}`);
+    return (stmt.get(status) as { count: number }).count;
+  }
+
+  dismissRunDuplicate(id: number): boolean {
+    const stmt = this.db.prepare(`UPDATE run_duplicates SET status = 'dismissed', resolved_at = datetime('now') WHERE id = ?`);
+    return stmt.run(id).changes > 0;
+  }
+
+  // Folds `dropId` into `keepId`: empty columns of the kept run are filled from
+  // the other one, streams and laps move over when the kept run has none, and
+  // the other run is deleted (its duplicate pairs go with it).
+  mergeRuns(keepId: number, dropId: number): boolean {
+    const keep = this.getRun(keepId);
+    const drop = this.getRun(dropId);
+    if (!keep || !drop) return false;
+
+    const fill: Partial<Run> = {};
+    const tags = [...new Set([...(keep.tags || []), ...(drop.tags || [])])];
+    if (tags.length > (keep.tags || []).length) fill.tags = tags;
+    for (const column of RUN_COLUMNS) {
+      if (column === 'strava_missing_at' || column === 'tags') continue;
+      if ((keep[column] === null || keep[column] === undefined) && drop[column] !== null && drop[column] !== undefined) {
+        copyColumn(fill, drop, column);
+      }
+    }
+
+    this.db.transaction(() => {
+      // Free the unique strava_id before it is copied onto the kept run
+      if (fill.strava_id) {
+        this.db.prepare('UPDATE runs SET strava_id = NULL WHERE id = ?').run(dropId);
+      } else if (drop.strava_id) {
+        // Otherwise remember the activity, or the next sync would re-insert it
+        this.db.prepare('INSERT OR REPLACE INTO merged_strava_activities (strava_id, run_id) VALUES (?, ?)').run(drop.strava_id, keepId);
+      }
+      this.updateRun(keepId, fill);
+
+      const hasStreams = this.db.prepare('SELECT 1 FROM run_streams WHERE run_id = ?').get(keepId);
+      if (!hasStreams) {
+        this.db.prepare('UPDATE run_streams SET run_id = ? WHERE run_id = ?').run(keepId, dropId);
+        this.refreshBestEfforts(keepId);
+        this.refreshWorkoutType(keepId);
+      }
+      const hasLaps = this.db.prepare('SELECT 1 FROM run_laps WHERE run_id = ?').get(keepId);
+      if (!hasLaps) {
+        this.db.prepare('UPDATE run_laps SET run_id = ? WHERE run_id = ?').run(keepId, dropId);
+      }
+
+      this.removeRuns([drop]);
+    })();
+    return true;
   }
 
   // Parkrun CRUD
   upsertParkrunResult(result: Omit<ParkrunResult, 'id' | 'created_at'>): number {
+    const before = this.db.prepare('SELECT * FROM parkrun_results WHERE parkrun_date = ? AND runner_name = ? AND finish_time = ?')
+      .get(result.parkrun_date, result.runner_name, result.finish_time) as ParkrunResult | undefined;
+
     // Use INSERT OR REPLACE based on unique constraint
     const stmt = this.db.prepare(`
       INSERT INTO parkrun_results (
@@ -252,7 +598,18 @@ export class DatabaseService {
       result.note
     );
 
-    return resultDb.lastInsertRowid as number;
+    const label = `${result.parkrun_date} ${result.runner_name}`;
+    if (!before) {
+      const id = resultDb.lastInsertRowid as number;
+      this.audit('parkrun_result', id, 'insert', label, changedFields(null, result, PARKRUN_COLUMNS));
+      return id;
+    }
+
+    const changes = changedFields(before, result, PARKRUN_UPSERT_COLUMNS);
+    if (Object.keys(changes).length > 0) {
+      this.audit('parkrun_result', before.id!, 'update', label, changes);
+    }
+    return before.id!;
   }
 
   getParkrunResults(params?: {
@@ -317,7 +674,9 @@ export class DatabaseService {
       VALUES (?, ?, ?)
     `);
     const result = stmt.run(event.date, event.title, event.description || null);
-    return result.lastInsertRowid as number;
+    const id = result.lastInsertRowid as number;
+    this.audit('custom_event', id, 'insert', event.title, changedFields(null, event, CUSTOM_EVENT_COLUMNS));
+    return id;
   }
 
   getCustomEvents(params?: {
@@ -328,7 +687,7 @@ export class DatabaseService {
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
   }): CustomEvent[] {
-    const conditions: string[] = [];
+    const conditions: string[] = ['deleted_at IS NULL'];
     const values: any[] = [];
 
     if (params?.startDate) {
@@ -340,7 +699,7 @@ export class DatabaseService {
       values.push(params.endDate);
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
     const orderBy = params?.sortBy ? `ORDER BY ${params.sortBy} ${params.sortOrder || 'ASC'}` : 'ORDER BY date DESC, id ASC';
     const limit = params?.limit ? `LIMIT ${params.limit}` : '';
     const offset = params?.offset ? `OFFSET ${params.offset}` : '';
@@ -350,7 +709,7 @@ export class DatabaseService {
   }
 
   getCustomEvent(id: number): CustomEvent | null {
-    const stmt = this.db.prepare('SELECT * FROM custom_events WHERE id = ?');
+    const stmt = this.db.prepare('SELECT * FROM custom_events WHERE id = ? AND deleted_at IS NULL');
     return stmt.get(id) as CustomEvent | null;
   }
 
@@ -364,16 +723,175 @@ export class DatabaseService {
 
     if (fields.length === 0) return false;
 
+    const before = this.getCustomEvent(id);
+    if (!before) return false;
+
     values.push(id);
-    const stmt = this.db.prepare(`UPDATE custom_events SET ${fields.join(', ')}, updated_at = datetime('now') WHERE id = ?`);
-    const result = stmt.run(...values);
-    return result.changes > 0;
+    const stmt = this.db.prepare(`UPDATE custom_events SET ${fields.join(', ')}, updated_at = datetime('now') WHERE id = ? AND deleted_at IS NULL`);
+    stmt.run(...values);
+
+    const changes = changedFields(before, event, CUSTOM_EVENT_COLUMNS.filter(column => event[column] !== undefined));
+    if (Object.keys(changes).length > 0) {
+      this.audit('custom_event', id, 'update', event.title ?? before.title, changes);
+    }
+    return true;
   }
 
-  deleteCustomEvent(id: number): boolean {
-    const stmt = this.db.prepare('DELETE FROM custom_events WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+  trashCustomEvent(id: number): boolean {
+    const event = this.getCustomEvent(id);
+    if (!event) return false;
+
+    this.db.prepare("UPDATE custom_events SET deleted_at = datetime('now') WHERE id = ?").run(id);
+    this.audit('custom_event', id, 'trash', event.title);
+    return true;
+  }
+
+  // Trash
+  // Trashed runs and events, most recently trashed first
+  getTrashedRuns(): Run[] {
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC');
+    return stmt.all().map(row => toRun(row)!);
+  }
+
+  getTrashedRunByStravaId(stravaId: number): Run | null {
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE strava_id = ? AND deleted_at IS NOT NULL');
+    return toRun(stmt.get(stravaId));
+  }
+
+  getTrashedCustomEvents(): CustomEvent[] {
+    const stmt = this.db.prepare('SELECT * FROM custom_events WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC');
+    return stmt.all() as CustomEvent[];
+  }
+
+  restoreRun(id: number): boolean {
+    const stmt = this.db.prepare('UPDATE runs SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL');
+    if (stmt.run(id).changes === 0) return false;
+    this.audit('run', id, 'restore', this.getRun(id)!.name);
+    return true;
+  }
+
+  restoreCustomEvent(id: number): boolean {
+    const stmt = this.db.prepare('UPDATE custom_events SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL');
+    if (stmt.run(id).changes === 0) return false;
+    this.audit('custom_event', id, 'restore', this.getCustomEvent(id)!.title);
+    return true;
+  }
+
+  // Permanently delete a trashed run, with its streams, laps and duplicate pairs
+  purgeRun(id: number): boolean {
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE id = ? AND deleted_at IS NOT NULL');
+    const run = toRun(stmt.get(id));
+    return run ? this.removeRuns([run]) > 0 : false;
+  }
+
+  purgeCustomEvent(id: number): boolean {
+    const stmt = this.db.prepare('SELECT * FROM custom_events WHERE id = ? AND deleted_at IS NOT NULL');
+    const event = stmt.get(id) as CustomEvent | undefined;
+    return event ? this.removeCustomEvents([event]) > 0 : false;
+  }
+
+  // Permanently delete everything trashed more than olderThanDays ago, or
+  // everything in the trash when no age is given
+  purgeTrash(olderThanDays?: number): { runs: number; custom_events: number } {
+    const condition = olderThanDays !== undefined
+      ? `deleted_at IS NOT NULL AND deleted_at <= datetime('now', '-${olderThanDays} days')`
+      : 'deleted_at IS NOT NULL';
+
+    const runs = this.db.prepare(`SELECT * FROM runs WHERE ${condition}`).all().map(row => toRun(row)!);
+    const events = this.db.prepare(`SELECT * FROM custom_events WHERE ${condition}`).all() as CustomEvent[];
+    return this.db.transaction(() => ({
+      runs: this.removeRuns(runs),
+      custom_events: this.removeCustomEvents(events)
+    }))();
+  }
+
+  // Delete rows for good, logging each with its last values so the audit log
+  // still shows what was removed
+  private removeRuns(runs: Run[]): number {
+    const remove = this.db.prepare('DELETE FROM runs WHERE id = ?');
+    const removeEfforts = this.db.prepare('DELETE FROM best_efforts WHERE run_id = ?');
+    return this.db.transaction(() => {
+      for (const run of runs) {
+        remove.run(run.id);
+        removeEfforts.run(run.id);
+        this.audit('run', run.id!, 'delete', run.name, changedFields(run, null, RUN_COLUMNS));
+      }
+      return runs.length;
+    })();
+  }
+
+  private removeCustomEvents(events: CustomEvent[]): number {
+    const remove = this.db.prepare('DELETE FROM custom_events WHERE id = ?');
+    return this.db.transaction(() => {
+      for (const event of events) {
+        remove.run(event.id);
+        this.audit('custom_event', event.id, 'delete', event.title, changedFields(event, null, CUSTOM_EVENT_COLUMNS));
+      }
+      return events.length;
+    })();
+  }
+
+  // Audit log
+  private audit(entityType: AuditEntity, entityId: number, action: AuditAction, label: string | null, changes: AuditChanges | null = null): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO audit_log (entity_type, entity_id, action, source, label, changes)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(entityType, entityId, action, currentAuditSource(), label, changes ? JSON.stringify(changes) : null);
+  }
+
+  private auditConditions(filter: AuditFilter): { whereClause: string; values: any[] } {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.entityType) {
+      conditions.push('entity_type = ?');
+      values.push(filter.entityType);
+    }
+    if (filter.entityId !== undefined) {
+      conditions.push('entity_id = ?');
+      values.push(filter.entityId);
+    }
+    if (filter.action) {
+      conditions.push('action = ?');
+      values.push(filter.action);
+    }
+    if (filter.source) {
+      conditions.push('source = ?');
+      values.push(filter.source);
+    }
+    if (filter.startDate) {
+      conditions.push('created_at >= datetime(?)');
+      values.push(filter.startDate);
+    }
+    if (filter.endDate) {
+      // A bare date includes the whole day
+      conditions.push(filter.endDate.length === 10 ? "created_at < datetime(?, '+1 day')" : 'created_at <= datetime(?)');
+      values.push(filter.endDate);
+    }
+
+    return { whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+  }
+
+  // Newest first
+  getAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+    const { whereClause, values } = this.auditConditions(filter);
+    const limit = filter.limit ? `LIMIT ${filter.limit}` : '';
+    const offset = filter.offset ? `OFFSET ${filter.offset}` : '';
+
+    const stmt = this.db.prepare(`SELECT * FROM audit_log ${whereClause} ORDER BY created_at DESC, id DESC ${limit} ${offset}`);
+    return (stmt.all(...values) as any[]).map(row => ({ ...row, changes: row.changes ? JSON.parse(row.changes) : null }));
+  }
+
+  countAuditLog(filter: AuditFilter = {}): number {
+    const { whereClause, values } = this.auditConditions(filter);
+    const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM audit_log ${whereClause}`);
+    return (stmt.get(...values) as { count: number }).count;
+  }
+
+  pruneAuditLog(olderThanDays: number): number {
+    const stmt = this.db.prepare("DELETE FROM audit_log WHERE created_at <= datetime('now', ?)");
+    return stmt.run(`-${olderThanDays} days`).changes;
   }
 
   // Sync Metadata
@@ -393,9 +911,263 @@ export class DatabaseService {
     stmt.run(key, value);
   }
 
+  // Best efforts
+  // Recompute a run's best efforts from its streams, or from its summary when
+  // it has no usable streams. A run whose streams were stripped keeps the
+  // efforts found in them. Returns the number of efforts stored.
+  private refreshBestEfforts(runId: number): number {
+    const run = this.db.prepare('SELECT distance, elapsed_time, moving_time FROM runs WHERE id = ?')
+      .get(runId) as Pick<Run, 'distance' | 'elapsed_time' | 'moving_time'> | undefined;
+    if (!run) return 0;
+
+    const row = this.db.prepare('SELECT point_count, time, distance FROM run_streams WHERE run_id = ?')
+      .get(runId) as { point_count: number; time: string | null; distance: string | null } | undefined;
+    if (!row && this.db.prepare("SELECT 1 FROM best_efforts WHERE run_id = ? AND source = 'streams'").get(runId)) {
+      const kept = this.db.prepare('SELECT COUNT(*) as count FROM best_efforts WHERE run_id = ?').get(runId) as { count: number };
+      return kept.count;
+    }
+
+    const efforts = row && row.point_count >= 2 && row.time && row.distance
+      ? computeBestEfforts({ point_count: row.point_count, time: JSON.parse(row.time), distance: JSON.parse(row.distance) })
+      : summaryBestEfforts(run);
+
+    const insert = this.db.prepare(`
+      INSERT INTO best_efforts (run_id, distance_key, distance, elapsed_time, start_offset, source)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM best_efforts WHERE run_id = ?').run(runId);
+      for (const effort of efforts) {
+        insert.run(runId, effort.distance_key, effort.distance, effort.elapsed_time, effort.start_offset, effort.source);
+      }
+    })();
+    return efforts.length;
+  }
+
+  // Recompute the best efforts of every run, trashed ones included so they
+  // are right if restored. Archived runs keep what they had.
+  rebuildBestEfforts(): { runs: number; efforts: number } {
+    const ids = (this.db.prepare('SELECT id FROM runs').all() as { id: number }[]).map(row => row.id);
+    const efforts = this.db.transaction(() => ids.reduce((total, id) => total + this.refreshBestEfforts(id), 0))();
+    this.setSyncMetadata('best_efforts_version', BEST_EFFORTS_VERSION);
+    return { runs: ids.length, efforts };
+  }
+
+  // Fill best_efforts for runs stored before it existed, or recompute them
+  // after detection changes
+  private ensureBestEfforts(): void {
+    if (this.getSyncMetadata('best_efforts_version') === BEST_EFFORTS_VERSION) return;
+    const { runs, efforts } = this.rebuildBestEfforts();
+    console.log(`[Database] Computed ${efforts} best efforts for ${runs} runs`);
+  }
+
+  // Best efforts of runs that aren't trashed, oldest run first. With
+  // includeArchived, archived runs' efforts count too.
+  getBestEfforts(includeArchived: boolean = false, distanceKey?: BestEffortKey): RunBestEffort[] {
+    const stmt = this.db.prepare(`
+      SELECT be.run_id, be.distance_key, be.distance, be.elapsed_time, be.start_offset, be.source,
+        r.name as run_name, r.start_date, r.start_date_local
+      FROM best_efforts be
+      JOIN ${this.runsSource(includeArchived)} r ON r.id = be.run_id
+      ${distanceKey ? 'WHERE be.distance_key = ?' : ''}
+      ORDER BY r.start_date ASC, be.distance ASC
+    `);
+    return (distanceKey ? stmt.all(distanceKey) : stmt.all()) as RunBestEffort[];
+  }
+
+  // A run's best efforts, each ranked against every other run's effort at
+  // the same distance (1 is the PR)
+  getRunBestEfforts(runId: number): RankedBestEffort[] {
+    const stmt = this.db.prepare(`
+      SELECT be.run_id, be.distance_key, be.distance, be.elapsed_time, be.start_offset, be.source,
+        (
+          SELECT COUNT(*) FROM best_efforts other
+          JOIN all_runs r ON r.id = other.run_id
+          WHERE other.distance_key = be.distance_key AND other.elapsed_time < be.elapsed_time
+        ) + 1 as rank
+      FROM best_efforts be
+      WHERE be.run_id = ?
+      ORDER BY be.distance ASC
+    `);
+    return stmt.all(runId) as RankedBestEffort[];
+  }
+
+  // Athlete profile
+  getAthleteProfile(): AthleteProfile {
+    const row = this.db.prepare('SELECT max_hr, resting_hr, threshold_hr, threshold_pace, hr_zone_model, updated_at FROM athlete_profile WHERE id = 1').get();
+    return (row as AthleteProfile | undefined) ?? { max_hr: null, resting_hr: null, threshold_hr: null, threshold_pace: null, hr_zone_model: 'percent_max' };
+  }
+
+  updateAthleteProfile(profile: Partial<Omit<AthleteProfile, 'updated_at'>>): AthleteProfile {
+    const columns = (['max_hr', 'resting_hr', 'threshold_hr', 'threshold_pace', 'hr_zone_model'] as const).filter(column => profile[column] !== undefined);
+    if (columns.length > 0) {
+      this.db.prepare(`
+        INSERT INTO athlete_profile (id, ${columns.join(', ')}) VALUES (1, ${columns.map(() => '?').join(', ')})
+        ON CONFLICT(id) DO UPDATE SET ${columns.map(column => `${column} = excluded.${column}`).join(', ')}, updated_at = datetime('now')
+      `).run(...columns.map(column => profile[column]));
+    }
+    return this.getAthleteProfile();
+  }
+
+  // Just the time and heart rate streams of a run, without parsing the rest
+  getHeartRateStream(runId: number): { time: number[]; heartrate: number[] } | null {
+    const row = this.db.prepare(`
+      SELECT run_streams.time, run_streams.heartrate FROM run_streams
+      JOIN runs ON runs.id = run_streams.run_id
+      WHERE run_streams.run_id = ? AND runs.deleted_at IS NULL
+    `).get(runId) as { time: string | null; heartrate: string | null } | undefined;
+    if (!row || !row.time || !row.heartrate) return null;
+    return { time: JSON.parse(row.time), heartrate: JSON.parse(row.heartrate) };
+  }
+
+  // Workout types
+  // Thresholds of the last full classification, or null before the first one
+  // or after the rules changed (see rebuildWorkoutTypes)
+  getWorkoutTypeThresholds(): WorkoutTypeThresholds | null {
+    const stored = this.getSyncMetadata('workout_type_thresholds');
+    if (!stored) return null;
+    const { version, ...thresholds } = JSON.parse(stored);
+    return version === WORKOUT_TYPES_VERSION ? thresholds : null;
+  }
+
+  // Classify a run when it is written, with the stored thresholds. Its long
+  // run window is the runs (archived too) that started in the weeks before
+  // it. Runs set by hand are left alone; derived, so not audited.
+  private refreshWorkoutType(runId: number): void {
+    const thresholds = this.getWorkoutTypeThresholds();
+    if (!thresholds) return;
+
+    const row = this.db.prepare(`
+      SELECT id, type, tags, start_date, distance, moving_time, average_heartrate, workout_type_manual
+      FROM runs WHERE id = ?
+    `).get(runId) as { workout_type_manual: number } | undefined;
+    if (!row || row.workout_type_manual) return;
+    const run = toRun(row)!;
+
+    // Widened by a day so the string range covers any time zone offset
+    const start = new Date(run.start_date).getTime();
+    const windowStart = start - LONG_RUN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const recent = (this.db.prepare(`
+      SELECT start_date, distance FROM all_runs
+      WHERE start_date >= ? AND start_date <= ? AND distance > 0
+    `).all(
+      new Date(windowStart - 86400000).toISOString(),
+      new Date(start + 86400000).toISOString()
+    ) as { start_date: string; distance: number }[])
+      .filter(other => {
+        const otherStart = new Date(other.start_date).getTime();
+        return otherStart < start && otherStart >= windowStart;
+      })
+      .map(other => other.distance);
+
+    const zones = paceZones(1000 / thresholds.threshold_pace);
+    this.db.prepare('UPDATE runs SET workout_type = ? WHERE id = ?')
+      .run(this.classify(run, thresholds, zones, longRunDistance(recent)), runId);
+  }
+
+  // Classify every run not set by hand with new thresholds, and store them
+  // for runs written later. Trashed runs are included so they are right if
+  // restored; archived runs keep what they had.
+  rebuildWorkoutTypes(thresholds: WorkoutTypeThresholds): { runs: number } {
+    const startOf = (run: { start_date: string }) => new Date(run.start_date).getTime();
+    const runs = (this.db.prepare(`
+      SELECT id, type, tags, start_date, distance, moving_time, average_heartrate
+      FROM runs WHERE workout_type_manual = 0
+    `).all().map(row => toRun(row)!) as ClassifiableRun[])
+      .sort((a, b) => startOf(a) - startOf(b));
+    const history = (this.db.prepare('SELECT start_date, distance FROM all_runs WHERE distance > 0')
+      .all() as { start_date: string; distance: number }[])
+      .map(run => ({ start: startOf(run), distance: run.distance }))
+      .sort((a, b) => a.start - b.start);
+
+    const longRuns = longRunDistances(runs.map(startOf), history);
+    const zones = paceZones(1000 / thresholds.threshold_pace);
+    const update = this.db.prepare('UPDATE runs SET workout_type = ? WHERE id = ?');
+    this.db.transaction(() => {
+      runs.forEach((run, i) => update.run(this.classify(run, thresholds, zones, longRuns[i]), run.id));
+      this.setSyncMetadata('workout_type_thresholds', JSON.stringify({ version: WORKOUT_TYPES_VERSION, ...thresholds }));
+    })();
+    return { runs: runs.length };
+  }
+
+  // Time in each pace zone comes from the run's streams, if it has them
+  private classify(run: ClassifiableRun, thresholds: WorkoutTypeThresholds, zones: PaceZone[], longRun: number): WorkoutType {
+    const row = this.db.prepare('SELECT time, distance FROM run_streams WHERE run_id = ?')
+      .get(run.id) as { time: string | null; distance: string | null } | undefined;
+    const paceSeconds = row && row.time && row.distance
+      ? timeInPaceZones({ time: JSON.parse(row.time), distance: JSON.parse(row.distance) }, zones)
+      : null;
+    return classifyRun(run, { zones, thresholdHr: thresholds.threshold_hr, longRunDistance: longRun }, paceSeconds);
+  }
+
+  // Record columns edited by hand, so Strava syncs keep the edit
+  markRunFieldsEdited(id: number, fields: (keyof Run)[]): boolean {
+    const before = this.getRun(id);
+    if (!before) return false;
+    const edited = [...new Set([...(before.edited_fields || []), ...fields])];
+    if (edited.length === (before.edited_fields || []).length) return true;
+
+    this.db.prepare('UPDATE runs SET edited_fields = ? WHERE id = ?').run(JSON.stringify(edited), id);
+    return true;
+  }
+
+  // Set a run's workout type by hand, or with null hand it back to the classifier
+  setWorkoutTypeOverride(id: number, workoutType: WorkoutType | null): boolean {
+    const before = this.getRun(id);
+    if (!before) return false;
+    if (!workoutType && !before.workout_type_manual) return true;
+
+    this.db.prepare(`UPDATE runs SET workout_type = ?, workout_type_manual = ?, updated_at = datetime('now') WHERE id = ?`)
+      .run(workoutType, workoutType ? 1 : 0, id);
+    if (!workoutType) {
+      this.refreshWorkoutType(id);
+    }
+    const after = this.getRun(id)!;
+    const changes = changedFields(before, { workout_type: after.workout_type ?? null }, ['workout_type']);
+    if (Object.keys(changes).length > 0) {
+      this.audit('run', id, 'update', before.name, changes);
+    }
+    return true;
+  }
+
   // Statistics
-  getRunStats(days?: number): RunStats {
-    const dateCondition = days ? `WHERE start_date >= datetime('now', '-${days} days')` : '';
+  // Runs in the stats queries, without trashed ones; with includeArchived,
+  // archived runs count too
+  private runsSource(includeArchived: boolean): string {
+    return includeArchived ? 'all_runs' : '(SELECT * FROM runs WHERE deleted_at IS NULL)';
+  }
+
+  // Summary columns of every run, oldest first, for models that need the
+  // whole history (training load)
+  getRunSummaries(includeArchived: boolean = false): RunSummary[] {
+    const stmt = this.db.prepare(`
+      SELECT id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time, average_heartrate, max_heartrate
+      FROM ${this.runsSource(includeArchived)}
+      ORDER BY start_date ASC
+    `);
+    return stmt.all() as RunSummary[];
+  }
+
+  // The run with the most distance or climbing, for personal records
+  getTopRun(column: 'distance' | 'total_elevation_gain', includeArchived: boolean = false): Pick<Run, 'id' | 'name' | 'start_date_local' | 'distance' | 'total_elevation_gain'> | null {
+    const stmt = this.db.prepare(`
+      SELECT id, name, start_date_local, distance, total_elevation_gain
+      FROM ${this.runsSource(includeArchived)}
+      WHERE ${column} > 0
+      ORDER BY ${column} DESC, start_date ASC
+      LIMIT 1
+    `);
+    return (stmt.get() as Pick<Run, 'id' | 'name' | 'start_date_local' | 'distance' | 'total_elevation_gain'> | undefined) ?? null;
+  }
+
+  getRunStats(days?: number, includeArchived: boolean = false, workoutType?: WorkoutType): RunStats {
+    const source = this.runsSource(includeArchived);
+    const conditions = [
+      ...(days ? [`start_date >= datetime('now', '-${days} days')`] : []),
+      ...(workoutType ? ['workout_type = ?'] : [])
+    ];
+    const dateCondition = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const values = workoutType ? [workoutType] : [];
      const stmt = this.db.prepare(`
        SELECT
          COUNT(*) as total_runs,
@@ -406,10 +1178,10 @@ export class DatabaseService {
          AVG(average_speed) * 3.6 as avg_speed_kmh,
          MAX(distance) as longest_run,
          strftime('%w', start_date_local) as weekday
-       FROM runs
+       FROM ${source}
        ${dateCondition}
      `);
-    const result = (stmt.get() as any) || {};
+    const result = (stmt.get(...values) as any) || {};
 
     // Determine most frequent day
     const weekdayMap: { [key: string]: number } = { '0': 0, '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6 };
@@ -418,13 +1190,13 @@ export class DatabaseService {
     // Get most frequent day separately
     const dayStmt = this.db.prepare(`
       SELECT strftime('%w', start_date_local) as weekday, COUNT(*) as count
-      FROM runs
+      FROM ${source}
       ${dateCondition}
       GROUP BY weekday
       ORDER BY count DESC
       LIMIT 1
     `);
-    const dayResult = dayStmt.get() as { weekday: string } | undefined;
+    const dayResult = dayStmt.get(...values) as { weekday: string } | undefined;
     const mostFrequentDay = dayResult ? weekdayNames[parseInt(dayResult.weekday)] : 'N/A';
 
     return {
@@ -439,7 +1211,26 @@ export class DatabaseService {
     };
   }
 
-  getPaceProgress(period: 'weekly' | 'monthly' = 'weekly'): PaceProgress[] {
+  // Totals per workout type, most run first; runs not classified yet are
+  // grouped under null
+  getWorkoutTypeStats(days?: number, includeArchived: boolean = false): WorkoutTypeStats[] {
+    const dateCondition = days ? `WHERE start_date >= datetime('now', '-${days} days')` : '';
+    const stmt = this.db.prepare(`
+      SELECT
+        workout_type,
+        COUNT(*) as runs,
+        COALESCE(SUM(distance), 0) as distance,
+        COALESCE(SUM(moving_time), 0) as moving_time,
+        CASE WHEN SUM(distance) > 0 THEN SUM(moving_time) * 1000.0 / SUM(distance) ELSE 0 END as average_pace_seconds
+      FROM ${this.runsSource(includeArchived)}
+      ${dateCondition}
+      GROUP BY workout_type
+      ORDER BY runs DESC
+    `);
+    return (stmt.all() as WorkoutTypeStats[]).map(row => ({ ...row, average_pace_seconds: Math.round(row.average_pace_seconds) }));
+  }
+
+  getPaceProgress(period: 'weekly' | 'monthly' = 'weekly', includeArchived: boolean = false): PaceProgress[] {
     const dateFormat = period === 'weekly' ? "'%Y-%W'" : "'%Y-%m'";
     const labelFormat = period === 'weekly' ? 'Week of %Y-%m-%d' : '%Y-%m';
 
@@ -449,7 +1240,7 @@ export class DatabaseService {
         MIN(start_date) as period_start,
         COUNT(*) as run_count,
         AVG(CASE WHEN distance > 0 THEN (moving_time * 1000) / distance END) as avg_pace_seconds
-      FROM runs
+      FROM ${this.runsSource(includeArchived)}
       GROUP BY period
       ORDER BY period_start ASC
     `);
@@ -468,7 +1259,7 @@ export class DatabaseService {
     }));
   }
 
-  getLocationClusters(radiusMeters: number = 1000): LocationCluster[] {
+  getLocationClusters(radiusMeters: number = 1000, includeArchived: boolean = false): LocationCluster[] {
     // Simple clustering: group by rounded lat/lon
     // More sophisticated clustering would use DBSCAN or similar
     const stmt = this.db.prepare(`
@@ -478,7 +1269,7 @@ export class DatabaseService {
         COUNT(*) as run_count,
         SUM(distance) as total_distance,
         AVG(distance) as avg_distance
-      FROM runs
+      FROM ${this.runsSource(includeArchived)}
       WHERE latitude_start IS NOT NULL AND longitude_start IS NOT NULL
       GROUP BY lat_round, lon_round
       ORDER BY run_count DESC
@@ -495,12 +1286,13 @@ export class DatabaseService {
     }));
   }
 
-  getConsistencyStats(days: number = 30): ConsistencyStats {
+  getConsistencyStats(days: number = 30, includeArchived: boolean = false): ConsistencyStats {
+    const source = this.runsSource(includeArchived);
     const now = new Date();
     const periodCondition = `start_date >= date('now', '-${days} days')`;
 
     // Count runs in period
-    const countStmt = this.db.prepare(`SELECT COUNT(*) as count FROM runs WHERE ${periodCondition}`);
+    const countStmt = this.db.prepare(`SELECT COUNT(*) as count FROM ${source} WHERE ${periodCondition}`);
     const countResult = countStmt.get() as { count: number };
     let runs_in_period = countResult.count;
 
@@ -509,7 +1301,7 @@ export class DatabaseService {
 
     // Add run dates in period (distinct days)
     const runDatesStmt = this.db.prepare(`
-      SELECT DATE(start_date) as date FROM runs
+      SELECT DATE(start_date) as date FROM ${source}
       WHERE ${periodCondition}
       GROUP BY date
     `);
@@ -554,7 +1346,7 @@ export class DatabaseService {
 
     // Longest streak: all-time combined dates (runs + parkrun)
     const allTimeDatesSet = new Set<number>();
-    const allRunsStmt = this.db.prepare('SELECT start_date FROM runs');
+    const allRunsStmt = this.db.prepare(`SELECT start_date FROM ${source}`);
     const allRuns = allRunsStmt.all() as { start_date: string }[];
     for (const r of allRuns) {
       allTimeDatesSet.add(new Date(r.start_date).setHours(0, 0, 0, 0));
@@ -598,35 +1390,168 @@ export class DatabaseService {
     return {
       period_days: days,
       runs_in_period,
-      current_streak,
-      longest_streak,
+      current_streak: currentStreak,
+      longest_streak: longestStreak,
       avg_runs_per_week: roundedAvg,
       days_since_last_run: daysSinceLast
     };
   }
 
-  // Cleanup old data based on retention policy
-  cleanupOldRuns(keepYears: number = 1): number {
-    const cutoffDate = new Date();
-    cutoffDate.setFullYear(cutoffDate.getFullYear() - keepYears);
-    const cutoffStr = cutoffDate.toISOString();
+  // Retention
+  // Runs starting before the cutoff, oldest first. With heavyOnly, just those
+  // that still have a polyline or streams (the runs strip mode would change).
+  getRetentionCandidates(cutoff: string, heavyOnly: boolean = false): RetentionCandidate[] {
+    const streamBytes = STREAM_TYPES.map(type => `COALESCE(LENGTH(s.${type}), 0)`).join(' + ');
+    const stmt = this.db.prepare(`
+      SELECT
+        r.id, r.name, r.type, r.start_date, r.distance,
+        r.polyline IS NOT NULL as has_route,
+        s.run_id IS NOT NULL as has_streams,
+        COALESCE(LENGTH(r.polyline), 0) + ${streamBytes} as heavy_bytes
+      FROM runs r
+      LEFT JOIN run_streams s ON s.run_id = r.id
+      WHERE r.start_date < ? AND r.deleted_at IS NULL
+        ${heavyOnly ? 'AND (r.polyline IS NOT NULL OR s.run_id IS NOT NULL)' : ''}
+      ORDER BY r.start_date ASC
+    `);
+    return (stmt.all(cutoff) as any[]).map(row => ({
+      ...row,
+      has_route: row.has_route === 1,
+      has_streams: row.has_streams === 1
+    }));
+  }
 
-    const stmt = this.db.prepare('DELETE FROM runs WHERE start_date < ?');
-    const result = stmt.run(cutoffStr);
-    return result.changes;
+  // Move runs into run_archive, each with its compressed data, in one
+  // transaction. Their streams, laps and duplicate pairs go with the run row.
+  // An activity archived before and imported again since replaces the old copy.
+  archiveRuns(entries: { run: Run; data: Buffer }[]): number {
+    const insert = this.db.prepare(`
+      INSERT INTO run_archive (${ARCHIVE_COLUMNS.join(', ')}, data)
+      VALUES (${ARCHIVE_COLUMNS.map(() => '?').join(', ')}, ?)
+      ON CONFLICT(strava_id) DO UPDATE SET
+        ${[...ARCHIVE_COLUMNS, 'data'].map(column => `${column} = excluded.${column}`).join(', ')},
+        archived_at = datetime('now')
+    `);
+    const remove = this.db.prepare('DELETE FROM runs WHERE id = ?');
+    // The replaced copy's efforts would otherwise be left without a run
+    const removeReplacedEfforts = this.db.prepare(
+      'DELETE FROM best_efforts WHERE run_id IN (SELECT id FROM run_archive WHERE strava_id = ? AND id != ?)'
+    );
+
+    return this.db.transaction(() => {
+      for (const { run, data } of entries) {
+        if (run.strava_id) removeReplacedEfforts.run(run.strava_id, run.id);
+        insert.run(...ARCHIVE_COLUMNS.map(column => run[column] ?? null), data);
+        remove.run(run.id);
+        this.audit('run', run.id!, 'archive', run.name);
+      }
+      return entries.length;
+    })();
+  }
+
+  // Drop the heavy route data of runs, keeping the summary and laps
+  stripRunData(runIds: number[]): number {
+    const clearPolyline = this.db.prepare("UPDATE runs SET polyline = NULL, updated_at = datetime('now') WHERE id = ?");
+    const removeStreams = this.db.prepare('DELETE FROM run_streams WHERE run_id = ?');
+
+    return this.db.transaction(() => {
+      for (const id of runIds) {
+        const run = this.getRun(id);
+        if (!run) continue;
+        clearPolyline.run(id);
+        const changes = changedFields(run, { polyline: null }, ['polyline']);
+        if (removeStreams.run(id).changes > 0) {
+          changes.streams = { from: 'stored', to: null };
+        }
+        this.audit('run', id, 'update', run.name, changes);
+      }
+      return runIds.length;
+    })();
+  }
+
+  deleteRunsBefore(cutoff: string): number {
+    const stmt = this.db.prepare('SELECT * FROM runs WHERE start_date < ? AND deleted_at IS NULL');
+    return this.removeRuns(stmt.all(cutoff).map(row => toRun(row)!));
+  }
+
+  getArchivedRuns(params?: { limit?: number; offset?: number }): ArchivedRun[] {
+    const limit = params?.limit ? `LIMIT ${params.limit}` : '';
+    const offset = params?.offset ? `OFFSET ${params.offset}` : '';
+    const stmt = this.db.prepare(`
+      SELECT ${ARCHIVE_COLUMNS.join(', ')}, LENGTH(data) as data_size, archived_at
+      FROM run_archive
+      ORDER BY start_date DESC
+      ${limit} ${offset}
+    `);
+    return stmt.all() as ArchivedRun[];
+  }
+
+  getArchiveStats(): { runs: number; bytes: number; oldest: string | null; newest: string | null } {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as runs, COALESCE(SUM(LENGTH(data)), 0) as bytes, MIN(start_date) as oldest, MAX(start_date) as newest
+      FROM run_archive
+    `);
+    return stmt.get() as { runs: number; bytes: number; oldest: string | null; newest: string | null };
+  }
+
+  getArchivedRunData(id: number): { data: Buffer; archived_at: string } | null {
+    const stmt = this.db.prepare('SELECT data, archived_at FROM run_archive WHERE id = ?');
+    return (stmt.get(id) as { data: Buffer; archived_at: string } | undefined) ?? null;
+  }
+
+  // Archived run starting within the tolerance, for imports of runs without a Strava id
+  findArchivedRunByStartTime(startDate: string, toleranceSeconds: number = 60): ArchivedRun | null {
+    const stmt = this.db.prepare(`
+      SELECT ${ARCHIVE_COLUMNS.join(', ')}, LENGTH(data) as data_size, archived_at
+      FROM run_archive
+      WHERE ABS(julianday(start_date) - julianday(?)) * 86400 <= ?
+      ORDER BY ABS(julianday(start_date) - julianday(?))
+      LIMIT 1
+    `);
+    return (stmt.get(startDate, toleranceSeconds, startDate) as ArchivedRun | undefined) ?? null;
+  }
+
+  // Keeps Strava polls and backfills from bringing archived runs back
+  isStravaActivityArchived(stravaId: number): boolean {
+    return this.db.prepare('SELECT 1 FROM run_archive WHERE strava_id = ?').get(stravaId) !== undefined;
+  }
+
+  // The run a Strava activity was merged into (see mergeRuns), or null
+  getStravaActivityMergedInto(stravaId: number): number | null {
+    const row = this.db.prepare('SELECT run_id FROM merged_strava_activities WHERE strava_id = ?').get(stravaId) as { run_id: number } | undefined;
+    return row?.run_id ?? null;
   }
 
   // Database maintenance
+  // VACUUM INTO writes a consistent, compacted copy, including changes still in the WAL
   backup(backupPath: string): void {
     const backupDir = path.dirname(backupPath);
     if (!fs.existsSync(backupDir)) {
       fs.mkdirSync(backupDir, { recursive: true });
     }
 
-    // SQLite backup via file copy (WAL mode ensures consistency)
-    const destDb = new Database(backupPath);
-    this.db.backup(destDb);
-    destDb.close();
+    this.db.prepare('VACUUM INTO ?').run(backupPath);
+  }
+
+  // Replace the database with a copy of another database file. The copy is
+  // staged next to the database so the swap itself is a rename, then the
+  // connection is reopened (and migrated) in place, so services holding this
+  // instance carry on against the restored data.
+  restoreFrom(sourcePath: string): void {
+    const dbPath = this.config.database.path;
+    const stagingPath = `${dbPath}.restoring`;
+    fs.copyFileSync(sourcePath, stagingPath);
+
+    this.db.close();
+    try {
+      // Closing checkpoints the WAL; leftovers would be replayed into the restored file
+      fs.rmSync(`${dbPath}-wal`, { force: true });
+      fs.rmSync(`${dbPath}-shm`, { force: true });
+      fs.renameSync(stagingPath, dbPath);
+    } finally {
+      fs.rmSync(stagingPath, { force: true });
+      this.initialize();
+    }
   }
 
   vacuum(): void {
@@ -646,6 +1571,13 @@ export class DatabaseService {
   }
 }
 
+// e.g. /data/backups/running-scheduled-2025-02-19T03-00-00-000Z.db
+export function backupFilePath(config: AppConfig, label: string): string {
+  const name = path.basename(config.database.path, path.extname(config.database.path));
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(config.database.backup_path, `${name}-${label}-${stamp}.db`);
+}
+
 let dbInstance: DatabaseService | null = null;
 
 export function getDatabase(config: AppConfig): DatabaseService {
@@ -0,0 +1,185 @@
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { DuplicateCheckResult, Run, RunDuplicate } from '../models/database.types';
+import { haversineDistance } from './parsers/track.utils';
+
+// A pair is a candidate when the runs overlap in time by at least this much
+// of the shorter one, their distances agree within this fraction, and (when
+// both have a position) they start within this many meters of each other
+const MIN_TIME_OVERLAP = 0.5;
+const MAX_DISTANCE_DIFFERENCE = 0.1;
+const MAX_START_DISTANCE = 500;
+
+// Pairs this close are the same session; only these are auto-merged
+const HIGH_TIME_OVERLAP = 0.9;
+const HIGH_DISTANCE_DIFFERENCE = 0.03;
+const HIGH_START_DISTANCE = 100;
+
+type RunWindow = Pick<Run, 'start_date' | 'elapsed_time' | 'moving_time'>;
+type Candidate = Omit<RunDuplicate, 'id' | 'status' | 'created_at' | 'resolved_at'>;
+
+export class DuplicateService {
+  private db: DatabaseService;
+  private config: AppConfig;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  // Look for duplicates of a newly added run. New candidates are flagged for
+  // review, or merged straight away when auto_merge is on and the match is
+  // high confidence.
+  checkRun(runId: number): DuplicateCheckResult {
+    const result: DuplicateCheckResult = { run_id: runId, flagged: 0, merged: false };
+    const run = this.db.getRun(runId);
+    if (!run) return result;
+
+    for (const other of this.db.getOverlappingRuns(run)) {
+      const candidate = this.compare(run, other);
+      if (!candidate) continue;
+
+      const saved = this.db.saveRunDuplicate(candidate);
+      if (saved.status !== 'pending') continue;
+
+      if (this.config.duplicates.auto_merge && candidate.confidence === 'high') {
+        const keepId = this.merge(saved.id);
+        if (keepId !== null) {
+          console.log(`[Duplicates] Auto-merged "${run.name}" (${run.id}) with "${other.name}" (${other.id})`);
+          result.run_id = keepId;
+          result.merged = true;
+          // The checked run may be gone; anything left is picked up by the next scan
+          break;
+        }
+      }
+
+      if (saved.created) {
+        result.flagged++;
+        console.log(`[Duplicates] Flagged "${run.name}" (${run.id}) as a possible duplicate of "${other.name}" (${other.id})`);
+      }
+    }
+
+    return result;
+  }
+
+  // Existing run that a run about to be imported would duplicate
+  findMatch(run: Omit<Run, 'id' | 'created_at' | 'updated_at'>): Run | null {
+    for (const other of this.db.getOverlappingRuns(run)) {
+      if (this.measure(run, other)) return other;
+    }
+    return null;
+  }
+
+  // Check every run, e.g. after upgrading or changing auto_merge
+  scanAll(): { checked: number; flagged: number; merged: number } {
+    const summary = { checked: 0, flagged: 0, merged: 0 };
+    for (const run of this.db.getRuns({ sortBy: 'start_date', sortOrder: 'asc' })) {
+      // Runs merged away earlier in the scan no longer exist
+      if (!this.db.getRun(run.id!)) continue;
+      const result = this.checkRun(run.id!);
+      summary.checked++;
+      summary.flagged += result.flagged;
+      if (result.merged) summary.merged++;
+    }
+    console.log(`[Duplicates] Scan: ${summary.checked} runs checked, ${summary.flagged} flagged, ${summary.merged} merged`);
+    return summary;
+  }
+
+  // Merge a flagged pair. Without an explicit choice the Strava run is kept
+  // (so syncs keep updating it), then the one with streams, then the older one.
+  // Returns the id of the kept run, or null if the pair no longer exists.
+  merge(duplicateId: number, keepRunId?: number): number | null {
+    const pair = this.db.getRunDuplicate(duplicateId);
+    if (!pair) return null;
+
+    const a = this.db.getRun(pair.run_id);
+    const b = this.db.getRun(pair.duplicate_run_id);
+    if (!a || !b) return null;
+
+    let keep: Run;
+    if (keepRunId !== undefined) {
+      if (keepRunId !== a.id && keepRunId !== b.id) {
+        throw new Error('keep_run_id must be one of the two runs');
+      }
+      keep = keepRunId === a.id ? a : b;
+    } else {
+      keep = this.preferredRun(a, b);
+    }
+    const drop = keep === a ? b : a;
+
+    this.db.mergeRuns(keep.id!, drop.id!);
+    return keep.id!;
+  }
+
+  dismiss(duplicateId: number): boolean {
+    return this.db.dismissRunDuplicate(duplicateId);
+  }
+
+  private preferredRun(a: Run, b: Run): Run {
+    if (!!a.strava_id !== !!b.strava_id) return a.strava_id ? a : b;
+    const aStreams = this.db.getRunStreams(a.id!) !== null;
+    const bStreams = this.db.getRunStreams(b.id!) !== null;
+    if (aStreams !== bStreams) return aStreams ? a : b;
+    return a.id! < b.id! ? a : b;
+  }
+
+  private compare(run: Run, other: Run): Candidate | null {
+    const measured = this.measure(run, other);
+    return measured ? { run_id: run.id!, duplicate_run_id: other.id!, ...measured } : null;
+  }
+
+  private measure(run: Omit<Run, 'id' | 'created_at' | 'updated_at'>, other: Run): Omit<Candidate, 'run_id' | 'duplicate_run_id'> | null {
+    // Two Strava activities are Strava's business: merging would be undone by the next sync
+    if (run.strava_id && other.strava_id) return null;
+
+    const timeOverlap = overlapFraction(run, other);
+    if (timeOverlap < MIN_TIME_OVERLAP) return null;
+
+    const longer = Math.max(run.distance || 0, other.distance || 0);
+    const distanceDifference = longer > 0 ? Math.abs((run.distance || 0) - (other.distance || 0)) / longer : 0;
+    if (distanceDifference > MAX_DISTANCE_DIFFERENCE) return null;
+
+    const startDistance = hasStart(run) && hasStart(other)
+      ? haversineDistance(run.latitude_start!, run.longitude_start!, other.latitude_start!, other.longitude_start!)
+      : null;
+    if (startDistance !== null && startDistance > MAX_START_DISTANCE) return null;
+
+    const high = timeOverlap >= HIGH_TIME_OVERLAP
+      && distanceDifference <= HIGH_DISTANCE_DIFFERENCE
+      && (startDistance === null || startDistance <= HIGH_START_DISTANCE);
+
+    return {
+      time_overlap: Math.round(timeOverlap * 1000) / 1000,
+      distance_difference: Math.round(distanceDifference * 1000) / 1000,
+      start_distance: startDistance === null ? null : Math.round(startDistance),
+      confidence: high ? 'high' : 'medium'
+    };
+  }
+}
+
+function hasStart(run: Pick<Run, 'latitude_start' | 'longitude_start'>): boolean {
+  return run.latitude_start !== null && run.latitude_start !== undefined
+    && run.longitude_start !== null && run.longitude_start !== undefined;
+}
+
+// Overlap of the two start..start+elapsed windows as a fraction of the shorter one
+function overlapFraction(a: RunWindow, b: RunWindow): number {
+  const window = (run: RunWindow) => {
+    const start = new Date(run.start_date).getTime();
+    return [start, start + (run.elapsed_time || run.moving_time || 0) * 1000];
+  };
+  const [aStart, aEnd] = window(a);
+  const [bStart, bEnd] = window(b);
+  const shorter = Math.min(aEnd - aStart, bEnd - bStart);
+  if (shorter <= 0) return aStart === bStart ? 1 : 0;
+  return Math.max(0, Math.min(aEnd, bEnd) - Math.max(aStart, bStart)) / shorter;
+}
+
+let duplicateServiceInstance: DuplicateService | null = null;
+
+export function getDuplicateService(config: AppConfig): DuplicateService {
+  if (!duplicateServiceInstance) {
+    duplicateServiceInstance = new DuplicateService(config);
+  }
+  return duplicateServiceInstance;
+}
@@ -0,0 +1,131 @@
+import { Writable } from 'stream';
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { buildGpx, gpxFileName } from './gpx.utils';
+import { createZipWriter } from './zip.utils';
+import { CustomEvent, DATA_EXPORT_FORMAT, DATA_EXPORT_VERSION, DataExport, ExportFilter, ExportedRun, ParkrunResult, Run, RunLap } from '../models/database.types';
+
+export const EXPORT_PARTS = ['json', 'csv', 'gpx'] as const;
+export type ExportPart = typeof EXPORT_PARTS[number];
+
+// Spreadsheet columns; the polyline is left to the GPX files
+const RUN_CSV_COLUMNS: (keyof Run)[] = [
+  'id', 'strava_id', 'name', 'type', 'start_date', 'start_date_local', 'distance', 'moving_time',
+  'elapsed_time', 'average_speed', 'max_speed', 'average_heartrate', 'max_heartrate',
+  'total_elevation_gain', 'elev_high', 'elev_low', 'location_city', 'location_state', 'location_country',
+  'latitude_start', 'longitude_start', 'latitude_end', 'longitude_end', 'notes', 'tags', 'workout_type', 'created_at', 'updated_at'
+];
+
+const LAP_CSV_COLUMNS: (keyof RunLap)[] = [
+  'run_id', 'lap_index', 'name', 'start_date', 'elapsed_time', 'moving_time', 'distance', 'average_speed',
+  'max_speed', 'average_heartrate', 'max_heartrate', 'average_cadence', 'total_elevation_gain', 'intensity', 'trigger'
+];
+
+const PARKRUN_CSV_COLUMNS: (keyof ParkrunResult)[] = [
+  'id', 'parkrun_date', 'event_number', 'runner_name', 'position', 'total_runners', 'finish_time',
+  'age_category', 'age_grading', 'gender', 'gender_position', 'club', 'note', 'created_at'
+];
+
+const CUSTOM_EVENT_CSV_COLUMNS: (keyof CustomEvent)[] = ['id', 'date', 'title', 'description', 'created_at', 'updated_at'];
+
+export class ExportService {
+  private db: DatabaseService;
+
+  constructor(config: AppConfig) {
+    this.db = getDatabase(config);
+  }
+
+  // Everything matching the filter, with each run's streams and laps. This is
+  // the export.json the JSON import reads back.
+  buildDump(filter: ExportFilter = {}): DataExport {
+    const runs = this.db.getRuns({ ...filter, sortBy: 'start_date', sortOrder: 'asc' }).map(run => this.exportRun(run));
+
+    // Parkrun results and events are dated by day; the run type doesn't apply to them
+    const dates = {
+      ...(filter.startDate ? { startDate: filter.startDate.slice(0, 10) } : {}),
+      ...(filter.endDate ? { endDate: filter.endDate.slice(0, 10) } : {})
+    };
+
+    return {
+      format: DATA_EXPORT_FORMAT,
+      version: DATA_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      schema_version: this.db.getSchemaVersion(),
+      filters: filter,
+      runs,
+      parkrun_results: this.db.getParkrunResults(dates),
+      custom_events: this.db.getCustomEvents({ ...dates, sortBy: 'date', sortOrder: 'asc' })
+    };
+  }
+
+  // A run with its streams and laps, as in export.json
+  exportRun(run: Run): ExportedRun {
+    const streams = this.db.getRunStreams(run.id!);
+    return { ...run, streams: streams ? withoutKeys(streams, 'run_id', 'created_at') : null, laps: this.db.getRunLaps(run.id!) };
+  }
+
+  // ZIP with export.json, one CSV per table and a GPX file per run with a
+  // route, written to `output` file by file. The caller ends the stream.
+  async writeArchive(output: Writable, filter: ExportFilter = {}, parts: readonly ExportPart[] = EXPORT_PARTS): Promise<{ runs: number }> {
+    const dump = this.buildDump(filter);
+    const zip = createZipWriter(output);
+
+    if (parts.includes('json')) {
+      await zip.add('export.json', JSON.stringify(dump, null, 2));
+    }
+
+    if (parts.includes('csv')) {
+      await zip.add('runs.csv', toCsv(RUN_CSV_COLUMNS, dump.runs));
+      await zip.add('laps.csv', toCsv(LAP_CSV_COLUMNS, dump.runs.flatMap(run => run.laps)));
+      await zip.add('parkrun_results.csv', toCsv(PARKRUN_CSV_COLUMNS, dump.parkrun_results));
+      await zip.add('custom_events.csv', toCsv(CUSTOM_EVENT_CSV_COLUMNS, dump.custom_events));
+    }
+
+    if (parts.includes('gpx')) {
+      for (const run of dump.runs) {
+        const gpx = buildGpx(run, run.streams);
+        if (gpx) await zip.add(`gpx/${gpxFileName(run)}`, gpx);
+      }
+    }
+
+    await zip.finish();
+    console.log(`[Export] Archive with ${dump.runs.length} runs, ${dump.parkrun_results.length} parkrun results, ` +
+      `${dump.custom_events.length} events (${parts.join(', ')})`);
+    return { runs: dump.runs.length };
+  }
+
+  // GPX for a single run, or null if the run doesn't exist or has no route
+  runGpx(runId: number): { fileName: string; gpx: string } | null {
+    const run = this.db.getRun(runId);
+    if (!run) return null;
+    const gpx = buildGpx(run, this.db.getRunStreams(runId));
+    return gpx ? { fileName: gpxFileName(run), gpx } : null;
+  }
+}
+
+function withoutKeys<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
+
+// RFC 4180: quote fields containing a comma, quote or line break. Tags are
+// joined with '; ' so they stay in one cell.
+function toCsv<T>(columns: (keyof T)[], rows: T[]): string {
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = Array.isArray(value) ? value.join('; ') : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => cell(row[column])).join(','))];
+  return lines.join('\r\n') + '\r\n';
+}
+
+let exportServiceInstance: ExportService | null = null;
+
+export function getExportService(config: AppConfig): ExportService {
+  if (!exportServiceInstance) {
+    exportServiceInstance = new ExportService(config);
+  }
+  return exportServiceInstance;
+}
@@ -0,0 +1,97 @@
+import polyline from 'polyline';
+import { Run, RunStreams } from '../models/database.types';
+
+type TrackStreams = Pick<RunStreams, 'latlng' | 'time' | 'altitude' | 'heartrate' | 'cadence'>;
+
+interface GpxPoint {
+  lat: number;
+  lon: number;
+  time: Date | null;
+  ele: number | null;
+  hr: number | null;
+  cad: number | null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Full-resolution track from the streams, with time, elevation, heart rate and cadence
+function pointsFromStreams(run: Run, streams: TrackStreams): GpxPoint[] {
+  if (!streams.latlng) return [];
+  const start = new Date(run.start_date).getTime();
+
+  const points: GpxPoint[] = [];
+  streams.latlng.forEach((latlng, i) => {
+    if (!latlng) return;
+    const offset = streams.time?.[i];
+    points.push({
+      lat: latlng[0],
+      lon: latlng[1],
+      time: offset !== undefined && offset !== null ? new Date(start + offset * 1000) : null,
+      ele: streams.altitude?.[i] ?? null,
+      hr: streams.heartrate?.[i] ?? null,
+      cad: streams.cadence?.[i] ?? null
+    });
+  });
+  return points;
+}
+
+// The summary polyline only has positions, and is simplified
+function pointsFromPolyline(encoded: string): GpxPoint[] {
+  return (polyline.decode(encoded, 5) as [number, number][]).map(([lat, lon]) => ({
+    lat, lon, time: null, ele: null, hr: null, cad: null
+  }));
+}
+
+function trackPoint(point: GpxPoint): string {
+  const children: string[] = [];
+  if (point.ele !== null) children.push(`<ele>${point.ele.toFixed(1)}</ele>`);
+  if (point.time) children.push(`<time>${point.time.toISOString()}</time>`);
+  if (point.hr !== null || point.cad !== null) {
+    const ext: string[] = [];
+    if (point.hr !== null) ext.push(`<gpxtpx:hr>${Math.round(point.hr)}</gpxtpx:hr>`);
+    if (point.cad !== null) ext.push(`<gpxtpx:cad>${Math.round(point.cad)}</gpxtpx:cad>`);
+    children.push(`<extensions><gpxtpx:TrackPointExtension>${ext.join('')}</gpxtpx:TrackPointExtension></extensions>`);
+  }
+  return `      <trkpt lat="${point.lat.toFixed(7)}" lon="${point.lon.toFixed(7)}">${children.join('')}</trkpt>`;
+}
+
+// GPX 1.1 track for a run, from its streams when they have positions, else
+// from the summary polyline. Null when the run has no route (e.g. treadmill).
+// Heart rate and cadence use the Garmin extension our own parser reads back.
+export function buildGpx(run: Run, streams: TrackStreams | null): string | null {
+  let points = streams ? pointsFromStreams(run, streams) : [];
+  if (points.length === 0 && run.polyline) {
+    points = pointsFromPolyline(run.polyline);
+  }
+  if (points.length === 0) return null;
+
+  const name = escapeXml(run.name);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Running Dashboard" xmlns="http://www.topografix.com/GPX/1/1"' +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    `  <metadata><name>${name}</name><time>${new Date(run.start_date).toISOString()}</time></metadata>`,
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <type>running</type>',
+    '    <trkseg>',
+    ...points.map(trackPoint),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+// e.g. '2025-02-19-morning-run-17.gpx'
+export function gpxFileName(run: Run): string {
+  const slug = run.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `${(run.start_date_local || run.start_date).slice(0, 10)}-${slug || 'run'}-${run.id}.gpx`;
+}
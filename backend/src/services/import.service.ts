@@ -0,0 +1,606 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { DuplicateService, getDuplicateService } from './duplicate.service';
+import { DATA_EXPORT_FORMAT, DATA_EXPORT_VERSION, DataExport, DataImportSummary, ImportFileResult, ImportSummary, ParsedActivity, Run } from '../models/database.types';
+import { isSupportedActivityFile, parseActivityFile } from './parsers';
+import { ParseJob, parseInPool } from './parsers/parse.pool';
+import { RUNNING_WORKOUT_TYPE, buildHealthActivity, scanHealthWorkouts, scanHeartRate } from './parsers/apple-health.parser';
+import { parseGPX } from './parsers/gpx.parser';
+import { UnsupportedSportError } from './parsers/track.utils';
+import { trackToStreams } from './streams.utils';
+import { ZipArchive, openZip } from './zip.utils';
+
+// activities.csv "Activity Type" values imported as runs, mapped to API type names
+const ARCHIVE_RUN_TYPES: Record<string, string> = {
+  'Run': 'Run',
+  'Trail Run': 'TrailRun',
+  'Virtual Run': 'VirtualRun'
+};
+
+// Column headers in activities.csv. Newer exports repeat some headers
+// (e.g. a second "Distance" in meters); the first occurrence is used.
+const CSV_COLUMNS = {
+  id: 'Activity ID',
+  date: 'Activity Date',
+  name: 'Activity Name',
+  type: 'Activity Type',
+  elapsedTime: 'Elapsed Time',
+  movingTime: 'Moving Time',
+  distance: 'Distance',
+  filename: 'Filename'
+};
+
+// Uploads starting this close to an existing run are the same activity
+const DUPLICATE_START_TOLERANCE_SECONDS = 60;
+
+interface ArchiveActivity {
+  id: number;
+  date: Date | null;
+  name: string;
+  type: string;
+  elapsedTime: number | null;
+  movingTime: number | null;
+  distanceKm: number | null;
+  filename: string;
+}
+
+export class ImportService {
+  private db: DatabaseService;
+  private duplicates: DuplicateService;
+
+  constructor(config: AppConfig) {
+    this.db = getDatabase(config);
+    this.duplicates = getDuplicateService(config);
+  }
+
+  // Insert a parsed file as a run, with its streams and laps. Returns the id
+  // of the run, or of the run it was merged into as a duplicate.
+  saveParsedActivity(parsed: ParsedActivity): number {
+    const runId = this.db.insertRun(parsed.run);
+    if (parsed.points.length > 0) {
+      this.db.saveRunStreams(runId, 'upload', trackToStreams(parsed.points));
+    }
+    if (parsed.laps.length > 0) {
+      this.db.saveRunLaps(runId, parsed.laps);
+    }
+    return this.duplicates.checkRun(runId).run_id;
+  }
+
+  // Archived runs still count in stats through all_runs, so importing one
+  // again would count it twice
+  private archivedReason(stravaId: number | null, startDate: string | null): string | null {
+    if (stravaId && this.db.isStravaActivityArchived(stravaId)) return 'Strava activity is archived';
+    const archived = startDate ? this.db.findArchivedRunByStartTime(startDate, DUPLICATE_START_TOLERANCE_SECONDS) : null;
+    return archived ? `Same start time as archived run "${archived.name}"` : null;
+  }
+
+  // Import many uploaded activity files at once. Parsing runs on a bounded
+  // pool of worker threads; inserts happen here, one file at a time, so
+  // duplicates within the batch are caught too.
+  async importFiles(files: { fileName: string; buffer: Buffer }[]): Promise<ImportSummary> {
+    const results: ImportFileResult[] = files.map(file => ({
+      file: file.fileName, status: 'failed', run_id: null, strava_id: null, name: null, reason: null
+    }));
+
+    const jobs: ParseJob[] = [];
+    const jobIndexes: number[] = [];
+    files.forEach((file, index) => {
+      if (!isSupportedActivityFile(file.fileName)) {
+        results[index].reason = 'Unsupported file format. Use GPX, TCX or FIT.';
+        return;
+      }
+      jobs.push({ fileName: file.fileName, buffer: file.buffer, name: defaultRunName(file.fileName) });
+      jobIndexes.push(index);
+    });
+
+    const outcomes = await parseInPool(jobs);
+
+    outcomes.forEach((outcome, i) => {
+      const result = results[jobIndexes[i]];
+      if (!outcome.parsed) {
+        if (outcome.skipped) result.status = 'skipped';
+        result.reason = outcome.error || 'Failed to parse file. Invalid format.';
+        return;
+      }
+
+      const run = outcome.parsed.run;
+      result.name = run.name;
+      const archived = this.archivedReason(null, run.start_date);
+      if (archived) {
+        result.status = 'duplicate';
+        result.reason = archived;
+        return;
+      }
+      const existing = this.db.findRunByStartTime(run.start_date, DUPLICATE_START_TOLERANCE_SECONDS);
+      if (existing) {
+        result.status = 'duplicate';
+        result.run_id = existing.id!;
+        result.reason = `Same start time as "${existing.name}"`;
+        return;
+      }
+
+      try {
+        result.run_id = this.saveParsedActivity(outcome.parsed);
+        result.status = 'created';
+      } catch (error: any) {
+        result.reason = error.message;
+      }
+    });
+
+    const summary = summarize(results);
+    console.log(`[Upload] Bulk upload: ${summary.created} created, ${summary.duplicate} duplicates, ${summary.failed} failed`);
+    return summary;
+  }
+
+  // Import a Strava "Download your data" archive: activities.csv supplies the
+  // activity id, name and type, the activities/ folder the GPX/TCX/FIT files
+  // (often gzipped). Runs keep their Strava id so API syncs don't duplicate them.
+  // The archive is read from disk one file at a time.
+  async importStravaArchive(archivePath: string): Promise<ImportSummary> {
+    const zip = await openZip(archivePath);
+    try {
+      return await this.importStravaEntries(zip);
+    } finally {
+      zip.close();
+    }
+  }
+
+  private async importStravaEntries(zip: ZipArchive): Promise<ImportSummary> {
+    const entries = new Map(zip.entries.map(e => [e.fileName, e]));
+    // The CSV sits at the archive root, or one folder down when the ZIP was re-packed
+    const csvEntry = zip.entries.find(e => path.basename(e.fileName) === 'activities.csv');
+    if (!csvEntry) {
+      throw new Error('activities.csv not found in archive');
+    }
+    const root = path.dirname(csvEntry.fileName) === '.' ? '' : `${path.dirname(csvEntry.fileName)}/`;
+
+    const activities = parseActivitiesCsv((await zip.read(csvEntry)).toString('utf-8'));
+    const results: ImportFileResult[] = [];
+
+    for (const activity of activities) {
+      const file = activity.filename || `activity ${activity.id}`;
+      const result: ImportFileResult = {
+        file, status: 'failed', run_id: null, strava_id: activity.id, name: activity.name, reason: null
+      };
+      results.push(result);
+
+      const type = ARCHIVE_RUN_TYPES[activity.type];
+      if (!type) {
+        result.status = 'skipped';
+        result.reason = `${activity.type || 'Unknown'} activity`;
+        continue;
+      }
+
+      const existing = this.db.getRunByStravaId(activity.id);
+      if (existing) {
+        result.status = 'duplicate';
+        result.run_id = existing.id!;
+        result.reason = 'Strava activity already imported';
+        continue;
+      }
+      const trashed = this.db.getTrashedRunByStravaId(activity.id);
+      if (trashed) {
+        result.status = 'duplicate';
+        result.run_id = trashed.id!;
+        result.reason = 'Strava activity is in the trash';
+        continue;
+      }
+      const mergedInto = this.db.getStravaActivityMergedInto(activity.id);
+      if (mergedInto) {
+        result.status = 'duplicate';
+        result.run_id = mergedInto;
+        result.reason = 'Strava activity was merged into another run';
+        continue;
+      }
+      const archived = this.archivedReason(activity.id, activity.date?.toISOString() ?? null);
+      if (archived) {
+        result.status = 'duplicate';
+        result.reason = archived;
+        continue;
+      }
+
+      try {
+        if (!activity.filename) {
+          // Manual activities have no file; the CSV has enough for a summary row
+          const run = runFromCsv(activity, type);
+          if (!run) {
+            result.reason = 'No file and no date/distance in activities.csv';
+            continue;
+          }
+          result.run_id = this.duplicates.checkRun(this.db.insertRun(run)).run_id;
+          result.status = 'created';
+          continue;
+        }
+
+        const entry = entries.get(`${root}${activity.filename}`);
+        if (!entry) {
+          result.reason = 'File listed in activities.csv is missing from the archive';
+          continue;
+        }
+        if (!isSupportedActivityFile(entry.fileName)) {
+          result.status = 'skipped';
+          result.reason = `Unsupported file format: ${path.basename(entry.fileName)}`;
+          continue;
+        }
+
+        const parsed = parseActivityFile(entry.fileName, await zip.read(entry), activity.name);
+        if (!parsed) {
+          result.reason = 'Failed to parse file';
+          continue;
+        }
+
+        parsed.run.strava_id = activity.id;
+        parsed.run.type = type;
+        result.run_id = this.saveParsedActivity(parsed);
+        result.status = 'created';
+      } catch (error: any) {
+        if (error instanceof UnsupportedSportError) {
+          result.status = 'skipped';
+        } else {
+          console.error(`[Import] ${file}:`, error.message);
+        }
+        result.reason = error.message;
+      }
+    }
+
+    const summary = summarize(results);
+    console.log(`[Import] Strava archive: ${summary.created} created, ${summary.duplicate} duplicates, ` +
+      `${summary.skipped} skipped, ${summary.failed} failed`);
+    return summary;
+  }
+
+  // Import running workouts from an Apple Health export.zip, read from disk.
+  // export.xml is read twice as a stream (workouts, then the heart rate
+  // samples inside them) and never held in memory uncompressed. Routes come
+  // from the workout-routes GPX files. Workouts matching an existing run by
+  // start time and distance (e.g. synced to Strava as well) are skipped.
+  async importAppleHealthExport(archivePath: string): Promise<ImportSummary> {
+    const zip = await openZip(archivePath);
+    try {
+      return await this.importHealthEntries(zip);
+    } finally {
+      zip.close();
+    }
+  }
+
+  private async importHealthEntries(zip: ZipArchive): Promise<ImportSummary> {
+    const xmlEntry = zip.entries.find(e => path.basename(e.fileName) === 'export.xml');
+    if (!xmlEntry) {
+      throw new Error('export.xml not found in archive');
+    }
+    const routes = new Map(
+      zip.entries.filter(e => e.fileName.toLowerCase().endsWith('.gpx')).map(e => [path.basename(e.fileName), e])
+    );
+
+    const workouts = await scanHealthWorkouts(await zip.stream(xmlEntry));
+    const runs = workouts.filter(w => w.activityType === RUNNING_WORKOUT_TYPE);
+    const heartRate = await scanHeartRate(await zip.stream(xmlEntry), runs);
+
+    const results: ImportFileResult[] = workouts
+      .filter(w => w.activityType !== RUNNING_WORKOUT_TYPE)
+      .map(w => ({
+        file: `workout ${w.startLocal}`,
+        status: 'skipped',
+        run_id: null,
+        strava_id: null,
+        name: null,
+        reason: `${w.activityType.replace('HKWorkoutActivityType', '') || 'Unknown'} workout`
+      }));
+
+    for (const [index, workout] of runs.entries()) {
+      const result: ImportFileResult = {
+        file: workout.routePath ? path.basename(workout.routePath) : `workout ${workout.startLocal}`,
+        status: 'failed', run_id: null, strava_id: null, name: null, reason: null
+      };
+      results.push(result);
+
+      try {
+        const routeEntry = workout.routePath ? routes.get(path.basename(workout.routePath)) : undefined;
+        const route = routeEntry ? parseGPX((await zip.read(routeEntry)).toString('utf-8').trimStart(), '')?.points ?? [] : [];
+        const parsed = buildHealthActivity(workout, route, heartRate[index]);
+        result.name = parsed.run.name;
+
+        const archived = this.archivedReason(null, parsed.run.start_date);
+        if (archived) {
+          result.status = 'duplicate';
+          result.reason = archived;
+          continue;
+        }
+
+        const existing = this.duplicates.findMatch(parsed.run);
+        if (existing) {
+          result.status = 'duplicate';
+          result.run_id = existing.id!;
+          result.reason = `Matches "${existing.name}"`;
+          continue;
+        }
+
+        result.run_id = this.saveParsedActivity(parsed);
+        result.status = 'created';
+      } catch (error: any) {
+        console.error(`[Import] ${result.file}:`, error.message);
+        result.reason = error.message;
+      }
+    }
+
+    const summary = summarize(results);
+    console.log(`[Import] Apple Health export: ${summary.created} created, ${summary.duplicate} duplicates, ` +
+      `${summary.skipped} skipped, ${summary.failed} failed`);
+    return summary;
+  }
+  // Read back a data export: export.json, or the export ZIP containing it.
+  // Runs already present (same Strava id or start time) are reported as
+  // duplicates; parkrun results and events are matched on their natural keys,
+  // so importing the same export twice changes nothing.
+  async importDataExport(filePath: string, fileName: string): Promise<DataImportSummary> {
+    const dump = await readDataExport(filePath, fileName);
+    const results: ImportFileResult[] = [];
+
+    for (const exported of dump.runs) {
+      const result: ImportFileResult = {
+        file: `run ${exported.id}`, status: 'failed', run_id: null, strava_id: exported.strava_id ?? null, name: exported.name ?? null, reason: null
+      };
+      results.push(result);
+
+      try {
+        const trashed = exported.strava_id ? this.db.getTrashedRunByStravaId(exported.strava_id) : null;
+        if (trashed) {
+          result.status = 'duplicate';
+          result.run_id = trashed.id!;
+          result.reason = `Strava activity is in the trash as "${trashed.name}"`;
+          continue;
+        }
+        const mergedInto = exported.strava_id ? this.db.getStravaActivityMergedInto(exported.strava_id) : null;
+        if (mergedInto) {
+          result.status = 'duplicate';
+          result.run_id = mergedInto;
+          result.reason = 'Strava activity was merged into another run';
+          continue;
+        }
+        const archived = this.archivedReason(exported.strava_id ?? null, exported.start_date);
+        if (archived) {
+          result.status = 'duplicate';
+          result.reason = archived;
+          continue;
+        }
+        const existing = (exported.strava_id ? this.db.getRunByStravaId(exported.strava_id) : null)
+          ?? this.db.findRunByStartTime(exported.start_date, DUPLICATE_START_TOLERANCE_SECONDS);
+        if (existing) {
+          result.status = 'duplicate';
+          result.run_id = existing.id!;
+          result.reason = `Same ${existing.strava_id && existing.strava_id === exported.strava_id ? 'Strava activity' : 'start time'} as "${existing.name}"`;
+          continue;
+        }
+
+        const { id, created_at, updated_at, strava_missing_at, deleted_at, streams, laps, ...run } = exported;
+        const runId = this.db.insertRun(run);
+        if (streams && streams.point_count > 0) {
+          const { source, ...data } = streams;
+          this.db.saveRunStreams(runId, source, data);
+        }
+        if (laps.length > 0) {
+          this.db.saveRunLaps(runId, laps);
+        }
+        result.run_id = this.duplicates.checkRun(runId).run_id;
+        result.status = 'created';
+      } catch (error: any) {
+        console.error(`[Import] ${result.file}:`, error.message);
+        result.reason = error.message;
+      }
+    }
+
+    // Upserts on (date, runner, finish time), so existing results are just refreshed
+    const parkrunBefore = this.db.countParkrunResults();
+    for (const { id, created_at, ...parkrunResult } of dump.parkrun_results) {
+      this.db.upsertParkrunResult(parkrunResult);
+    }
+    const parkrunCreated = this.db.countParkrunResults() - parkrunBefore;
+
+    let eventsCreated = 0;
+    for (const event of dump.custom_events) {
+      const sameDay = this.db.getCustomEvents({ startDate: event.date, endDate: event.date });
+      if (sameDay.some(e => e.title === event.title)) continue;
+      this.db.insertCustomEvent({ date: event.date, title: event.title, ...(event.description ? { description: event.description } : {}) });
+      eventsCreated++;
+    }
+
+    const summary: DataImportSummary = {
+      runs: summarize(results),
+      parkrun_results: { total: dump.parkrun_results.length, created: parkrunCreated, existing: dump.parkrun_results.length - parkrunCreated },
+      custom_events: { total: dump.custom_events.length, created: eventsCreated, existing: dump.custom_events.length - eventsCreated }
+    };
+    console.log(`[Import] Data export: ${summary.runs.created} runs created, ${summary.runs.duplicate} duplicates, ` +
+      `${summary.runs.failed} failed; ${parkrunCreated} parkrun results, ${eventsCreated} events added`);
+    return summary;
+  }
+}
+
+async function readDataExport(filePath: string, fileName: string): Promise<DataExport> {
+  let text: string;
+  if (fileName.toLowerCase().endsWith('.zip')) {
+    const zip = await openZip(filePath);
+    try {
+      const entry = zip.entries.find(e => path.basename(e.fileName) === 'export.json');
+      if (!entry) {
+        throw new Error('export.json not found in archive');
+      }
+      text = (await zip.read(entry)).toString('utf-8');
+    } finally {
+      zip.close();
+    }
+  } else {
+    text = fs.readFileSync(filePath, 'utf-8');
+  }
+
+  let dump: any;
+  try {
+    dump = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`export.json is not valid JSON: ${error.message}`);
+  }
+  if (dump?.format !== DATA_EXPORT_FORMAT || !Array.isArray(dump.runs)) {
+    throw new Error('Not a Running Dashboard export.json');
+  }
+  if (typeof dump.version !== 'number' || dump.version > DATA_EXPORT_VERSION) {
+    throw new Error(`export.json version ${dump.version} is newer than this app supports (${DATA_EXPORT_VERSION})`);
+  }
+  return {
+    ...dump,
+    parkrun_results: Array.isArray(dump.parkrun_results) ? dump.parkrun_results : [],
+    custom_events: Array.isArray(dump.custom_events) ? dump.custom_events : []
+  };
+}
+
+// '2025-03-20-morning_run.fit.gz' -> '2025-03-20-morning run'
+function defaultRunName(fileName: string): string {
+  const base = path.basename(fileName).replace(/(\.gz)?$/i, '').replace(/\.(gpx|tcx|fit)$/i, '');
+  return base.replace(/_/g, ' ') || `Uploaded Run ${new Date().toLocaleDateString()}`;
+}
+
+export function summarize(results: ImportFileResult[]): ImportSummary {
+  return {
+    total: results.length,
+    created: results.filter(r => r.status === 'created').length,
+    duplicate: results.filter(r => r.status === 'duplicate').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results
+  };
+}
+
+function runFromCsv(activity: ArchiveActivity, type: string): Omit<Run, 'id' | 'created_at' | 'updated_at'> | null {
+  if (!activity.date || activity.distanceKm === null) {
+    return null;
+  }
+
+  const distance = activity.distanceKm * 1000;
+  const movingTime = activity.movingTime ?? activity.elapsedTime ?? 0;
+  return {
+    strava_id: activity.id,
+    name: activity.name || 'Untitled Run',
+    distance,
+    moving_time: movingTime,
+    elapsed_time: activity.elapsedTime ?? movingTime,
+    start_date: activity.date.toISOString(),
+    // The CSV only has UTC times
+    start_date_local: activity.date.toISOString().replace('Z', ''),
+    type,
+    upload_id: null,
+    average_speed: movingTime > 0 ? distance / movingTime : null,
+    max_speed: null,
+    average_heartrate: null,
+    max_heartrate: null,
+    total_elevation_gain: null,
+    elev_high: null,
+    elev_low: null,
+    location_country: null,
+    location_state: null,
+    location_city: null,
+    latitude_start: null,
+    longitude_start: null,
+    latitude_end: null,
+    longitude_end: null,
+    polyline: null
+  };
+}
+
+function parseActivitiesCsv(text: string): ArchiveActivity[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0];
+  const column = (name: string) => header.indexOf(name);
+  const idx = {
+    id: column(CSV_COLUMNS.id),
+    date: column(CSV_COLUMNS.date),
+    name: column(CSV_COLUMNS.name),
+    type: column(CSV_COLUMNS.type),
+    elapsedTime: column(CSV_COLUMNS.elapsedTime),
+    movingTime: column(CSV_COLUMNS.movingTime),
+    distance: column(CSV_COLUMNS.distance),
+    filename: column(CSV_COLUMNS.filename)
+  };
+  if (idx.id < 0 || idx.type < 0) {
+    throw new Error('activities.csv is missing the Activity ID or Activity Type column');
+  }
+
+  const cell = (row: string[], i: number) => (i >= 0 ? (row[i] ?? '').trim() : '');
+  const number = (row: string[], i: number) => {
+    const value = parseFloat(cell(row, i).replace(/,/g, ''));
+    return Number.isFinite(value) ? value : null;
+  };
+
+  return rows.slice(1)
+    .filter(row => cell(row, idx.id) !== '')
+    .map(row => {
+      // "Mar 20, 2025, 7:30:00 AM", always UTC
+      const date = cell(row, idx.date) ? new Date(`${cell(row, idx.date)} UTC`) : null;
+      return {
+        id: parseInt(cell(row, idx.id)),
+        date: date && !isNaN(date.getTime()) ? date : null,
+        name: cell(row, idx.name),
+        type: cell(row, idx.type),
+        elapsedTime: number(row, idx.elapsedTime),
+        movingTime: number(row, idx.movingTime),
+        distanceKm: number(row, idx.distance),
+        filename: cell(row, idx.filename)
+      };
+    })
+    .filter(activity => Number.isFinite(activity.id));
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+let importServiceInstance: ImportService | null = null;
+
+export function getImportService(config: AppConfig): ImportService {
+  if (!importServiceInstance) {
+    importServiceInstance = new ImportService(config);
+  }
+  return importServiceInstance;
+}
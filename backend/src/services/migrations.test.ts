@@ -0,0 +1,299 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AppConfig } from '../config/config.service';
+import { DatabaseService } from './database.service';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, Migration, getSchemaVersion, runMigrations } from './migrations';
+
+// Schema as created by the first release, before any columns were added
+const FIRST_RELEASE_SCHEMA = `
+  CREATE TABLE runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    strava_id INTEGER UNIQUE,
+    name TEXT NOT NULL,
+    distance REAL,
+    moving_time INTEGER,
+    elapsed_time INTEGER,
+    start_date TEXT,
+    start_date_local TEXT,
+    type TEXT,
+    upload_id INTEGER,
+    average_speed REAL,
+    max_speed REAL,
+    average_heartrate REAL,
+    max_heartrate REAL,
+    total_elevation_gain REAL,
+    elev_high REAL,
+    elev_low REAL,
+    location_country TEXT,
+    location_state TEXT,
+    location_city TEXT,
+    latitude_start REAL,
+    longitude_start REAL,
+    latitude_end REAL,
+    longitude_end REAL,
+    polyline TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE parkrun_results (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    parkrun_date TEXT,
+    event_number INTEGER,
+    runner_name TEXT NOT NULL,
+    position INTEGER,
+    total_runners INTEGER,
+    finish_time TEXT,
+    age_category TEXT,
+    age_grading REAL,
+    gender TEXT,
+    gender_position INTEGER,
+    club TEXT,
+    note TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(parkrun_date, runner_name, finish_time)
+  );
+
+  CREATE TABLE sync_metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE custom_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX idx_runs_start_date ON runs(start_date);
+  CREATE INDEX idx_parkrun_results_date ON parkrun_results(parkrun_date);
+  CREATE INDEX idx_custom_events_date ON custom_events(date);
+`;
+
+// What the last untracked build left behind: the first release plus every
+// column and table added since, but no schema_migrations table
+const UNTRACKED_SCHEMA = `
+  ${FIRST_RELEASE_SCHEMA}
+
+  ALTER TABLE runs ADD COLUMN strava_missing_at TEXT;
+  ALTER TABLE runs ADD COLUMN notes TEXT;
+  ALTER TABLE runs ADD COLUMN tags TEXT;
+
+  CREATE TABLE run_streams (
+    run_id INTEGER PRIMARY KEY REFERENCES runs(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    point_count INTEGER NOT NULL DEFAULT 0,
+    time TEXT,
+    latlng TEXT,
+    distance TEXT,
+    altitude TEXT,
+    heartrate TEXT,
+    cadence TEXT,
+    velocity_smooth TEXT,
+    grade_smooth TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE run_laps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    lap_index INTEGER NOT NULL,
+    name TEXT,
+    start_date TEXT,
+    elapsed_time INTEGER,
+    moving_time INTEGER,
+    distance REAL,
+    average_speed REAL,
+    max_speed REAL,
+    average_heartrate REAL,
+    max_heartrate REAL,
+    average_cadence REAL,
+    total_elevation_gain REAL,
+    intensity TEXT,
+    trigger TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(run_id, lap_index)
+  );
+
+  CREATE TABLE run_duplicates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    duplicate_run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    time_overlap REAL NOT NULL,
+    distance_difference REAL NOT NULL,
+    start_distance REAL,
+    confidence TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TEXT,
+    UNIQUE(run_id, duplicate_run_id)
+  );
+`;
+
+let tempDir: string;
+
+function testConfig(): AppConfig {
+  return {
+    database: {
+      path: path.join(tempDir, 'running.db'),
+      backup_path: path.join(tempDir, 'backups')
+    }
+  } as AppConfig;
+}
+
+function createLegacyDatabase(schema: string): void {
+  const db = new Database(testConfig().database.path);
+  db.exec(schema);
+  db.prepare(`
+    INSERT INTO runs (strava_id, name, distance, moving_time, elapsed_time, start_date, start_date_local, type)
+    VALUES (123, 'Morning Run', 10000, 3000, 3100, '2024-03-02T08:00:00Z', '2024-03-02T09:00:00', 'Run')
+  `).run();
+  db.prepare(`
+    INSERT INTO parkrun_results (parkrun_date, event_number, runner_name, position, total_runners, finish_time)
+    VALUES ('2024-03-09', 512, 'Sam Runner', 42, 300, '24:10')
+  `).run();
+  db.prepare("INSERT INTO custom_events (date, title) VALUES ('2024-04-21', 'Marathon')").run();
+  db.close();
+}
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+function tables(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map(t => t.name);
+}
+
+function backups(): string[] {
+  const dir = testConfig().database.backup_path;
+  return fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'running-migrations-'));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('DatabaseService migrations', () => {
+  it('creates the latest schema on a new database without a backup', () => {
+    const service = new DatabaseService(testConfig());
+    expect(service.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    service.close();
+
+    const db = new Database(testConfig().database.path);
+    expect(tables(db)).toEqual(expect.arrayContaining([
+      'runs', 'parkrun_results', 'sync_metadata', 'custom_events',
+      'run_streams', 'run_laps', 'run_duplicates', 'schema_migrations'
+    ]));
+    expect(columns(db, 'runs')).toEqual(expect.arrayContaining(['strava_missing_at', 'notes', 'tags']));
+    db.close();
+
+    expect(backups()).toEqual([]);
+  });
+
+  it('upgrades a database from the untracked schema, keeping its data', () => {
+    createLegacyDatabase(UNTRACKED_SCHEMA);
+
+    const service = new DatabaseService(testConfig());
+    expect(service.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+
+    const run = service.getRunByStravaId(123);
+    expect(run).toMatchObject({ name: 'Morning Run', distance: 10000, tags: [] });
+    expect(service.getParkrunResults()).toHaveLength(1);
+    expect(service.getCustomEvents()).toEqual([expect.objectContaining({ title: 'Marathon', updated_at: expect.any(String) })]);
+
+    // The upgraded schema is usable by code relying on the newest columns
+    service.updateRun(run!.id!, { notes: 'Felt good', tags: ['long'] });
+    expect(service.getRun(run!.id!)).toMatchObject({ notes: 'Felt good', tags: ['long'] });
+    service.close();
+
+    const db = new Database(testConfig().database.path);
+    const applied = db.prepare('SELECT version, name FROM schema_migrations ORDER BY version').all();
+    expect(applied).toEqual(MIGRATIONS.map(m => ({ version: m.version, name: m.name })));
+    expect(db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'idx_run_duplicates_status'").get()).toBeDefined();
+    db.close();
+  });
+
+  it('upgrades a first release database, adding later columns and tables', () => {
+    createLegacyDatabase(FIRST_RELEASE_SCHEMA);
+
+    const service = new DatabaseService(testConfig());
+    expect(service.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    expect(service.getRunByStravaId(123)).toMatchObject({ name: 'Morning Run', notes: null, strava_missing_at: null });
+    service.close();
+
+    const db = new Database(testConfig().database.path);
+    expect(columns(db, 'runs')).toEqual(expect.arrayContaining(['strava_missing_at', 'notes', 'tags']));
+    expect(tables(db)).toEqual(expect.arrayContaining(['run_streams', 'run_laps', 'run_duplicates']));
+    db.close();
+  });
+
+  it('backs up an existing database before migrating it', () => {
+    createLegacyDatabase(UNTRACKED_SCHEMA);
+
+    new DatabaseService(testConfig()).close();
+
+    const files = backups();
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^running-pre-migration-v0-.*\.db$/);
+
+    // The backup is the database as it was before migrating
+    const backup = new Database(path.join(testConfig().database.backup_path, files[0]), { readonly: true });
+    expect(backup.prepare('SELECT name FROM runs').all()).toEqual([{ name: 'Morning Run' }]);
+    expect(tables(backup)).not.toContain('schema_migrations');
+    backup.close();
+  });
+
+  it('does nothing when reopening an up to date database', () => {
+    createLegacyDatabase(UNTRACKED_SCHEMA);
+    new DatabaseService(testConfig()).close();
+
+    const service = new DatabaseService(testConfig());
+    expect(service.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    service.close();
+
+    expect(backups()).toHaveLength(1);
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies only pending migrations, in version order', () => {
+    const db = new Database(':memory:');
+    const order: number[] = [];
+    const migrations: Migration[] = [3, 1, 2].map(version => ({
+      version,
+      name: `step_${version}`,
+      up: () => { order.push(version); }
+    }));
+
+    expect(runMigrations(db, migrations.slice(1)).map(m => m.version)).toEqual([1, 2]);
+    expect(runMigrations(db, migrations).map(m => m.version)).toEqual([3]);
+    expect(order).toEqual([1, 2, 3]);
+    expect(getSchemaVersion(db)).toBe(3);
+    db.close();
+  });
+
+  it('rolls back every pending migration when one fails', () => {
+    const db = new Database(':memory:');
+    const migrations: Migration[] = [
+      { version: 1, name: 'create', up: d => d.exec('CREATE TABLE things (id INTEGER PRIMARY KEY)') },
+      { version: 2, name: 'broken', up: d => d.exec('ALTER TABLE missing ADD COLUMN x TEXT') }
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow(/no such table/);
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tables(db)).not.toContain('things');
+    db.close();
+  });
+});
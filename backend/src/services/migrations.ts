@@ -0,0 +1,390 @@
+import Database from 'better-sqlite3';
+
+// A schema change. Migrations run once each, in version order; versions are
+// never reused or renumbered once released. Databases created before
+// migrations were tracked may already have some of these changes, so
+// migrations must tolerate objects that already exist.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        strava_id INTEGER UNIQUE,
+        name TEXT NOT NULL,
+        distance REAL,
+        moving_time INTEGER,
+        elapsed_time INTEGER,
+        start_date TEXT,
+        start_date_local TEXT,
+        type TEXT,
+        upload_id INTEGER,
+        average_speed REAL,
+        max_speed REAL,
+        average_heartrate REAL,
+        max_heartrate REAL,
+        total_elevation_gain REAL,
+        elev_high REAL,
+        elev_low REAL,
+        location_country TEXT,
+        location_state TEXT,
+        location_city TEXT,
+        latitude_start REAL,
+        longitude_start REAL,
+        latitude_end REAL,
+        longitude_end REAL,
+        polyline TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS parkrun_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        parkrun_date TEXT,
+        event_number INTEGER,
+        runner_name TEXT NOT NULL,
+        position INTEGER,
+        total_runners INTEGER,
+        finish_time TEXT,
+        age_category TEXT,
+        age_grading REAL,
+        gender TEXT,
+        gender_position INTEGER,
+        club TEXT,
+        note TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(parkrun_date, runner_name, finish_time)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS custom_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL, -- ISO 8601 date (YYYY-MM-DD)
+        title TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_runs_start_date ON runs(start_date);
+      CREATE INDEX IF NOT EXISTS idx_runs_type ON runs(type);
+      CREATE INDEX IF NOT EXISTS idx_runs_strava_id ON runs(strava_id);
+      CREATE INDEX IF NOT EXISTS idx_parkrun_results_date ON parkrun_results(parkrun_date);
+      CREATE INDEX IF NOT EXISTS idx_parkrun_results_name ON parkrun_results(runner_name);
+      CREATE INDEX IF NOT EXISTS idx_sync_metadata_key ON sync_metadata(key);
+      CREATE INDEX IF NOT EXISTS idx_custom_events_date ON custom_events(date);
+    `)
+  },
+  {
+    version: 2,
+    name: 'runs_strava_missing_at',
+    up: db => addColumnIfMissing(db, 'runs', 'strava_missing_at', 'TEXT')
+  },
+  {
+    version: 3,
+    name: 'run_streams_and_laps',
+    up: db => db.exec(`
+      -- One row per run; each stream is a JSON array with point_count entries
+      CREATE TABLE IF NOT EXISTS run_streams (
+        run_id INTEGER PRIMARY KEY REFERENCES runs(id) ON DELETE CASCADE,
+        source TEXT NOT NULL, -- 'strava' or 'upload'
+        point_count INTEGER NOT NULL DEFAULT 0,
+        time TEXT,
+        latlng TEXT,
+        distance TEXT,
+        altitude TEXT,
+        heartrate TEXT,
+        cadence TEXT,
+        velocity_smooth TEXT,
+        grade_smooth TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS run_laps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        lap_index INTEGER NOT NULL, -- 0-based, in recording order
+        name TEXT,
+        start_date TEXT,
+        elapsed_time INTEGER,
+        moving_time INTEGER,
+        distance REAL,
+        average_speed REAL,
+        max_speed REAL,
+        average_heartrate REAL,
+        max_heartrate REAL,
+        average_cadence REAL,
+        total_elevation_gain REAL,
+        intensity TEXT,
+        trigger TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(run_id, lap_index)
+      );
+    `)
+  },
+  {
+    version: 4,
+    name: 'run_duplicates',
+    up: db => db.exec(`
+      -- Suspected duplicate pairs awaiting review (or dismissed, so they aren't flagged again)
+      CREATE TABLE IF NOT EXISTS run_duplicates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        duplicate_run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        time_overlap REAL NOT NULL,
+        distance_difference REAL NOT NULL,
+        start_distance REAL,
+        confidence TEXT NOT NULL, -- 'high' or 'medium'
+        status TEXT NOT NULL DEFAULT 'pending', -- 'pending' or 'dismissed'
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        resolved_at TEXT,
+        UNIQUE(run_id, duplicate_run_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_run_duplicates_status ON run_duplicates(status);
+    `)
+  },
+  {
+    version: 5,
+    name: 'runs_notes_and_tags',
+    up: db => {
+      addColumnIfMissing(db, 'runs', 'notes', 'TEXT');
+      addColumnIfMissing(db, 'runs', 'tags', 'TEXT'); // JSON array of strings
+    }
+  },
+  {
+    version: 6,
+    name: 'run_archive',
+    up: db => db.exec(`
+      -- Runs moved out of runs by retention cleanup. The summary columns stay
+      -- queryable for stats; data is the whole run (polyline, streams, laps)
+      -- as gzipped JSON.
+      CREATE TABLE IF NOT EXISTS run_archive (
+        id INTEGER PRIMARY KEY, -- the run's id in runs
+        strava_id INTEGER UNIQUE,
+        name TEXT NOT NULL,
+        type TEXT,
+        start_date TEXT,
+        start_date_local TEXT,
+        distance REAL,
+        moving_time INTEGER,
+        elapsed_time INTEGER,
+        average_speed REAL,
+        max_speed REAL,
+        average_heartrate REAL,
+        max_heartrate REAL,
+        total_elevation_gain REAL,
+        latitude_start REAL,
+        longitude_start REAL,
+        data BLOB NOT NULL,
+        archived_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_run_archive_start_date ON run_archive(start_date);
+
+      -- Live and archived runs together, for stats over the whole history
+      CREATE VIEW IF NOT EXISTS all_runs AS
+        SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+          average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start
+        FROM runs
+        UNION ALL
+        SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+          average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start
+        FROM run_archive;
+    `)
+  },
+  {
+    version: 7,
+    name: 'soft_delete',
+    up: db => {
+      // Set when moved to the trash; trashed rows are left out of every query
+      addColumnIfMissing(db, 'runs', 'deleted_at', 'TEXT');
+      addColumnIfMissing(db, 'custom_events', 'deleted_at', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_runs_deleted_at ON runs(deleted_at);
+        CREATE INDEX IF NOT EXISTS idx_custom_events_deleted_at ON custom_events(deleted_at);
+
+        DROP VIEW IF EXISTS all_runs;
+        CREATE VIEW all_runs AS
+          SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+            average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start
+          FROM runs
+          WHERE deleted_at IS NULL
+          UNION ALL
+          SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+            average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start
+          FROM run_archive;
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'audit_log',
+    up: db => db.exec(`
+      -- One row per insert, update, trash, restore, archive or delete of a run,
+      -- parkrun result or custom event. No foreign keys: entries outlive the rows.
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity_type TEXT NOT NULL, -- 'run', 'parkrun_result' or 'custom_event'
+        entity_id INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        source TEXT NOT NULL,
+        label TEXT,
+        changes TEXT, -- JSON object of field -> { from, to }
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+    `)
+  },
+  {
+    version: 9,
+    name: 'best_efforts',
+    up: db => db.exec(`
+      -- Fastest stretch of each standard distance per run. No foreign key:
+      -- archived runs keep theirs (run_archive keeps the run id).
+      CREATE TABLE IF NOT EXISTS best_efforts (
+        run_id INTEGER NOT NULL,
+        distance_key TEXT NOT NULL, -- '400m', '1k', '1mi', '5k', '10k', 'half' or 'marathon'
+        distance REAL NOT NULL, -- meters
+        elapsed_time REAL NOT NULL, -- seconds
+        start_offset REAL, -- seconds into the run; NULL when taken from the run summary
+        source TEXT NOT NULL, -- 'streams' or 'summary'
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (run_id, distance_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_best_efforts_distance ON best_efforts(distance_key, elapsed_time);
+    `)
+  },
+  {
+    version: 10,
+    name: 'athlete_profile',
+    up: db => db.exec(`
+      -- A single row. NULL values are estimated from the runs.
+      CREATE TABLE IF NOT EXISTS athlete_profile (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        max_hr INTEGER,
+        resting_hr INTEGER,
+        threshold_hr INTEGER,
+        hr_zone_model TEXT NOT NULL DEFAULT 'percent_max', -- 'percent_max', 'karvonen' or 'lthr'
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT OR IGNORE INTO athlete_profile (id) VALUES (1);
+    `)
+  },
+  {
+    version: 11,
+    name: 'workout_types',
+    up: db => {
+      // NULL until classified; workout_type_manual marks an override by hand
+      addColumnIfMissing(db, 'runs', 'workout_type', 'TEXT');
+      addColumnIfMissing(db, 'runs', 'workout_type_manual', 'INTEGER NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'run_archive', 'workout_type', 'TEXT');
+      addColumnIfMissing(db, 'athlete_profile', 'threshold_pace', 'INTEGER'); // seconds per km
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_runs_workout_type ON runs(workout_type);
+
+        DROP VIEW IF EXISTS all_runs;
+        CREATE VIEW all_runs AS
+          SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+            average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start,
+            workout_type
+          FROM runs
+          WHERE deleted_at IS NULL
+          UNION ALL
+          SELECT id, strava_id, name, type, start_date, start_date_local, distance, moving_time, elapsed_time,
+            average_speed, max_speed, average_heartrate, max_heartrate, total_elevation_gain, latitude_start, longitude_start,
+            workout_type
+          FROM run_archive;
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'merged_strava_activities',
+    up: db => db.exec(`
+      -- Strava activities of runs merged into another one, so syncs and imports
+      -- don't bring them back. No foreign key: the record outlives the kept run
+      -- being archived.
+      CREATE TABLE IF NOT EXISTS merged_strava_activities (
+        strava_id INTEGER PRIMARY KEY,
+        run_id INTEGER NOT NULL, -- the run it was merged into
+        merged_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `)
+  },
+  {
+    version: 13,
+    name: 'runs_edited_fields',
+    // JSON array of the columns edited by hand, which Strava syncs leave alone
+    up: db => addColumnIfMissing(db, 'runs', 'edited_fields', 'TEXT')
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+function hasMigrationsTable(db: Database.Database): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get() !== undefined;
+}
+
+// 0 for a new database, or one created before migrations were tracked
+export function getSchemaVersion(db: Database.Database): number {
+  if (!hasMigrationsTable(db)) return 0;
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function getPendingMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const current = getSchemaVersion(db);
+  return migrations.filter(m => m.version > current).sort((a, b) => a.version - b.version);
+}
+
+// Apply every pending migration in one transaction: a failure leaves the
+// database exactly as it was. Returns the migrations applied.
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const pending = getPendingMigrations(db, migrations);
+  if (pending.length === 0) return [];
+
+  ensureMigrationsTable(db);
+  const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+  db.transaction(() => {
+    for (const migration of pending) {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    }
+  })();
+
+  return pending;
+}
@@ -0,0 +1,315 @@
+import { Readable } from 'stream';
+import { ParsedActivity, TrackPoint } from '../../models/database.types';
+import { buildRunFromTrack } from './track.utils';
+
+// export.xml holds every sample the phone ever recorded and easily runs to
+// several GB, far beyond what cheerio (or a JS string) can hold. It is read as
+// a stream of tags instead; Apple escapes '<' and '>' inside attribute values,
+// so a tag never contains either.
+const TAG_PATTERN = /<[^<>]*>/g;
+const ATTRIBUTE_PATTERN = /([\w:]+)="([^"]*)"/g;
+
+export const RUNNING_WORKOUT_TYPE = 'HKWorkoutActivityTypeRunning';
+const HEART_RATE_TYPE = 'HKQuantityTypeIdentifierHeartRate';
+const DISTANCE_TYPE = 'HKQuantityTypeIdentifierDistanceWalkingRunning';
+
+// A route point takes the latest heart rate sample at most this old
+const MAX_HEART_RATE_AGE_MS = 30 * 1000;
+
+export interface HealthWorkout {
+  activityType: string;
+  start: Date;
+  end: Date;
+  startLocal: string; // wall-clock time on the watch, without offset
+  duration: number | null; // seconds, excludes pauses
+  distance: number | null; // meters
+  averageHeartrate: number | null;
+  maxHeartrate: number | null;
+  elevationGain: number | null; // meters
+  indoor: boolean;
+  sourceName: string | null;
+  routePath: string | null; // e.g. '/workout-routes/route_2023-01-01_8.31am.gpx'
+}
+
+export interface HeartRateSample {
+  time: Date;
+  bpm: number;
+}
+
+// Calls onTag for every tag in the stream, in document order
+async function forEachTag(input: Readable, onTag: (tag: string) => void): Promise<void> {
+  input.setEncoding('utf-8');
+  let rest = '';
+  for await (const chunk of input) {
+    const text = rest + chunk;
+    let end = 0;
+    TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TAG_PATTERN.exec(text)) !== null) {
+      onTag(match[0]);
+      end = TAG_PATTERN.lastIndex;
+    }
+    // Keep a tag cut off by the chunk boundary for the next round
+    const open = text.indexOf('<', end);
+    rest = open >= 0 ? text.slice(open) : '';
+  }
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(tag)) !== null) {
+    attrs[match[1]] = decodeEntities(match[2]);
+  }
+  return attrs;
+}
+
+function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// '2023-01-01 08:00:00 +0100' -> the instant, plus '2023-01-01T08:00:00' as local time
+function parseHealthDate(value: string | undefined): { date: Date; local: string } | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return isNaN(date.getTime()) ? null : { date, local: `${match[1]}T${match[2]}` };
+}
+
+function toSeconds(value: number, unit: string | undefined): number {
+  switch (unit) {
+    case 'hr': return value * 3600;
+    case 's': return value;
+    default: return value * 60; // 'min', what every export so far uses
+  }
+}
+
+function toMeters(value: number, unit: string | undefined): number | null {
+  switch (unit) {
+    case 'km': return value * 1000;
+    case 'm': return value;
+    case 'mi': return value * 1609.344;
+    case 'yd': return value * 0.9144;
+    case 'cm': return value / 100;
+    case 'ft': return value * 0.3048;
+    default: return null;
+  }
+}
+
+function number(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// All workouts in export.xml, any activity type. Distance and heart rate come
+// from the <Workout> attributes (older exports) or its <WorkoutStatistics>
+// children (iOS 16 and later).
+export async function scanHealthWorkouts(input: Readable): Promise<HealthWorkout[]> {
+  const workouts: HealthWorkout[] = [];
+  let current: HealthWorkout | null = null;
+
+  const finish = () => {
+    if (current) workouts.push(current);
+    current = null;
+  };
+
+  await forEachTag(input, tag => {
+    if (tag.startsWith('<Workout ')) {
+      const attrs = attributes(tag);
+      const start = parseHealthDate(attrs.startDate);
+      const end = parseHealthDate(attrs.endDate);
+      if (!start || !end) return;
+
+      const duration = number(attrs.duration);
+      const distance = number(attrs.totalDistance);
+      current = {
+        activityType: attrs.workoutActivityType || '',
+        start: start.date,
+        end: end.date,
+        startLocal: start.local,
+        duration: duration !== null ? toSeconds(duration, attrs.durationUnit) : null,
+        distance: distance !== null ? toMeters(distance, attrs.totalDistanceUnit) : null,
+        averageHeartrate: null,
+        maxHeartrate: null,
+        elevationGain: null,
+        indoor: false,
+        sourceName: attrs.sourceName || null,
+        routePath: null
+      };
+      if (tag.endsWith('/>')) finish();
+      return;
+    }
+
+    if (!current) return;
+    const workout: HealthWorkout = current;
+
+    if (tag === '</Workout>') {
+      finish();
+    } else if (tag.startsWith('<WorkoutStatistics ')) {
+      const attrs = attributes(tag);
+      if (attrs.type === DISTANCE_TYPE && workout.distance === null) {
+        const sum = number(attrs.sum);
+        workout.distance = sum !== null ? toMeters(sum, attrs.unit) : null;
+      } else if (attrs.type === HEART_RATE_TYPE) {
+        workout.averageHeartrate = number(attrs.average);
+        workout.maxHeartrate = number(attrs.maximum);
+      }
+    } else if (tag.startsWith('<MetadataEntry ')) {
+      const attrs = attributes(tag);
+      if (attrs.key === 'HKIndoorWorkout') {
+        workout.indoor = attrs.value === '1';
+      } else if (attrs.key === 'HKElevationAscended') {
+        // e.g. '4520 cm'
+        const [value, unit] = (attrs.value || '').split(' ');
+        const amount = number(value);
+        workout.elevationGain = amount !== null ? toMeters(amount, unit) : null;
+      }
+    } else if (tag.startsWith('<FileReference ')) {
+      workout.routePath = attributes(tag).path || null;
+    }
+  });
+
+  return workouts;
+}
+
+// Heart rate samples falling inside each workout, one list per workout in
+// the order given
+export async function scanHeartRate(input: Readable, workouts: HealthWorkout[]): Promise<HeartRateSample[][]> {
+  const samples: HeartRateSample[][] = workouts.map(() => []);
+  const windows = workouts
+    .map((w, index) => ({ start: w.start.getTime(), end: w.end.getTime(), index }))
+    .sort((a, b) => a.start - b.start);
+  if (windows.length === 0) return samples;
+  const longest = windows.reduce((max, w) => Math.max(max, w.end - w.start), 0);
+
+  await forEachTag(input, tag => {
+    if (!tag.startsWith('<Record ') || !tag.includes(`"${HEART_RATE_TYPE}"`)) return;
+
+    const attrs = attributes(tag);
+    const time = parseHealthDate(attrs.startDate)?.date.getTime();
+    const bpm = number(attrs.value);
+    if (time === undefined || bpm === null) return;
+
+    // Last window starting at or before the sample, then back through every
+    // window that could still contain it (workouts from two apps can overlap)
+    let lo = 0;
+    let hi = windows.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (windows[mid].start <= time) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    for (let i = found; i >= 0 && windows[i].start >= time - longest; i--) {
+      if (time <= windows[i].end) {
+        samples[windows[i].index].push({ time: new Date(time), bpm });
+      }
+    }
+  });
+
+  for (const list of samples) {
+    list.sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+  return samples;
+}
+
+// Combine a workout with its route (if it has one) and heart rate samples.
+// The workout's own totals win over values derived from the route, which
+// starts only once the watch has a GPS fix.
+export function buildHealthActivity(
+  workout: HealthWorkout,
+  route: TrackPoint[],
+  heartRate: HeartRateSample[]
+): ParsedActivity {
+  const name = workout.indoor ? 'Indoor Run' : 'Outdoor Run';
+  const points = route.length > 0 ? withHeartRate(route, heartRate) : heartRate.map(sampleToPoint);
+
+  const elapsedTime = Math.round((workout.end.getTime() - workout.start.getTime()) / 1000);
+  const movingTime = Math.round(workout.duration ?? elapsedTime);
+  const trackRun = buildRunFromTrack(points, name, {
+    moving_time: movingTime,
+    ...(workout.distance !== null ? { distance: workout.distance } : {})
+  });
+  const distance = workout.distance ?? (route.length > 0 ? trackRun?.distance ?? 0 : 0);
+
+  const heartRates = heartRate.map(s => s.bpm);
+  const averageHeartrate = workout.averageHeartrate
+    ?? (heartRates.length > 0 ? Math.round((heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) * 10) / 10 : null);
+  const maxHeartrate = workout.maxHeartrate
+    ?? (heartRates.length > 0 ? heartRates.reduce((max, hr) => (hr > max ? hr : max), 0) : null);
+
+  const hasRoute = route.length > 0 && trackRun !== null;
+  return {
+    run: {
+      strava_id: null,
+      name,
+      distance,
+      moving_time: movingTime,
+      elapsed_time: elapsedTime,
+      start_date: workout.start.toISOString(),
+      start_date_local: workout.startLocal,
+      type: 'Run',
+      upload_id: null,
+      average_speed: movingTime > 0 ? distance / movingTime : null,
+      max_speed: hasRoute ? trackRun.max_speed : null,
+      average_heartrate: averageHeartrate,
+      max_heartrate: maxHeartrate,
+      total_elevation_gain: workout.elevationGain !== null
+        ? Math.round(workout.elevationGain * 10) / 10
+        : hasRoute ? trackRun.total_elevation_gain : null,
+      elev_high: hasRoute ? trackRun.elev_high : null,
+      elev_low: hasRoute ? trackRun.elev_low : null,
+      location_country: null,
+      location_state: null,
+      location_city: null,
+      latitude_start: hasRoute ? trackRun.latitude_start : null,
+      longitude_start: hasRoute ? trackRun.longitude_start : null,
+      latitude_end: hasRoute ? trackRun.latitude_end : null,
+      longitude_end: hasRoute ? trackRun.longitude_end : null,
+      polyline: hasRoute ? trackRun.polyline : null
+    },
+    points,
+    laps: []
+  };
+}
+
+// Attach the latest heart rate sample to each route point
+function withHeartRate(route: TrackPoint[], heartRate: HeartRateSample[]): TrackPoint[] {
+  let next = 0;
+  let latest: HeartRateSample | null = null;
+  return route.map(point => {
+    const time = point.time.getTime();
+    while (next < heartRate.length && heartRate[next].time.getTime() <= time) {
+      latest = heartRate[next++];
+    }
+    const fresh: HeartRateSample | null = latest !== null && time - latest.time.getTime() <= MAX_HEART_RATE_AGE_MS ? latest : null;
+    return { ...point, heartrate: point.heartrate ?? fresh?.bpm ?? null };
+  });
+}
+
+// Indoor runs have no route; the heart rate samples still make a usable stream
+function sampleToPoint(sample: HeartRateSample): TrackPoint {
+  return {
+    time: sample.time,
+    lat: null,
+    lon: null,
+    altitude: null,
+    distance: null,
+    heartrate: sample.bpm,
+    cadence: null,
+    power: null,
+    speed: null
+  };
+}
@@ -0,0 +1,116 @@
+import { decodeFit, isFitFile } from './fit.decoder';
+
+// Base types as they appear in definition messages (endian flag included)
+const UINT8 = 0x02;
+const UINT16 = 0x84;
+const UINT32 = 0x86;
+const STRING = 0x07;
+
+type Field = [num: number, size: number, baseType: number];
+
+function definition(localType: number, globalNum: number, fields: Field[], littleEndian = true): Buffer {
+  const num = Buffer.alloc(2);
+  if (littleEndian) num.writeUInt16LE(globalNum);
+  else num.writeUInt16BE(globalNum);
+  return Buffer.from([0x40 | localType, 0, littleEndian ? 0 : 1, ...num, fields.length, ...fields.flat()]);
+}
+
+function uint16(value: number, littleEndian = true): number[] {
+  const buffer = Buffer.alloc(2);
+  if (littleEndian) buffer.writeUInt16LE(value);
+  else buffer.writeUInt16BE(value);
+  return [...buffer];
+}
+
+function uint32(value: number, littleEndian = true): number[] {
+  const buffer = Buffer.alloc(4);
+  if (littleEndian) buffer.writeUInt32LE(value);
+  else buffer.writeUInt32BE(value);
+  return [...buffer];
+}
+
+// 14-byte header, the records, then the file CRC (0 = not checked)
+function fitFile(records: Buffer[], crc = 0): Buffer {
+  const data = Buffer.concat(records);
+  const header = Buffer.alloc(14);
+  header[0] = 14;
+  header[1] = 0x10;
+  header.writeUInt16LE(2132, 2);
+  header.writeUInt32LE(data.length, 4);
+  header.write('.FIT', 8, 'ascii');
+  const trailer = Buffer.alloc(2);
+  trailer.writeUInt16LE(crc);
+  return Buffer.concat([header, data, trailer]);
+}
+
+// Record (20): timestamp, heart rate, speed, distance
+const RECORD_FIELDS: Field[] = [[253, 4, UINT32], [3, 1, UINT8], [6, 2, UINT16], [5, 4, UINT32]];
+
+function record(timestamp: number, heartRate: number, speed: number, distance: number): Buffer {
+  return Buffer.from([0x00, ...uint32(timestamp), heartRate, ...uint16(speed), ...uint32(distance)]);
+}
+
+describe('isFitFile', () => {
+  it('checks the .FIT signature', () => {
+    expect(isFitFile(fitFile([]))).toBe(true);
+    expect(isFitFile(Buffer.from('<?xml version="1.0"?><gpx></gpx>'))).toBe(false);
+  });
+});
+
+describe('decodeFit', () => {
+  it('decodes a normal data message with its raw field values', () => {
+    const messages = decodeFit(fitFile([definition(0, 20, RECORD_FIELDS), record(1000, 150, 3000, 12345)]));
+
+    expect(messages).toEqual([{ num: 20, fields: { 253: 1000, 3: 150, 6: 3000, 5: 12345 } }]);
+  });
+
+  it('leaves out fields holding their base type\'s invalid value', () => {
+    const messages = decodeFit(fitFile([definition(0, 20, RECORD_FIELDS), record(1000, 0xff, 0xffff, 12345)]));
+
+    expect(messages[0].fields).toEqual({ 253: 1000, 5: 12345 });
+  });
+
+  it('reads big-endian messages and strings', () => {
+    const messages = decodeFit(fitFile([
+      definition(0, 18, [[7, 4, UINT32], [9, 2, UINT16]], false),
+      Buffer.from([0x00, ...uint32(1800000, false), ...uint16(500, false)]),
+      definition(1, 12, [[3, 8, STRING]]),
+      Buffer.from([0x01, ...Buffer.from('Run\0\0\0\0\0')])
+    ]));
+
+    expect(messages).toEqual([
+      { num: 18, fields: { 7: 1800000, 9: 500 } },
+      { num: 12, fields: { 3: 'Run' } }
+    ]);
+  });
+
+  it('resolves compressed timestamps against the last full timestamp, with rollover', () => {
+    // 1000 = 0b1111101000: its low 5 bits are 8
+    const messages = decodeFit(fitFile([
+      definition(0, 20, RECORD_FIELDS),
+      definition(1, 20, [[3, 1, UINT8]]),
+      record(1000, 140, 3000, 0),
+      Buffer.from([0x80 | (1 << 5) | 12, 145]),
+      Buffer.from([0x80 | (1 << 5) | 3, 150])
+    ]));
+
+    expect(messages.map(m => m.fields)).toEqual([
+      { 253: 1000, 3: 140, 6: 3000, 5: 0 },
+      { 253: 1004, 3: 145 },
+      { 253: 1027, 3: 150 }
+    ]);
+  });
+
+  it('decodes chained files in sequence', () => {
+    const file = fitFile([definition(0, 20, RECORD_FIELDS), record(1000, 150, 3000, 0)]);
+
+    expect(decodeFit(Buffer.concat([file, file]))).toHaveLength(2);
+  });
+
+  it('rejects data for an undefined local type, bad CRCs and truncated files', () => {
+    expect(() => decodeFit(fitFile([record(1000, 150, 3000, 0)]))).toThrow('undefined local type 0');
+    expect(() => decodeFit(fitFile([definition(0, 20, RECORD_FIELDS)], 0x1234))).toThrow('CRC mismatch');
+    expect(() => decodeFit(fitFile([definition(0, 20, RECORD_FIELDS)]).subarray(0, 20))).toThrow('truncated');
+    expect(() => decodeFit(Buffer.from('not a fit file'))).toThrow('missing .FIT signature');
+  });
+});
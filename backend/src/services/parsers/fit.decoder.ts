@@ -0,0 +1,258 @@
+// Minimal decoder for the Garmin FIT binary protocol.
+// It turns a .fit file into a flat list of messages keyed by global message
+// number, with raw (unscaled) field values keyed by field definition number.
+// Profile knowledge (which field is heart rate, scale/offset, ...) lives in fit.parser.ts.
+
+export type FitValue = number | number[] | string;
+
+export interface FitMessage {
+  num: number; // global message number, e.g. 20 = record
+  fields: Record<number, FitValue>;
+}
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  num: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+// Base type number (low 5 bits) -> byte width and the value FIT uses for "no data"
+const BASE_TYPES: Record<number, { size: number; invalid: number | bigint | null }> = {
+  0: { size: 1, invalid: 0xff }, // enum
+  1: { size: 1, invalid: 0x7f }, // sint8
+  2: { size: 1, invalid: 0xff }, // uint8
+  3: { size: 2, invalid: 0x7fff }, // sint16
+  4: { size: 2, invalid: 0xffff }, // uint16
+  5: { size: 4, invalid: 0x7fffffff }, // sint32
+  6: { size: 4, invalid: 0xffffffff }, // uint32
+  7: { size: 1, invalid: null }, // string
+  8: { size: 4, invalid: null }, // float32
+  9: { size: 8, invalid: null }, // float64
+  10: { size: 1, invalid: 0x00 }, // uint8z
+  11: { size: 2, invalid: 0x0000 }, // uint16z
+  12: { size: 4, invalid: 0x00000000 }, // uint32z
+  13: { size: 1, invalid: 0xff }, // byte
+  14: { size: 8, invalid: BigInt('0x7fffffffffffffff') }, // sint64
+  15: { size: 8, invalid: BigInt('0xffffffffffffffff') }, // uint64
+  16: { size: 8, invalid: BigInt(0) } // uint64z
+};
+
+const TIMESTAMP_FIELD = 253;
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400
+];
+
+function crc16(buffer: Buffer, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = buffer[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+export function isFitFile(buffer: Buffer): boolean {
+  return buffer.length >= 12 && buffer.toString('ascii', 8, 12) === '.FIT';
+}
+
+// Decode every message in the file. Chained FIT files (several header+data
+// blocks back to back) are decoded in sequence.
+export function decodeFit(buffer: Buffer): FitMessage[] {
+  const messages: FitMessage[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const chunk = buffer.subarray(offset);
+    if (!isFitFile(chunk)) {
+      if (offset === 0) {
+        throw new Error('Not a FIT file (missing .FIT signature)');
+      }
+      break; // trailing padding after the last chained file
+    }
+
+    const headerSize = chunk[0];
+    const dataSize = chunk.readUInt32LE(4);
+    const dataEnd = headerSize + dataSize;
+    if (dataEnd + 2 > chunk.length) {
+      throw new Error('FIT file is truncated');
+    }
+
+    const expectedCrc = chunk.readUInt16LE(dataEnd);
+    if (expectedCrc !== 0 && crc16(chunk, 0, dataEnd) !== expectedCrc) {
+      throw new Error('FIT file CRC mismatch');
+    }
+
+    for (const message of decodeRecords(chunk, headerSize, dataEnd)) {
+      messages.push(message);
+    }
+    offset += dataEnd + 2;
+  }
+
+  return messages;
+}
+
+function decodeRecords(buffer: Buffer, start: number, end: number): FitMessage[] {
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: FitMessage[] = [];
+  let lastTimestamp = 0;
+  let pos = start;
+
+  while (pos < end) {
+    const header = buffer[pos++];
+
+    // Compressed timestamp header: data message with a 5-bit time offset
+    if (header & 0x80) {
+      const localType = (header >> 5) & 0x03;
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new Error(`FIT data message for undefined local type ${localType}`);
+      }
+      const timeOffset = header & 0x1f;
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) {
+        timestamp += 0x20;
+      }
+      lastTimestamp = timestamp;
+
+      const message = readDataMessage(buffer, pos, definition);
+      message.fields[TIMESTAMP_FIELD] = timestamp;
+      messages.push(message);
+      pos += messageSize(definition);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+
+    // Definition message
+    if (header & 0x40) {
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = buffer[pos + 1] === 0;
+      const num = littleEndian ? buffer.readUInt16LE(pos + 2) : buffer.readUInt16BE(pos + 2);
+      const fieldCount = buffer[pos + 4];
+      pos += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ num: buffer[pos], size: buffer[pos + 1], baseType: buffer[pos + 2] & 0x1f });
+        pos += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = buffer[pos++];
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += buffer[pos + 1];
+          pos += 3;
+        }
+      }
+
+      definitions.set(localType, { num, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    // Normal data message
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`FIT data message for undefined local type ${localType}`);
+    }
+    const message = readDataMessage(buffer, pos, definition);
+    const timestamp = message.fields[TIMESTAMP_FIELD];
+    if (typeof timestamp === 'number') {
+      lastTimestamp = timestamp;
+    }
+    messages.push(message);
+    pos += messageSize(definition);
+  }
+
+  return messages;
+}
+
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, f) => sum + f.size, 0) + definition.developerDataSize;
+}
+
+function readDataMessage(buffer: Buffer, start: number, definition: MessageDefinition): FitMessage {
+  const fields: Record<number, FitValue> = {};
+  let pos = start;
+
+  for (const field of definition.fields) {
+    const value = readField(buffer, pos, field, definition.littleEndian);
+    if (value !== null) {
+      fields[field.num] = value;
+    }
+    pos += field.size;
+  }
+
+  // Developer fields are skipped; their layout needs field_description messages
+  return { num: definition.num, fields };
+}
+
+function readField(buffer: Buffer, pos: number, field: FieldDefinition, littleEndian: boolean): FitValue | null {
+  const baseType = BASE_TYPES[field.baseType];
+  if (!baseType) {
+    return null;
+  }
+
+  if (field.baseType === 7) {
+    const raw = buffer.toString('utf-8', pos, pos + field.size);
+    const nul = raw.indexOf('\0');
+    const text = nul >= 0 ? raw.slice(0, nul) : raw;
+    return text.length > 0 ? text : null;
+  }
+
+  const count = Math.floor(field.size / baseType.size);
+  if (count === 0) {
+    return null;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = readScalar(buffer, pos + i * baseType.size, field.baseType, littleEndian);
+    if (value !== null) {
+      values.push(value);
+    }
+  }
+
+  if (values.length === 0) return null;
+  return count === 1 ? values[0] : values;
+}
+
+function readScalar(buffer: Buffer, pos: number, baseType: number, le: boolean): number | null {
+  let value: number | bigint;
+  switch (baseType) {
+    case 0: case 2: case 10: case 13: value = buffer.readUInt8(pos); break;
+    case 1: value = buffer.readInt8(pos); break;
+    case 3: value = le ? buffer.readInt16LE(pos) : buffer.readInt16BE(pos); break;
+    case 4: case 11: value = le ? buffer.readUInt16LE(pos) : buffer.readUInt16BE(pos); break;
+    case 5: value = le ? buffer.readInt32LE(pos) : buffer.readInt32BE(pos); break;
+    case 6: case 12: value = le ? buffer.readUInt32LE(pos) : buffer.readUInt32BE(pos); break;
+    case 8: value = le ? buffer.readFloatLE(pos) : buffer.readFloatBE(pos); break;
+    case 9: value = le ? buffer.readDoubleLE(pos) : buffer.readDoubleBE(pos); break;
+    case 14: value = le ? buffer.readBigInt64LE(pos) : buffer.readBigInt64BE(pos); break;
+    case 15: case 16: value = le ? buffer.readBigUInt64LE(pos) : buffer.readBigUInt64BE(pos); break;
+    default: return null;
+  }
+
+  const invalid = BASE_TYPES[baseType].invalid;
+  if (invalid !== null && value === invalid) {
+    return null;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return null;
+  }
+  return Number(value);
+}
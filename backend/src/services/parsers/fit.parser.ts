@@ -0,0 +1,193 @@
+import { ParsedActivity, ParsedLap, Run, TrackPoint } from '../../models/database.types';
+import { decodeFit, FitMessage, FitValue } from './fit.decoder';
+import { UnsupportedSportError, buildRunFromTrack } from './track.utils';
+
+// Global message numbers from the FIT profile
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const SPORT_GENERIC = 0;
+const SPORT_RUNNING = 1;
+// Names of common other sports, for the skip reason
+const SPORT_NAMES: Record<number, string> = {
+  2: 'Cycling', 4: 'Fitness equipment', 5: 'Swimming', 10: 'Training', 11: 'Walking',
+  12: 'Cross country skiing', 13: 'Alpine skiing', 15: 'Rowing', 17: 'Hiking'
+};
+const SUB_SPORTS: Record<number, string> = { 3: 'TrailRun', 58: 'VirtualRun' };
+const LAP_INTENSITIES = ['active', 'rest', 'warmup', 'cooldown', 'recovery', 'interval', 'other'];
+const LAP_TRIGGERS = [
+  'manual', 'time', 'distance', 'position_start', 'position_lap',
+  'position_waypoint', 'position_marked', 'session_end', 'fitness_equipment'
+];
+
+// Field definition numbers used below, per message
+const TIMESTAMP = 253;
+const RECORD = {
+  lat: 0, lon: 1, altitude: 2, heartrate: 3, cadence: 4, distance: 5, speed: 6, power: 7,
+  enhancedSpeed: 73, enhancedAltitude: 78
+};
+const SESSION = {
+  startTime: 2, startLat: 3, startLon: 4, sport: 5, subSport: 6, elapsedTime: 7, timerTime: 8,
+  distance: 9, avgSpeed: 14, maxSpeed: 15, avgHeartrate: 16, maxHeartrate: 17, totalAscent: 22,
+  enhancedAvgSpeed: 124, enhancedMaxSpeed: 125, enhancedMinAltitude: 127, enhancedMaxAltitude: 128
+};
+const LAP = {
+  startTime: 2, elapsedTime: 7, timerTime: 8, distance: 9, avgSpeed: 13, maxSpeed: 14,
+  avgHeartrate: 15, maxHeartrate: 16, avgCadence: 17, totalAscent: 21, intensity: 23, trigger: 24,
+  enhancedAvgSpeed: 110, enhancedMaxSpeed: 111
+};
+
+export function parseFIT(buffer: Buffer, name: string): ParsedActivity | null {
+  try {
+    const messages = decodeFit(buffer);
+    const session = messages.find(m => m.num === MESG_SESSION) || null;
+    const points = messages
+      .filter(m => m.num === MESG_RECORD)
+      .map(parseRecord)
+      .filter((p): p is TrackPoint => p !== null);
+    const laps = messages
+      .filter(m => m.num === MESG_LAP)
+      .map((m, index) => parseLap(m, index));
+
+    const run = session ? buildRunFromSession(session, points, name) : buildRunFromTrack(points, name);
+    if (!run) {
+      return null;
+    }
+
+    return { run, points, laps };
+  } catch (error) {
+    if (error instanceof UnsupportedSportError) throw error;
+    console.error('FIT parse error:', error);
+    return null;
+  }
+}
+
+function num(fields: Record<number, FitValue>, field: number): number | null {
+  const value = fields[field];
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return null;
+}
+
+function scaled(fields: Record<number, FitValue>, field: number, scale: number, offset: number = 0): number | null {
+  const value = num(fields, field);
+  return value === null ? null : value / scale - offset;
+}
+
+function fitDate(value: number | null): Date | null {
+  return value === null ? null : new Date((value + FIT_EPOCH_OFFSET) * 1000);
+}
+
+function semicircles(value: number | null): number | null {
+  return value === null ? null : value * SEMICIRCLES_TO_DEGREES;
+}
+
+function parseRecord(message: FitMessage): TrackPoint | null {
+  const f = message.fields;
+  const time = fitDate(num(f, TIMESTAMP));
+  if (!time) {
+    return null;
+  }
+
+  return {
+    time,
+    lat: semicircles(num(f, RECORD.lat)),
+    lon: semicircles(num(f, RECORD.lon)),
+    altitude: scaled(f, RECORD.enhancedAltitude, 5, 500) ?? scaled(f, RECORD.altitude, 5, 500),
+    distance: scaled(f, RECORD.distance, 100),
+    heartrate: num(f, RECORD.heartrate),
+    cadence: num(f, RECORD.cadence),
+    power: num(f, RECORD.power),
+    speed: scaled(f, RECORD.enhancedSpeed, 1000) ?? scaled(f, RECORD.speed, 1000)
+  };
+}
+
+function parseLap(message: FitMessage, index: number): ParsedLap {
+  const f = message.fields;
+  const startTime = fitDate(num(f, LAP.startTime)) ?? fitDate(num(f, TIMESTAMP));
+  const intensity = num(f, LAP.intensity);
+  const trigger = num(f, LAP.trigger);
+
+  return {
+    lap_index: index,
+    start_date: (startTime ?? new Date(0)).toISOString(),
+    elapsed_time: Math.round(scaled(f, LAP.elapsedTime, 1000) ?? 0),
+    moving_time: Math.round(scaled(f, LAP.timerTime, 1000) ?? 0),
+    distance: scaled(f, LAP.distance, 100) ?? 0,
+    average_speed: scaled(f, LAP.enhancedAvgSpeed, 1000) ?? scaled(f, LAP.avgSpeed, 1000),
+    max_speed: scaled(f, LAP.enhancedMaxSpeed, 1000) ?? scaled(f, LAP.maxSpeed, 1000),
+    average_heartrate: num(f, LAP.avgHeartrate),
+    max_heartrate: num(f, LAP.maxHeartrate),
+    average_cadence: num(f, LAP.avgCadence),
+    total_elevation_gain: num(f, LAP.totalAscent),
+    intensity: intensity !== null ? LAP_INTENSITIES[intensity] ?? null : null,
+    trigger: trigger !== null ? LAP_TRIGGERS[trigger] ?? null : null
+  };
+}
+
+// The session message carries the watch's own totals; track points fill in
+// whatever it leaves out (route, elevation range, end position).
+function buildRunFromSession(
+  session: FitMessage,
+  points: TrackPoint[],
+  name: string
+): Omit<Run, 'id' | 'created_at' | 'updated_at'> | null {
+  const f = session.fields;
+  const sport = num(f, SESSION.sport);
+  if (sport !== null && sport !== SPORT_RUNNING && sport !== SPORT_GENERIC) {
+    throw new UnsupportedSportError(SPORT_NAMES[sport] ?? `Sport ${sport}`);
+  }
+
+  const startTime = fitDate(num(f, SESSION.startTime)) ?? points[0]?.time ?? null;
+  if (!startTime) {
+    return null;
+  }
+
+  const distance = scaled(f, SESSION.distance, 100);
+  const movingTime = scaled(f, SESSION.timerTime, 1000);
+  const maxSpeed = scaled(f, SESSION.enhancedMaxSpeed, 1000) ?? scaled(f, SESSION.maxSpeed, 1000);
+  const fromTrack = buildRunFromTrack(points, name, {
+    ...(distance !== null && { distance }),
+    ...(movingTime !== null && { moving_time: movingTime }),
+    ...(maxSpeed !== null && { max_speed: maxSpeed })
+  });
+
+  const subSport = num(f, SESSION.subSport);
+
+  const elapsedTime = scaled(f, SESSION.elapsedTime, 1000);
+  const averageSpeed = scaled(f, SESSION.enhancedAvgSpeed, 1000) ?? scaled(f, SESSION.avgSpeed, 1000);
+  const startLat = semicircles(num(f, SESSION.startLat));
+  const startLon = semicircles(num(f, SESSION.startLon));
+
+  return {
+    strava_id: null,
+    name,
+    distance: distance ?? fromTrack?.distance ?? 0,
+    moving_time: Math.round(movingTime ?? fromTrack?.moving_time ?? 0),
+    elapsed_time: Math.round(elapsedTime ?? fromTrack?.elapsed_time ?? 0),
+    start_date: startTime.toISOString(),
+    start_date_local: startTime.toISOString().replace('Z', ''),
+    type: (subSport !== null && SUB_SPORTS[subSport]) || 'Run',
+    upload_id: null,
+    average_speed: averageSpeed ?? fromTrack?.average_speed ?? null,
+    max_speed: maxSpeed ?? fromTrack?.max_speed ?? null,
+    average_heartrate: num(f, SESSION.avgHeartrate) ?? fromTrack?.average_heartrate ?? null,
+    max_heartrate: num(f, SESSION.maxHeartrate) ?? fromTrack?.max_heartrate ?? null,
+    total_elevation_gain: num(f, SESSION.totalAscent) ?? fromTrack?.total_elevation_gain ?? null,
+    elev_high: scaled(f, SESSION.enhancedMaxAltitude, 5, 500) ?? fromTrack?.elev_high ?? null,
+    elev_low: scaled(f, SESSION.enhancedMinAltitude, 5, 500) ?? fromTrack?.elev_low ?? null,
+    location_country: null,
+    location_state: null,
+    location_city: null,
+    latitude_start: startLat ?? fromTrack?.latitude_start ?? null,
+    longitude_start: startLon ?? fromTrack?.longitude_start ?? null,
+    latitude_end: fromTrack?.latitude_end ?? null,
+    longitude_end: fromTrack?.longitude_end ?? null,
+    polyline: fromTrack?.polyline ?? null
+  };
+}
@@ -0,0 +1,76 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { ParsedActivity, TrackPoint } from '../../models/database.types';
+import { buildRunFromTrack } from './track.utils';
+import { childNumber, childText, descendantNumber, findChild, findChildren } from './xml.utils';
+
+// GPX 1.1 parser. All <trk> and <trkseg> elements are merged into one track
+// in time order; gaps between segments are picked up by pause detection.
+export function parseGPX(gpxString: string, name: string): ParsedActivity | null {
+  try {
+    const $ = cheerio.load(gpxString, { xml: true });
+    const root = $('gpx').get(0);
+    if (!root) {
+      return null;
+    }
+
+    const points: TrackPoint[] = [];
+    for (const track of findChildren(root, 'trk')) {
+      for (const segment of findChildren(track, 'trkseg')) {
+        for (const trkpt of findChildren(segment, 'trkpt')) {
+          const point = parseTrackPoint(trkpt);
+          if (point) points.push(point);
+        }
+      }
+    }
+
+    // Tracks are not guaranteed to be written in chronological order
+    points.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    const run = buildRunFromTrack(points, name);
+    if (!run) {
+      return null;
+    }
+
+    return { run, points, laps: [] };
+  } catch (error) {
+    console.error('GPX parse error:', error);
+    return null;
+  }
+}
+
+function parseTrackPoint(el: Element): TrackPoint | null {
+  const timeText = childText(el, 'time');
+  const time = timeText ? new Date(timeText) : null;
+  // Points without a timestamp (planned routes) can't contribute to pace or time
+  if (!time || isNaN(time.getTime())) {
+    return null;
+  }
+
+  const lat = parseFloat(el.attribs.lat);
+  const lon = parseFloat(el.attribs.lon);
+  const extensions = findChild(el, 'extensions');
+
+  // Garmin TrackPointExtension (gpxtpx:hr, gpxtpx:cad) and the bare
+  // <heartrate>/<cadence>/<power> tags written by Strava and others
+  const ext = (...names: string[]): number | null => {
+    if (!extensions) return null;
+    for (const extName of names) {
+      const value = descendantNumber(extensions, extName);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  return {
+    time,
+    lat: Number.isFinite(lat) ? lat : null,
+    lon: Number.isFinite(lon) ? lon : null,
+    altitude: childNumber(el, 'ele'),
+    distance: null,
+    heartrate: ext('hr', 'heartrate'),
+    cadence: ext('cad', 'cadence'),
+    power: ext('power', 'watts'),
+    speed: ext('speed')
+  };
+}
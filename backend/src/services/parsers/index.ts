@@ -0,0 +1,41 @@
+import path from 'path';
+import zlib from 'zlib';
+import { ParsedActivity } from '../../models/database.types';
+import { parseFIT } from './fit.parser';
+import { parseGPX } from './gpx.parser';
+import { parseTCX } from './tcx.parser';
+
+export const SUPPORTED_ACTIVITY_EXTENSIONS = ['.gpx', '.tcx', '.fit'];
+
+// Extension of an activity file, ignoring a trailing .gz (e.g. '1234.fit.gz' -> '.fit')
+export function activityFileExtension(fileName: string): string {
+  const lower = fileName.toLowerCase();
+  const base = lower.endsWith('.gz') ? lower.slice(0, -3) : lower;
+  return path.extname(base);
+}
+
+export function isSupportedActivityFile(fileName: string): boolean {
+  return SUPPORTED_ACTIVITY_EXTENSIONS.includes(activityFileExtension(fileName));
+}
+
+// Parse a GPX, TCX or FIT file, gzipped or not. Returns null when the file
+// can't be parsed; throws for unsupported extensions, corrupt gzip data or
+// another sport than running (UnsupportedSportError).
+export function parseActivityFile(fileName: string, buffer: Buffer, name: string): ParsedActivity | null {
+  const extension = activityFileExtension(fileName);
+  if (!SUPPORTED_ACTIVITY_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file format: ${path.basename(fileName)}`);
+  }
+
+  const data = fileName.toLowerCase().endsWith('.gz') ? zlib.gunzipSync(buffer) : buffer;
+
+  switch (extension) {
+    case '.gpx':
+      // Strava's exported GPX/TCX files sometimes start with whitespace before the XML declaration
+      return parseGPX(data.toString('utf-8').trimStart(), name);
+    case '.tcx':
+      return parseTCX(data.toString('utf-8').trimStart(), name);
+    default:
+      return parseFIT(data, name);
+  }
+}
@@ -0,0 +1,97 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { ParsedActivity } from '../../models/database.types';
+import { parseActivityFile } from './index';
+import { UnsupportedSportError } from './track.utils';
+
+export interface ParseJob {
+  fileName: string;
+  buffer: Buffer;
+  name: string;
+}
+
+export interface ParseOutcome {
+  parsed: ParsedActivity | null;
+  error: string | null;
+  skipped: boolean; // another sport than running (see UnsupportedSportError)
+}
+
+// Leave a core for the HTTP server; FIT decoding of a season's files is CPU bound
+export const DEFAULT_PARSE_WORKERS = Math.max(1, Math.min(4, os.cpus().length - 1));
+
+// Under ts-node (npm run dev) the worker is a .ts file and needs the TS loader
+function workerFile(): { file: string; execArgv: string[] } {
+  const isTs = path.extname(__filename) === '.ts';
+  return {
+    file: path.join(__dirname, `parse.worker${isTs ? '.ts' : '.js'}`),
+    execArgv: isTs ? ['-r', 'ts-node/register/transpile-only'] : []
+  };
+}
+
+// Parse files on at most `size` worker threads. Each worker takes the next
+// job from a shared queue when it finishes one, so one huge file doesn't hold
+// up the rest. Results come back in job order. If workers can't be started,
+// files are parsed inline instead.
+export async function parseInPool(jobs: ParseJob[], size: number = DEFAULT_PARSE_WORKERS): Promise<ParseOutcome[]> {
+  const outcomes: ParseOutcome[] = new Array(jobs.length);
+  let next = 0;
+
+  const runWorker = (): Promise<void> => new Promise((resolve, reject) => {
+    const { file, execArgv } = workerFile();
+    const worker = new Worker(file, { execArgv });
+    let current = -1;
+    let finished = false;
+
+    const dispatch = () => {
+      if (next >= jobs.length) {
+        finished = true;
+        worker.terminate().then(() => resolve(), reject);
+        return;
+      }
+      current = next++;
+      const job = jobs[current];
+      worker.postMessage({ id: current, fileName: job.fileName, data: job.buffer, name: job.name });
+    };
+
+    worker.on('message', (message: ParseOutcome & { id: number }) => {
+      outcomes[message.id] = { parsed: message.parsed, error: message.error, skipped: message.skipped };
+      dispatch();
+    });
+    worker.on('error', error => {
+      // The job in flight is lost with the worker; record it and let the other workers carry on
+      if (current >= 0 && !outcomes[current]) {
+        outcomes[current] = { parsed: null, error: `Parser crashed: ${error.message}`, skipped: false };
+      }
+      reject(error);
+    });
+    worker.on('exit', code => {
+      // terminate() also exits with code 1
+      if (!finished) reject(new Error(`Parse worker exited with code ${code}`));
+    });
+    worker.on('online', dispatch);
+  });
+
+  const workerCount = Math.max(1, Math.min(size, jobs.length));
+  const results = await Promise.allSettled(Array.from({ length: workerCount }, runWorker));
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failures.length > 0) {
+    console.error('[Upload] Parse worker failed:', failures[0].reason);
+  }
+
+  // Anything left over (all workers died, or none could start) is parsed here
+  for (let i = 0; i < jobs.length; i++) {
+    if (!outcomes[i]) {
+      outcomes[i] = parseInline(jobs[i]);
+    }
+  }
+  return outcomes;
+}
+
+function parseInline(job: ParseJob): ParseOutcome {
+  try {
+    return { parsed: parseActivityFile(job.fileName, job.buffer, job.name), error: null, skipped: false };
+  } catch (error: any) {
+    return { parsed: null, error: error.message, skipped: error instanceof UnsupportedSportError };
+  }
+}
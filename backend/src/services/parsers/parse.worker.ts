@@ -0,0 +1,15 @@
+import { parentPort } from 'worker_threads';
+import { parseActivityFile } from './index';
+import { UnsupportedSportError } from './track.utils';
+
+// Worker side of the parse pool: parses one file per message
+parentPort?.on('message', (job: { id: number; fileName: string; data: Uint8Array; name: string }) => {
+  try {
+    const buffer = Buffer.from(job.data.buffer, job.data.byteOffset, job.data.byteLength);
+    const parsed = parseActivityFile(job.fileName, buffer, job.name);
+    parentPort?.postMessage({ id: job.id, parsed, error: null, skipped: false });
+  } catch (error: any) {
+    // Error classes don't survive postMessage, so the skip is flagged here
+    parentPort?.postMessage({ id: job.id, parsed: null, error: error.message, skipped: error instanceof UnsupportedSportError });
+  }
+});
@@ -0,0 +1,124 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { ParsedActivity, ParsedLap, TrackPoint } from '../../models/database.types';
+import { UnsupportedSportError, buildRunFromTrack, cumulativeDistances, elevationGain, smoothAltitudes } from './track.utils';
+import { childNumber, childText, descendantNumber, findChild, findChildren, findDescendants } from './xml.utils';
+
+// Garmin Training Center (TCX) parser.
+// Layout: TrainingCenterDatabase > Activities > Activity > Lap* > Track* > Trackpoint*
+export function parseTCX(tcxString: string, name: string): ParsedActivity | null {
+  const $ = cheerio.load(tcxString, { xml: true });
+  const activity = $('Activity').get(0);
+  if (!activity) {
+    return null;
+  }
+  const sport = activity.attribs.Sport;
+  if (sport && sport !== 'Running' && sport !== 'Other') {
+    throw new UnsupportedSportError(sport);
+  }
+
+  const points: TrackPoint[] = [];
+  const laps: ParsedLap[] = [];
+  let lapMovingTime = 0;
+  let lapDistance = 0;
+  let lapMaxSpeed = 0;
+
+  findChildren(activity, 'Lap').forEach((lapEl, index) => {
+    const lapPoints = findDescendants(lapEl, 'Trackpoint')
+      .map(parseTrackpoint)
+      .filter((p): p is TrackPoint => p !== null);
+    for (const point of lapPoints) {
+      points.push(point);
+    }
+
+    const lap = parseLap(lapEl, index, lapPoints);
+    laps.push(lap);
+    lapMovingTime += lap.moving_time;
+    lapDistance += lap.distance;
+    if (lap.max_speed !== null && lap.max_speed > lapMaxSpeed) {
+      lapMaxSpeed = lap.max_speed;
+    }
+  });
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  // Lap totals come from the device's timer, so they already exclude auto-pause
+  const run = buildRunFromTrack(points, name, {
+    ...(lapMovingTime > 0 && { moving_time: lapMovingTime }),
+    ...(lapDistance > 0 && { distance: lapDistance }),
+    ...(lapMaxSpeed > 0 && { max_speed: lapMaxSpeed })
+  });
+  if (!run) {
+    return null;
+  }
+
+  return { run, points, laps };
+}
+
+function parseTrackpoint(el: Element): TrackPoint | null {
+  const timeText = childText(el, 'Time');
+  const time = timeText ? new Date(timeText) : null;
+  if (!time || isNaN(time.getTime())) {
+    return null;
+  }
+
+  const position = findChild(el, 'Position');
+  const heartRate = findChild(el, 'HeartRateBpm');
+  const extensions = findChild(el, 'Extensions');
+
+  return {
+    time,
+    lat: position ? childNumber(position, 'LatitudeDegrees') : null,
+    lon: position ? childNumber(position, 'LongitudeDegrees') : null,
+    altitude: childNumber(el, 'AltitudeMeters'),
+    distance: childNumber(el, 'DistanceMeters'),
+    heartrate: heartRate ? childNumber(heartRate, 'Value') : null,
+    // <Cadence> is the bike field; running watches write RunCadence in the TPX extension
+    cadence: (extensions ? descendantNumber(extensions, 'RunCadence') : null) ?? childNumber(el, 'Cadence'),
+    power: extensions ? descendantNumber(extensions, 'Watts') : null,
+    speed: extensions ? descendantNumber(extensions, 'Speed') : null
+  };
+}
+
+function parseLap(el: Element, index: number, points: TrackPoint[]): ParsedLap {
+  const startTime = el.attribs.StartTime ? new Date(el.attribs.StartTime) : points[0]?.time;
+  const movingTime = childNumber(el, 'TotalTimeSeconds') ?? 0;
+  const distance = childNumber(el, 'DistanceMeters') ?? lapDistanceFromPoints(points);
+  const averageHr = findChild(el, 'AverageHeartRateBpm');
+  const maxHr = findChild(el, 'MaximumHeartRateBpm');
+  const extensions = findChild(el, 'Extensions');
+
+  const lastTime = points[points.length - 1]?.time;
+  const elapsedTime = startTime && lastTime
+    ? Math.max(movingTime, (lastTime.getTime() - startTime.getTime()) / 1000)
+    : movingTime;
+
+  const altitudes = smoothAltitudes(points.map(p => p.altitude).filter((a): a is number => a !== null));
+
+  return {
+    lap_index: index,
+    start_date: (startTime && !isNaN(startTime.getTime()) ? startTime : new Date(0)).toISOString(),
+    elapsed_time: Math.round(elapsedTime),
+    moving_time: Math.round(movingTime),
+    distance,
+    average_speed: (extensions ? descendantNumber(extensions, 'AvgSpeed') : null)
+      ?? (movingTime > 0 ? distance / movingTime : null),
+    max_speed: childNumber(el, 'MaximumSpeed'),
+    average_heartrate: averageHr ? childNumber(averageHr, 'Value') : null,
+    max_heartrate: maxHr ? childNumber(maxHr, 'Value') : null,
+    average_cadence: (extensions ? descendantNumber(extensions, 'AvgRunCadence') : null) ?? childNumber(el, 'Cadence'),
+    total_elevation_gain: altitudes.length > 0 ? Math.round(elevationGain(altitudes) * 10) / 10 : null,
+    intensity: childText(el, 'Intensity')?.toLowerCase() ?? null,
+    trigger: childText(el, 'TriggerMethod')?.toLowerCase() ?? null
+  };
+}
+
+function lapDistanceFromPoints(points: TrackPoint[]): number {
+  const distances = cumulativeDistances(points);
+  if (distances.length === 0) return 0;
+  // Device distances are cumulative over the whole activity, so take the span
+  const first = points[0].distance !== null ? points[0].distance : 0;
+  return distances[distances.length - 1] - first;
+}
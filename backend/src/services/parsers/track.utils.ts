@@ -0,0 +1,211 @@
+import polyline from 'polyline';
+import { Run, TrackPoint } from '../../models/database.types';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Below this speed between two samples the runner is treated as stopped (m/s)
+const MIN_MOVING_SPEED = 0.5;
+// GPS altitude is noisy: smooth over this many samples, then ignore wiggles under the threshold (m)
+const ELEVATION_SMOOTHING_WINDOW = 5;
+const ELEVATION_THRESHOLD = 1;
+// Max speed is measured over at least this many seconds so single GPS jumps don't count
+const MAX_SPEED_WINDOW_SECONDS = 10;
+
+// Thrown for a file recording another sport than running. Importers report
+// the file as skipped, like non-run activities in archives.
+export class UnsupportedSportError extends Error {
+  constructor(sport: string) {
+    super(`${sport} activity`);
+    this.name = 'UnsupportedSportError';
+  }
+}
+
+// Totals reported by the file itself (e.g. TCX lap summaries), preferred over derived values
+export interface TrackTotals {
+  distance?: number;
+  moving_time?: number;
+  max_speed?: number;
+}
+
+// Math.max(...values) overflows the call stack on long, densely sampled tracks
+function maxOf(values: number[]): number {
+  return values.reduce((max, v) => (v > max ? v : max), -Infinity);
+}
+
+function minOf(values: number[]): number {
+  return values.reduce((min, v) => (v < min ? v : min), Infinity);
+}
+
+// Great-circle distance between two coordinates in meters
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+// Cumulative distance at each point. Uses the device-recorded distance when the
+// file has one (it is usually footpod/GPS-filtered), otherwise sums coordinates.
+export function cumulativeDistances(points: TrackPoint[]): number[] {
+  const hasDeviceDistance = points.some(p => p.distance !== null);
+  const distances: number[] = [];
+  let total = 0;
+  let previous: TrackPoint | null = null;
+
+  for (const point of points) {
+    if (hasDeviceDistance) {
+      if (point.distance !== null && point.distance > total) {
+        total = point.distance;
+      }
+    } else if (point.lat !== null && point.lon !== null) {
+      if (previous && previous.lat !== null && previous.lon !== null) {
+        total += haversineDistance(previous.lat, previous.lon, point.lat, point.lon);
+      }
+      previous = point;
+    }
+    distances.push(total);
+  }
+
+  return distances;
+}
+
+// Centered moving average of the altitude samples
+export function smoothAltitudes(altitudes: number[], window: number = ELEVATION_SMOOTHING_WINDOW): number[] {
+  const half = Math.floor(window / 2);
+  return altitudes.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(altitudes.length - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += altitudes[j];
+    return sum / (to - from + 1);
+  });
+}
+
+// Total climb with hysteresis: a rise only counts once it clears the threshold
+// above the last reference point, so sensor noise on flat ground adds nothing.
+export function elevationGain(altitudes: number[], threshold: number = ELEVATION_THRESHOLD): number {
+  if (altitudes.length === 0) return 0;
+  let gain = 0;
+  let reference = altitudes[0];
+  for (const altitude of altitudes) {
+    if (altitude - reference >= threshold) {
+      gain += altitude - reference;
+      reference = altitude;
+    } else if (reference - altitude >= threshold) {
+      reference = altitude;
+    }
+  }
+  return gain;
+}
+
+// Sum of the time spent moving. Gaps where the runner covered (almost) no ground,
+// such as auto-pause, traffic lights or the gap between GPX segments, are left out.
+export function detectMovingTime(points: TrackPoint[], distances: number[]): number {
+  let moving = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dt = (points[i].time.getTime() - points[i - 1].time.getTime()) / 1000;
+    if (dt <= 0) continue;
+    const speed = (distances[i] - distances[i - 1]) / dt;
+    if (speed >= MIN_MOVING_SPEED) {
+      moving += dt;
+    }
+  }
+  return moving;
+}
+
+// Fastest speed sustained over a short window
+export function detectMaxSpeed(points: TrackPoint[], distances: number[]): number | null {
+  let maxSpeed: number | null = null;
+  let from = 0;
+  for (let to = 1; to < points.length; to++) {
+    // Advance the window start while it still spans the minimum duration
+    while (
+      from + 1 < to &&
+      (points[to].time.getTime() - points[from + 1].time.getTime()) / 1000 >= MAX_SPEED_WINDOW_SECONDS
+    ) {
+      from++;
+    }
+    const dt = (points[to].time.getTime() - points[from].time.getTime()) / 1000;
+    if (dt < MAX_SPEED_WINDOW_SECONDS) continue;
+    const speed = (distances[to] - distances[from]) / dt;
+    if (maxSpeed === null || speed > maxSpeed) {
+      maxSpeed = speed;
+    }
+  }
+  return maxSpeed;
+}
+
+// Encode the route as a Google polyline (precision 5, same as Strava's summary_polyline)
+export function encodeTrackPolyline(points: TrackPoint[]): string | null {
+  const coords = points
+    .filter(p => p.lat !== null && p.lon !== null)
+    .map(p => [p.lat, p.lon] as [number, number]);
+  return coords.length > 1 ? polyline.encode(coords) : null;
+}
+
+// Build a Run row from parsed track points
+export function buildRunFromTrack(
+  points: TrackPoint[],
+  name: string,
+  totals: TrackTotals = {}
+): Omit<Run, 'id' | 'created_at' | 'updated_at'> | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const startPoint = points[0];
+  const endPoint = points[points.length - 1];
+  const positioned = points.filter(p => p.lat !== null && p.lon !== null);
+  const firstPosition = positioned[0] || null;
+  const lastPosition = positioned[positioned.length - 1] || null;
+
+  const distances = cumulativeDistances(points);
+  const distance = totals.distance ?? distances[distances.length - 1];
+  const elapsedTime = Math.round((endPoint.time.getTime() - startPoint.time.getTime()) / 1000);
+  const movingTime = Math.round(totals.moving_time ?? detectMovingTime(points, distances));
+  const averageSpeed = movingTime > 0 ? distance / movingTime : null;
+
+  // Device speed is already filtered; otherwise derive it from the track
+  const recordedSpeeds = points.map(p => p.speed).filter((s): s is number => s !== null);
+  const maxSpeed = totals.max_speed
+    ?? (recordedSpeeds.length > 0 ? maxOf(recordedSpeeds) : detectMaxSpeed(points, distances))
+    ?? averageSpeed;
+
+  // Elevation
+  const altitudes = smoothAltitudes(points.map(p => p.altitude).filter((a): a is number => a !== null));
+
+  // Heart rate
+  const heartRates = points.map(p => p.heartrate).filter((hr): hr is number => hr !== null && hr > 0);
+  const averageHeartrate = heartRates.length > 0
+    ? Math.round((heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) * 10) / 10
+    : null;
+
+  return {
+    strava_id: null,
+    name,
+    distance,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    start_date: startPoint.time.toISOString(),
+    start_date_local: startPoint.time.toISOString().replace('Z', ''),
+    type: 'Run',
+    upload_id: null,
+    average_speed: averageSpeed,
+    max_speed: maxSpeed,
+    average_heartrate: averageHeartrate,
+    max_heartrate: heartRates.length > 0 ? maxOf(heartRates) : null,
+    total_elevation_gain: altitudes.length > 0 ? Math.round(elevationGain(altitudes) * 10) / 10 : null,
+    elev_high: altitudes.length > 0 ? Math.round(maxOf(altitudes) * 10) / 10 : null,
+    elev_low: altitudes.length > 0 ? Math.round(minOf(altitudes) * 10) / 10 : null,
+    location_country: null,
+    location_state: null,
+    location_city: null,
+    latitude_start: firstPosition?.lat ?? null,
+    longitude_start: firstPosition?.lon ?? null,
+    latitude_end: lastPosition?.lat ?? null,
+    longitude_end: lastPosition?.lon ?? null,
+    polyline: encodeTrackPolyline(points)
+  };
+}
@@ -0,0 +1,66 @@
+import type { AnyNode, Element } from 'domhandler';
+
+// Activity files mix namespace prefixes freely (ns3:TPX, gpxtpx:hr, ...),
+// so elements are matched on their local name only.
+export function localName(el: Element): string {
+  const name = el.name;
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+export function childElements(el: Element): Element[] {
+  return el.children.filter((node): node is Element => node.type === 'tag');
+}
+
+export function findChild(el: Element, name: string): Element | null {
+  return childElements(el).find(child => localName(child) === name) || null;
+}
+
+export function findChildren(el: Element, name: string): Element[] {
+  return childElements(el).filter(child => localName(child) === name);
+}
+
+// Depth-first search for all descendants with the given local name
+export function findDescendants(el: Element, name: string): Element[] {
+  const found: Element[] = [];
+  for (const child of childElements(el)) {
+    if (localName(child) === name) {
+      found.push(child);
+    }
+    found.push(...findDescendants(child, name));
+  }
+  return found;
+}
+
+export function textContent(el: Element): string {
+  return collectText(el).trim();
+}
+
+function collectText(node: AnyNode): string {
+  if (node.type === 'text') return node.data;
+  if (!('children' in node)) return '';
+  return node.children.map(collectText).join('');
+}
+
+export function childText(el: Element, name: string): string | null {
+  const child = findChild(el, name);
+  if (!child) return null;
+  const text = textContent(child);
+  return text.length > 0 ? text : null;
+}
+
+export function childNumber(el: Element, name: string): number | null {
+  const text = childText(el, name);
+  if (text === null) return null;
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Look up a number anywhere below the element, e.g. inside <Extensions>
+export function descendantNumber(el: Element, name: string): number | null {
+  for (const match of findDescendants(el, name)) {
+    const value = parseFloat(textContent(match));
+    if (Number.isFinite(value)) return value;
+  }
+  return null;
+}
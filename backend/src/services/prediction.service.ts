@@ -0,0 +1,154 @@
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { formatEffortTime } from './best-efforts.utils';
+import { formatSplitPace } from './splits.utils';
+import { riegelTime, timeFromVdot, vdotFromPerformance } from './prediction.utils';
+import { PARKRUN_DISTANCE, parseTimeToSeconds } from './stats.service';
+import { BEST_EFFORT_DISTANCES, BestEffortKey, PredictionInput, RacePrediction, RacePredictions } from '../models/database.types';
+
+// Distances predicted
+export const PREDICTION_KEYS: BestEffortKey[] = ['1mi', '5k', '10k', 'half', 'marathon'];
+
+// Performances older than this say little about current fitness
+const PREDICTION_WINDOW_DAYS = 180;
+// Shorter efforts reward speed more than endurance and overpredict longer races
+const MIN_INPUT_DISTANCE = 1500;
+// Predictions use the best few recent performances by VDOT, so one lucky
+// effort doesn't decide them and easy runs don't drag them down
+const TOP_INPUTS = 3;
+
+// Confidence interval, as a fraction of the predicted time: a base margin,
+// plus more for each doubling of distance away from the nearest input
+const BASE_MARGIN = 0.02;
+const MARGIN_PER_DOUBLING = 0.03;
+// Spread assumed when there is only one input to compare
+const SINGLE_INPUT_SPREAD = 0.03;
+
+export class PredictionService {
+  private config: AppConfig;
+  private db: DatabaseService;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  // Predicted times for the mile, 5K, 10K, half and marathon from recent
+  // races, parkruns and best efforts, or null if there are none. Each
+  // prediction averages Riegel's formula (from the input nearest in
+  // distance) and the time for the inputs' mean VDOT.
+  getPredictions(): RacePredictions | null {
+    const inputs = this.collectInputs();
+    if (inputs.length === 0) return null;
+
+    const top = inputs.slice(0, TOP_INPUTS);
+    const vdot = top.reduce((sum, input) => sum + input.vdot, 0) / top.length;
+    const bestVdot = top[0].vdot;
+    const worstVdot = top[top.length - 1].vdot;
+
+    const predictions = PREDICTION_KEYS.map((key): RacePrediction => {
+      const { label, distance } = BEST_EFFORT_DISTANCES[key];
+      const nearest = top.reduce((best, input) =>
+        Math.abs(Math.log(distance / input.distance)) < Math.abs(Math.log(distance / best.distance)) ? input : best
+      );
+
+      const riegelSeconds = riegelTime(nearest.distance, nearest.elapsed_time, distance);
+      const vdotSeconds = timeFromVdot(vdot, distance);
+      const predicted = (riegelSeconds + vdotSeconds) / 2;
+
+      // Extrapolating further, the two models disagreeing and scattered
+      // inputs all widen the interval
+      const stretch = Math.abs(Math.log2(distance / nearest.distance));
+      const disagreement = Math.abs(riegelSeconds - vdotSeconds) / predicted / 2;
+      const scatter = top.length > 1
+        ? (timeFromVdot(worstVdot, distance) - timeFromVdot(bestVdot, distance)) / predicted / 2
+        : SINGLE_INPUT_SPREAD;
+      const margin = BASE_MARGIN + MARGIN_PER_DOUBLING * stretch + disagreement + scatter;
+
+      const lower = predicted * (1 - margin);
+      const upper = predicted * (1 + margin);
+      return {
+        distance_key: key,
+        label,
+        distance,
+        predicted_seconds: Math.round(predicted),
+        predicted_time: formatEffortTime(predicted),
+        pace: formatSplitPace((predicted / distance) * 1000),
+        riegel_seconds: Math.round(riegelSeconds),
+        vdot_seconds: Math.round(vdotSeconds),
+        lower_seconds: Math.round(lower),
+        upper_seconds: Math.round(upper),
+        lower_time: formatEffortTime(lower),
+        upper_time: formatEffortTime(upper),
+        confidence: margin <= 0.05 ? 'high' : margin <= 0.1 ? 'medium' : 'low'
+      };
+    });
+
+    return {
+      window_days: PREDICTION_WINDOW_DAYS,
+      vdot: Math.round(vdot * 10) / 10,
+      based_on: top,
+      predictions
+    };
+  }
+
+  // Recent performances of at least MIN_INPUT_DISTANCE, best VDOT first. A
+  // parkrun is the official time of a run on the same day, so that day's runs
+  // are left out; each other run counts once, by its best VDOT.
+  private collectInputs(): PredictionInput[] {
+    const since = new Date();
+    since.setDate(since.getDate() - PREDICTION_WINDOW_DAYS);
+    const cutoff = since.toISOString();
+
+    const input = (source: PredictionInput['source'], runId: number | null, name: string, date: string, distance: number, elapsed: number): PredictionInput => ({
+      source,
+      run_id: runId,
+      name,
+      date,
+      distance,
+      elapsed_time: elapsed,
+      time: formatEffortTime(elapsed),
+      vdot: Math.round(vdotFromPerformance(distance, elapsed) * 10) / 10
+    });
+
+    const parkrunResults = this.config.parkrun.enabled ? this.db.getParkrunResults({ startDate: cutoff.slice(0, 10) }) : [];
+    const parkruns = parkrunResults
+      .map(result => ({ result, seconds: parseTimeToSeconds(result.finish_time) }))
+      .filter(({ seconds }) => seconds > 0)
+      .map(({ result, seconds }) => input('parkrun', null, `parkrun #${result.event_number ?? '?'}`, result.parkrun_date, PARKRUN_DISTANCE, seconds));
+    const parkrunDays = new Set(parkruns.map(parkrun => parkrun.date.slice(0, 10)));
+
+    const byRun = new Map<number, PredictionInput>();
+    const consider = (candidate: PredictionInput) => {
+      if (candidate.distance < MIN_INPUT_DISTANCE || parkrunDays.has(candidate.date.slice(0, 10))) return;
+      const current = byRun.get(candidate.run_id!);
+      // A race's whole-run time beats a stretch of it with the same VDOT
+      if (!current || candidate.vdot > current.vdot || (candidate.vdot === current.vdot && candidate.source === 'race')) {
+        byRun.set(candidate.run_id!, candidate);
+      }
+    };
+
+    for (const run of this.db.getRaceRuns(cutoff)) {
+      const elapsed = run.elapsed_time || run.moving_time;
+      if (run.distance > 0 && elapsed > 0) {
+        consider(input('race', run.id!, run.name, run.start_date_local, run.distance, elapsed));
+      }
+    }
+    for (const effort of this.db.getBestEfforts(true)) {
+      if (effort.start_date < cutoff) continue;
+      consider(input('best_effort', effort.run_id, `${BEST_EFFORT_DISTANCES[effort.distance_key].label} in ${effort.run_name}`,
+        effort.start_date_local, effort.distance, effort.elapsed_time));
+    }
+
+    return [...parkruns, ...byRun.values()].sort((a, b) => b.vdot - a.vdot);
+  }
+}
+
+let predictionServiceInstance: PredictionService | null = null;
+
+export function getPredictionService(config: AppConfig): PredictionService {
+  if (!predictionServiceInstance) {
+    predictionServiceInstance = new PredictionService(config);
+  }
+  return predictionServiceInstance;
+}
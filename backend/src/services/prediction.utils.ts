@@ -0,0 +1,52 @@
+// Race time models. Distances in meters, times in seconds.
+
+// Riegel's fatigue exponent: each doubling of distance costs about 6% in pace
+const RIEGEL_EXPONENT = 1.06;
+
+// Riegel: T2 = T1 * (D2 / D1)^1.06
+export function riegelTime(distance: number, time: number, targetDistance: number): number {
+  return time * Math.pow(targetDistance / distance, RIEGEL_EXPONENT);
+}
+
+// Oxygen cost of running at a speed (m/min), in ml/kg/min (Daniels & Gilbert)
+function oxygenCost(metersPerMinute: number): number {
+  return -4.6 + 0.182258 * metersPerMinute + 0.000104 * metersPerMinute * metersPerMinute;
+}
+
+// Fraction of VO2max that can be held for a race lasting this many minutes
+function sustainableFraction(minutes: number): number {
+  return 0.8 + 0.1894393 * Math.exp(-0.012778 * minutes) + 0.2989558 * Math.exp(-0.1932605 * minutes);
+}
+
+// VDOT of a race performance. These are the equations Daniels' VDOT tables
+// are generated from, so results match the tables without interpolating them.
+export function vdotFromPerformance(distance: number, time: number): number {
+  const minutes = time / 60;
+  return oxygenCost(distance / minutes) / sustainableFraction(minutes);
+}
+
+// Equivalent race time for a VDOT: the time at which the performance's VDOT
+// equals it. VDOT falls as time grows, so bisection converges.
+export function timeFromVdot(vdot: number, distance: number): number {
+  let low = distance / 1000 * 60 * 1.5; // 1:30/km
+  let high = distance / 1000 * 60 * 20; // 20:00/km
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (vdotFromPerformance(distance, mid) > vdot) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Threshold (Daniels' T pace) speed for a VDOT, in m/s: the speed whose
+// oxygen cost is 88% of VDOT, about what can be held for an hour
+export function thresholdSpeed(vdot: number): number {
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -4.6 - 0.88 * vdot;
+  const metersPerMinute = (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return metersPerMinute / 60;
+}
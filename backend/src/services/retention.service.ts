@@ -0,0 +1,101 @@
+import zlib from 'zlib';
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { ExportService, getExportService } from './export.service';
+import { ArchivedRunDetail, RetentionMode, RetentionPreview, RetentionResult } from '../models/database.types';
+
+// Runs compressed per transaction; streams of a long run are a few MB of JSON
+const ARCHIVE_BATCH_SIZE = 50;
+
+export class RetentionService {
+  private db: DatabaseService;
+  private exporter: ExportService;
+  private config: AppConfig;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+    this.exporter = getExportService(config);
+  }
+
+  // Runs starting before this are past retention
+  cutoffDate(keepYears: number = this.config.retention.keep_years): string {
+    const cutoff = new Date();
+    cutoff.setFullYear(cutoff.getFullYear() - keepYears);
+    return cutoff.toISOString();
+  }
+
+  // Dry run: what cleanup would do with these settings (default: the
+  // configured ones), without changing anything
+  preview(options: { keepYears?: number; mode?: RetentionMode; limit?: number } = {}): RetentionPreview {
+    const keepYears = options.keepYears ?? this.config.retention.keep_years;
+    const mode = options.mode ?? this.config.retention.mode;
+    const cutoff = this.cutoffDate(keepYears);
+    const candidates = this.db.getRetentionCandidates(cutoff, mode === 'strip');
+
+    return {
+      mode,
+      keep_years: keepYears,
+      cutoff,
+      runs: candidates.length,
+      total_distance: candidates.reduce((sum, c) => sum + (c.distance || 0), 0),
+      heavy_bytes: candidates.reduce((sum, c) => sum + c.heavy_bytes, 0),
+      oldest: candidates.length > 0 ? candidates[0].start_date : null,
+      newest: candidates.length > 0 ? candidates[candidates.length - 1].start_date : null,
+      candidates: candidates.slice(0, options.limit ?? 100)
+    };
+  }
+
+  // Apply retention.mode to runs older than retention.keep_years
+  cleanup(): RetentionResult {
+    const { keep_years: keepYears, mode } = this.config.retention;
+    const cutoff = this.cutoffDate(keepYears);
+    const runs = this.apply(mode, cutoff);
+
+    console.log(`[Retention] ${mode}: ${runs} runs before ${cutoff.slice(0, 10)}`);
+    return { mode, keep_years: keepYears, cutoff, runs };
+  }
+
+  // The full run as it was archived: the export.json form, with streams and laps
+  getArchivedRun(id: number): ArchivedRunDetail | null {
+    const row = this.db.getArchivedRunData(id);
+    if (!row) return null;
+    return { ...JSON.parse(zlib.gunzipSync(row.data).toString('utf-8')), archived_at: row.archived_at };
+  }
+
+  private apply(mode: RetentionMode, cutoff: string): number {
+    switch (mode) {
+      case 'archive':
+        return this.archiveBefore(cutoff);
+      case 'strip':
+        return this.db.stripRunData(this.db.getRetentionCandidates(cutoff, true).map(c => c.id));
+      case 'delete':
+        return this.db.deleteRunsBefore(cutoff);
+    }
+  }
+
+  private archiveBefore(cutoff: string): number {
+    const candidates = this.db.getRetentionCandidates(cutoff);
+    let archived = 0;
+
+    for (let i = 0; i < candidates.length; i += ARCHIVE_BATCH_SIZE) {
+      const entries = candidates.slice(i, i + ARCHIVE_BATCH_SIZE).flatMap(candidate => {
+        const run = this.db.getRun(candidate.id);
+        if (!run) return [];
+        return [{ run, data: zlib.gzipSync(JSON.stringify(this.exporter.exportRun(run))) }];
+      });
+      archived += this.db.archiveRuns(entries);
+    }
+
+    return archived;
+  }
+}
+
+let retentionServiceInstance: RetentionService | null = null;
+
+export function getRetentionService(config: AppConfig): RetentionService {
+  if (!retentionServiceInstance) {
+    retentionServiceInstance = new RetentionService(config);
+  }
+  return retentionServiceInstance;
+}
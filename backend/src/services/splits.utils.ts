@@ -0,0 +1,111 @@
+import { RunSplit, RunStreams, SplitUnit } from '../models/database.types';
+
+export const SPLIT_DISTANCES: Record<SplitUnit, number> = {
+  km: 1000,
+  mi: 1609.344
+};
+
+// Same threshold as upload pause detection: slower than this between two samples is stopped (m/s)
+const MIN_MOVING_SPEED = 0.5;
+// A trailing split shorter than this is GPS noise at the finish, not a split
+const MIN_FINAL_SPLIT_DISTANCE = 50;
+
+interface Accumulator {
+  startDistance: number;
+  startTime: number;
+  startAltitude: number | null;
+  movingTime: number;
+  hrWeighted: number;
+  hrTime: number;
+}
+
+export function formatSplitPace(seconds: number | null): string {
+  if (!seconds || !Number.isFinite(seconds)) return 'N/A';
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return secs === 60 ? `${minutes + 1}:00` : `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Cut the distance stream into whole units. Boundaries fall between samples,
+// so time and altitude are linearly interpolated at each boundary.
+export function computeSplits(streams: RunStreams, unit: SplitUnit): RunSplit[] {
+  const time = streams.time;
+  const distance = streams.distance;
+  if (!time || !distance || streams.point_count < 2) {
+    return [];
+  }
+
+  const altitude = streams.altitude;
+  const heartrate = streams.heartrate;
+  const splitLength = SPLIT_DISTANCES[unit];
+  const splits: RunSplit[] = [];
+
+  const start = (d: number, t: number, alt: number | null): Accumulator => ({
+    startDistance: d, startTime: t, startAltitude: alt, movingTime: 0, hrWeighted: 0, hrTime: 0
+  });
+  let acc = start(distance[0], time[0], altitude ? altitude[0] : null);
+
+  const close = (endDistance: number, endTime: number, endAltitude: number | null) => {
+    const splitDistance = endDistance - acc.startDistance;
+    const movingTime = acc.movingTime;
+    const paceSeconds = movingTime > 0 && splitDistance > 0 ? (movingTime / splitDistance) * splitLength : null;
+
+    splits.push({
+      split: splits.length + 1,
+      distance: Math.round(splitDistance * 10) / 10,
+      elapsed_time: Math.round(endTime - acc.startTime),
+      moving_time: Math.round(movingTime),
+      pace_seconds: paceSeconds !== null ? Math.round(paceSeconds) : null,
+      pace: formatSplitPace(paceSeconds),
+      average_speed: movingTime > 0 ? Math.round((splitDistance / movingTime) * 1000) / 1000 : null,
+      elevation_difference: endAltitude !== null && acc.startAltitude !== null
+        ? Math.round((endAltitude - acc.startAltitude) * 10) / 10
+        : null,
+      average_heartrate: acc.hrTime > 0 ? Math.round((acc.hrWeighted / acc.hrTime) * 10) / 10 : null
+    });
+  };
+
+  for (let i = 1; i < streams.point_count; i++) {
+    const t0 = time[i - 1];
+    const t1 = time[i];
+    const d0 = distance[i - 1];
+    const d1 = distance[i];
+    const dt = t1 - t0;
+    const dd = d1 - d0;
+    const moving = dt > 0 && dd / dt >= MIN_MOVING_SPEED;
+    const hr = heartrate ? (heartrate[i - 1] + heartrate[i]) / 2 : null;
+    const a0 = altitude ? altitude[i - 1] : null;
+    const a1 = altitude ? altitude[i] : null;
+
+    // Walk this segment, closing every split boundary it crosses
+    let segStart = 0; // fraction of the segment already assigned
+    while (dd > 0 && d1 - acc.startDistance >= splitLength) {
+      const boundary = acc.startDistance + splitLength;
+      const fraction = (boundary - d0) / dd;
+      addSegment(acc, (fraction - segStart) * dt, moving, hr);
+
+      const boundaryTime = t0 + fraction * dt;
+      const boundaryAltitude = a0 !== null && a1 !== null ? a0 + fraction * (a1 - a0) : null;
+      close(boundary, boundaryTime, boundaryAltitude);
+      acc = start(boundary, boundaryTime, boundaryAltitude);
+      segStart = fraction;
+    }
+    addSegment(acc, (1 - segStart) * dt, moving, hr);
+  }
+
+  const last = streams.point_count - 1;
+  if (distance[last] - acc.startDistance >= MIN_FINAL_SPLIT_DISTANCE) {
+    close(distance[last], time[last], altitude ? altitude[last] : null);
+  }
+
+  return splits;
+}
+
+function addSegment(acc: Accumulator, seconds: number, moving: boolean, hr: number | null): void {
+  if (seconds <= 0) return;
+  if (moving) acc.movingTime += seconds;
+  if (hr !== null && hr > 0) {
+    acc.hrWeighted += hr * seconds;
+    acc.hrTime += seconds;
+  }
+}
@@ -1,9 +1,10 @@
 import { AppConfig } from '../config/config.service';
 import { DatabaseService, getDatabase } from './database.service';
-import { RunStats, PaceProgress, LocationCluster, ConsistencyStats } from '../models/database.types';
+import { RunStats, PaceProgress, LocationCluster, ConsistencyStats, BEST_EFFORT_DISTANCES, BEST_EFFORT_KEYS, BestEffortKey, BestEffortRecord, BestEffortSummary, WorkoutType } from '../models/database.types';
+import { toBestEffortRecord } from './best-efforts.utils';
 
 // Helper to convert parkrun finish_time (HH:MM:SS or MM:SS) to seconds
-function parseTimeToSeconds(time: string): number {
+export function parseTimeToSeconds(time: string): number {
   const parts = time.split(':').map(Number);
   if (parts.length === 3) {
     return parts[0] * 3600 + parts[1] * 60 + parts[2];
@@ -13,6 +14,9 @@ function parseTimeToSeconds(time: string): number {
   return 0;
 }
 
+// Every parkrun is a 5 km course; results don't record a distance
+export const PARKRUN_DISTANCE = 5000;
+
 export class StatsService {
   private config: AppConfig;
   private db: DatabaseService;
@@ -22,14 +26,18 @@ export class StatsService {
     this.db = getDatabase(config);
   }
 
-  // Overall summary stats (including parkrun if enabled)
-  getSummary(days?: number): RunStats {
-    const runStats = this.db.getRunStats(days);
+  // Overall summary stats (including parkrun if enabled). includeArchived
+  // adds the summaries of runs archived by retention cleanup. With a workout
+  // type only those runs count; parkrun results have none, so they're left
+  // out. by_workout_type always covers every type.
+  getSummary(days?: number, includeArchived: boolean = false, workoutType?: WorkoutType): RunStats {
+    const runStats = this.db.getRunStats(days, includeArchived, workoutType);
+    runStats.by_workout_type = this.db.getWorkoutTypeStats(days, includeArchived);
 
-    if (this.config.parkrun.enabled) {
+    if (this.config.parkrun.enabled && !workoutType) {
       // Compute date boundaries for parkrun filter
-      let startDate?: string;
-      let endDate?: string;
+      let startDate: string | undefined;
+      let endDate: string | undefined;
       if (days) {
         const end = new Date();
         const start = new Date();
@@ -37,17 +45,18 @@ export class StatsService {
         startDate = start.toISOString().split('T')[0];
         endDate = end.toISOString().split('T')[0];
       }
-      const parkrunResults = this.db.getParkrunResults({ startDate, endDate });
+      const parkrunResults = this.db.getParkrunResults({
+        ...(startDate ? { startDate } : {}),
+        ...(endDate ? { endDate } : {})
+      });
 
       if (parkrunResults.length > 0) {
-        let prDistance = 0;
         let prTime = 0;
         let prCount = parkrunResults.length;
-        let maxDist = 0;
+        const prDistance = prCount * PARKRUN_DISTANCE;
+        const maxDist = PARKRUN_DISTANCE;
         for (const pr of parkrunResults) {
-          prDistance += pr.distance;
           prTime += parseTimeToSeconds(pr.finish_time);
-          if (pr.distance > maxDist) maxDist = pr.distance;
         }
 
         // Update totals
@@ -79,109 +88,78 @@ export class StatsService {
   }
 
   // Pace improvement over time
-  getPaceProgress(period: 'weekly' | 'monthly' = 'weekly'): PaceProgress[] {
-    return this.db.getPaceProgress(period);
+  getPaceProgress(period: 'weekly' | 'monthly' = 'weekly', includeArchived: boolean = false): PaceProgress[] {
+    return this.db.getPaceProgress(period, includeArchived);
   }
 
   // Stats grouped by location
-  getByLocation(radiusMeters?: number): LocationCluster[] {
-    return this.db.getLocationClusters(radiusMeters);
+  getByLocation(radiusMeters?: number, includeArchived: boolean = false): LocationCluster[] {
+    return this.db.getLocationClusters(radiusMeters, includeArchived);
   }
 
   // Consistency metrics
-  getConsistency(days?: number): ConsistencyStats {
-    return this.db.getConsistencyStats(days);
+  getConsistency(days?: number, includeArchived: boolean = false): ConsistencyStats {
+    return this.db.getConsistencyStats(days, includeArchived);
   }
 
-  // 5K time prediction based on recent runs
-  predict5KTime(): { predicted_seconds: number; predicted_time: string; confidence: string } | null {
-    // Get last 10 runs with distance >= 4km (to predict 5K)
-    const runs = this.db.getRuns({
-      limit: 20,
-      sortBy: 'start_date',
-      sortOrder: 'desc'
-    });
-
-    const recentFarRuns = runs.filter(r => r.distance >= 4000);
-    if (recentFarRuns.length === 0) {
-      return null;
-    }
-
-    // Calculate average pace of these runs
-    const paces = recentFarRuns
-      .map(r => (r.moving_time * 1000) / r.distance) // seconds per km
-      .filter(p => p > 0);
-
-    if (paces.length === 0) return null;
-
-    const avgPace = paces.reduce((a, b) => a + b, 0) / paces.length;
-    const predicted5KSeconds = avgPace * 5; // Extrapolate to 5K
-
-    // Confidence based on number of data points
-    let confidence = 'low';
-    if (paces.length >= 10) confidence = 'high';
-    else if (paces.length >= 5) confidence = 'medium';
-
-    return {
-      predicted_seconds: Math.round(predicted5KSeconds),
-      predicted_time: this.formatPace(predicted5KSeconds),
-      confidence
-    };
-  }
-
-  // Get personal records
-  getPersonalRecords(): {
+  // Get personal records. The fastest 5K and 10K are best efforts: the
+  // fastest stretch of that distance within any run.
+  getPersonalRecords(includeArchived: boolean = false): {
     longest_distance: { distance: number; date: string } | null;
     fastest_5k: { time: string; date: string } | null;
     fastest_10k: { time: string; date: string } | null;
     most_elevation: { elevation: number; date: string } | null;
   } {
-    const runs = this.db.getRuns({ limit: 1000 }); // Get many runs
-
-    // Longest distance
-    const longest = runs.reduce((max, run) => run.distance > (max?.distance || 0) ? run : max, null as any);
-    const longest_distance = longest ? {
-      distance: longest.distance / 1000, // Convert to km
-      date: longest.start_date_local
-    } : null;
-
-    // Find fastest 5K (need runs >= 5km)
-    const fiveKs = runs.filter(r => r.distance >= 5000 && (r.moving_time * 1000) / r.distance > 0);
-    const fastest5k = fiveKs.reduce((best, run) => {
-      const pace = (run.moving_time * 1000) / run.distance;
-      return pace < ((best?.pace || Infinity)) ? { ...run, pace } : best;
-    }, null as any);
-    const fastest_5k = fastest5k ? {
-      time: this.formatPace((fastest5k.moving_time * 1000) / 5000 * 5),
-      date: fastest5k.start_date_local
-    } : null;
-
-    // Find fastest 10K
-    const tenKs = runs.filter(r => r.distance >= 10000 && (r.moving_time * 1000) / r.distance > 0);
-    const fastest10k = tenKs.reduce((best, run) => {
-      const pace = (run.moving_time * 1000) / run.distance;
-      return pace < ((best?.pace || Infinity)) ? { ...run, pace } : best;
-    }, null as any);
-    const fastest_10k = fastest10k ? {
-      time: this.formatPace((fastest10k.moving_time * 1000) / 10000 * 10),
-      date: fastest10k.start_date_local
-    } : null;
-
-    // Most elevation gain
-    const mostElevation = runs.reduce((max, run) => (run.total_elevation_gain || 0) > (max?.elevation || 0) ? run : max, null as any);
-    const most_elevation = mostElevation ? {
-      elevation: Math.round(mostElevation.total_elevation_gain || 0),
-      date: mostElevation.start_date_local
-    } : null;
+    const longest = this.db.getTopRun('distance', includeArchived);
+    const mostElevation = this.db.getTopRun('total_elevation_gain', includeArchived);
+    const bestEfforts = this.getBestEfforts(includeArchived);
+    const fastest = (key: BestEffortKey) => {
+      const best = bestEfforts.find(summary => summary.distance_key === key)?.best;
+      return best ? { time: best.time, date: best.start_date_local } : null;
+    };
 
     return {
-      longest_distance: longest_distance,
-      fastest_5k: fastest_5k,
-      fastest_10k: fastest_10k,
-      most_elevation: most_elevation
+      longest_distance: longest ? {
+        distance: longest.distance / 1000, // Convert to km
+        date: longest.start_date_local
+      } : null,
+      fastest_5k: fastest('5k'),
+      fastest_10k: fastest('10k'),
+      most_elevation: mostElevation ? {
+        elevation: Math.round(mostElevation.total_elevation_gain || 0),
+        date: mostElevation.start_date_local
+      } : null
     };
   }
 
+  // The fastest effort at each standard distance, with every run that set a
+  // new PR along the way. Ties go to the earlier run.
+  getBestEfforts(includeArchived: boolean = false): BestEffortSummary[] {
+    const efforts = this.db.getBestEfforts(includeArchived);
+
+    return BEST_EFFORT_KEYS.map(key => {
+      const history: BestEffortRecord[] = [];
+      let count = 0;
+      for (const effort of efforts) {
+        if (effort.distance_key !== key) continue;
+        count++;
+        const best = history[history.length - 1];
+        if (!best || effort.elapsed_time < best.elapsed_time) {
+          history.push(toBestEffortRecord(effort));
+        }
+      }
+
+      return {
+        distance_key: key,
+        label: BEST_EFFORT_DISTANCES[key].label,
+        distance: BEST_EFFORT_DISTANCES[key].distance,
+        best: history[history.length - 1] ?? null,
+        efforts: count,
+        history
+      };
+    });
+  }
+
   // Weekly distance chart data
   getWeeklyDistance(weeks: number = 12): { week: string; distance: number }[] {
     const runs = this.db.getRuns();
@@ -235,13 +213,6 @@ export class StatsService {
 
     return result.map(item => ({ week: item.weekLabel, distance: item.distance }));
   }
-
-  // Helper: format pace (seconds per km) to MM:SS
-  private formatPace(secondsPerKm: number): string {
-    const minutes = Math.floor(secondsPerKm / 60);
-    const secs = Math.round(secondsPerKm % 60);
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
-  }
 }
 
 let statsServiceInstance: StatsService | null = null;
@@ -2,14 +2,36 @@ import axios, { AxiosInstance } from 'axios';
 import polyline from 'polyline';
 import { AppConfig } from '../config/config.service';
 import { DatabaseService, getDatabase } from './database.service';
-import { StravaActivity, StravaTokenResponse, StravaAthlete } from '../models/database.types';
+import { getDuplicateService } from './duplicate.service';
+import {
+  StravaActivity, StravaTokenResponse, StravaAthlete, StravaBackfillState, StravaRateLimit,
+  StravaSubscription, StravaWebhookEvent, StravaReconcileSummary, RunFieldChange, STREAM_TYPES, StravaLap
+} from '../models/database.types';
+import { StravaStreamSet, stravaToStreams } from './streams.utils';
 import { Run } from '../models/database.types';
 
+// Activity types imported as runs
+const STRAVA_RUN_TYPES = ['Run', 'VirtualRun', 'TrailRun', 'Race'];
+// Largest page Strava allows for /athlete/activities
+const STRAVA_PAGE_SIZE = 200;
+// Stop this many requests short of a limit, leaving room for manual syncs
+const RATE_LIMIT_HEADROOM = 5;
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+// Consecutive 429 responses tolerated before the backfill gives up
+const MAX_THROTTLED_ATTEMPTS = 3;
+const DEFAULT_RECONCILE_DAYS = 30;
+// Stream downloads per poll; the rest are picked up by later polls
+const STREAMS_PER_SYNC = 50;
+const BACKFILL_STATE_KEY = 'strava_backfill_state';
+const STRAVA_PUSH_SUBSCRIPTIONS_URL = 'https://www.strava.com/api/v3/push_subscriptions';
+
 export class StravaService {
   private config: AppConfig;
   private db: DatabaseService;
   private client: AxiosInstance;
   private configPath: string;
+  private rateLimit: StravaRateLimit | null = null;
+  private backfillPromise: Promise<StravaBackfillState> | null = null;
 
   constructor(config: AppConfig) {
     this.config = config;
@@ -104,6 +126,11 @@ export class StravaService {
     this.config.strava.refresh_token = tokens.refresh_token;
     this.config.strava.token_expires_at = tokens.expires_at;
 
+    // Webhook events are matched against this owner id
+    if (tokens.athlete?.id) {
+      this.db.setSyncMetadata('strava_athlete_id', String(tokens.athlete.id));
+    }
+
     // Persist to config file
     const fs = require('fs');
     let configJson;
@@ -123,11 +150,12 @@ export class StravaService {
     fs.writeFileSync(this.configPath, JSON.stringify(configJson, null, 2) + '\n');
   }
 
-  // Poll for new activities
-  async pollActivities(): Promise<{ found: number; added: number; errors: string[] }> {
+  // Poll for new activities since the last sync, page by page
+  async pollActivities(): Promise<{ found: number; added: number; streams: number; errors: string[] }> {
     const errors: string[] = [];
     let found = 0;
     let added = 0;
+    let streams = 0;
 
     try {
       const accessToken = await this.ensureValidToken();
@@ -135,82 +163,789 @@ export class StravaService {
 
       // Get last sync time
       const lastSync = this.db.getSyncMetadata('last_strava_sync');
-      const after = lastSync ? new Date(lastSync).getTime() / 1000 : null;
+      const after = lastSync ? Math.floor(new Date(lastSync).getTime() / 1000) : null;
+      const syncStartedAt = new Date().toISOString();
+
+      let page = 1;
+      let complete = false;
+      while (!complete) {
+        if (this.isRateLimited()) {
+          errors.push('Strava rate limit reached; remaining pages will be fetched on the next sync');
+          break;
+        }
+
+        const params: Record<string, number> = { per_page: STRAVA_PAGE_SIZE, page };
+        if (after) {
+          params.after = after;
+        }
+
+        const activities = await this.fetchActivities(params);
+        found += activities.length;
+        console.log(`[Strava] Poll page ${page} fetched ${activities.length} activities. Last sync: ${lastSync || 'never'}`);
+
+        const result = this.importActivities(activities);
+        added += result.added;
+        errors.push(...result.errors);
 
-      // Fetch activities
-      const params: any = { per_page: 200 };
-      if (after) {
-        params.after = after;
+        complete = activities.length < STRAVA_PAGE_SIZE;
+        page++;
       }
 
-      const response = await this.client.get<StravaActivity[]>('/athlete/activities', { params });
-      const activities = response.data;
-      found = activities.length;
+      // Only move the sync window once every page has been read, so a partial
+      // poll is picked up again next time instead of silently dropping activities
+      if (complete) {
+        this.db.setSyncMetadata('last_strava_sync', syncStartedAt);
+      }
+
+      // New runs first, then whatever older runs (e.g. from the backfill) still lack streams
+      const streamResult = await this.fetchMissingDetails(STREAMS_PER_SYNC);
+      streams = streamResult.fetched;
+      errors.push(...streamResult.errors);
+    } catch (error: any) {
+      errors.push(`Poll failed: ${error.response?.data?.message || error.message}`);
+    }
+
+    return { found, added, streams, errors };
+  }
+
+  // Fetch streams and laps for runs that don't have streams yet, stopping
+  // early when the rate limit gets close. Two requests per run.
+  async fetchMissingDetails(max: number): Promise<{ fetched: number; errors: string[] }> {
+    const errors: string[] = [];
+    let fetched = 0;
+
+    for (const run of this.db.getRunsWithoutStreams(max)) {
+      if (this.isRateLimited()) {
+        errors.push('Strava rate limit reached; remaining streams will be fetched on the next sync');
+        break;
+      }
+      try {
+        await this.syncRunLaps(run.id!, run.strava_id!);
+        await this.syncRunStreams(run.id!, run.strava_id!);
+        fetched++;
+      } catch (error: any) {
+        console.error(`[Strava] Failed to fetch streams for activity ${run.strava_id}:`, error.response?.data?.message || error.message);
+        errors.push(`Streams ${run.strava_id}: ${error.response?.data?.message || error.message}`);
+      }
+    }
+
+    if (fetched > 0) {
+      console.log(`[Strava] Fetched streams for ${fetched} runs`);
+    }
+    return { fetched, errors };
+  }
+
+  // Download and store the laps of one activity (Strava numbers them from 1)
+  async syncRunLaps(runId: number, activityId: number): Promise<number> {
+    const accessToken = await this.ensureValidToken();
+    this.setAuthHeaders(accessToken);
+
+    let laps: StravaLap[] = [];
+    try {
+      const response = await this.client.get<StravaLap[]>(`/activities/${activityId}/laps`);
+      this.recordRateLimit(response.headers);
+      laps = response.data;
+    } catch (error: any) {
+      if (error.response?.headers) {
+        this.recordRateLimit(error.response.headers);
+      }
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+    }
 
-      console.log(`[Strava] Poll fetched ${found} activities. Last sync: ${lastSync || 'never'}`);
+    this.db.saveRunLaps(runId, laps.map(lap => ({
+      lap_index: lap.lap_index - 1,
+      name: lap.name || null,
+      start_date: new Date(lap.start_date).toISOString(),
+      elapsed_time: lap.elapsed_time,
+      moving_time: lap.moving_time,
+      distance: lap.distance,
+      average_speed: lap.average_speed || null,
+      max_speed: lap.max_speed || null,
+      average_heartrate: lap.average_heartrate || null,
+      max_heartrate: lap.max_heartrate || null,
+      average_cadence: lap.average_cadence || null,
+      total_elevation_gain: lap.total_elevation_gain ?? null,
+      intensity: null,
+      trigger: null
+    })));
+    return laps.length;
+  }
+
+  // Download and store the streams of one activity. Manual activities have no
+  // streams (404); an empty row is stored so they aren't requested again.
+  async syncRunStreams(runId: number, activityId: number): Promise<number> {
+    const accessToken = await this.ensureValidToken();
+    this.setAuthHeaders(accessToken);
 
-      // Log activity types for debugging
-      const types = new Set(activities.map(a => a.type));
-      console.log('[Strava] Activity types found:', Array.from(types));
+    let raw: StravaStreamSet = {};
+    try {
+      const response = await this.client.get<StravaStreamSet>(`/activities/${activityId}/streams`, {
+        params: { keys: STREAM_TYPES.join(','), key_by_type: true }
+      });
+      this.recordRateLimit(response.headers);
+      raw = response.data;
+    } catch (error: any) {
+      if (error.response?.headers) {
+        this.recordRateLimit(error.response.headers);
+      }
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+    }
+
+    const streams = stravaToStreams(raw);
+    this.db.saveRunStreams(runId, 'strava', streams);
+    return streams.point_count;
+  }
+
+  // Re-fetch every activity that started in the last `days` days and make the
+  // runs table match: renames, type changes and edits are written back, runs
+  // that disappeared upstream (deleted, or made private without activity:read_all)
+  // are flagged or deleted.
+  async reconcileActivities(options: { days?: number; missing?: 'flag' | 'delete' } = {}): Promise<StravaReconcileSummary> {
+    const days = options.days ?? DEFAULT_RECONCILE_DAYS;
+    const missingAction = options.missing ?? 'flag';
+    const windowEnd = new Date();
+    const windowStart = new Date(windowEnd.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const summary: StravaReconcileSummary = {
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      missing_action: missingAction,
+      activities_checked: 0,
+      added: [],
+      updated: [],
+      removed: [],
+      flagged: [],
+      unchanged: 0
+    };
 
-      // Process each activity
+    const accessToken = await this.ensureValidToken();
+    this.setAuthHeaders(accessToken);
+
+    // Fetch the whole window first; a partial listing would make every
+    // activity on the missing pages look deleted
+    const upstream = new Map<number, StravaActivity>();
+    for (let page = 1; ; page++) {
+      if (this.isRateLimited()) {
+        throw new Error('Strava rate limit reached; try reconciling again later');
+      }
+
+      const activities = await this.fetchActivities({
+        after: Math.floor(windowStart.getTime() / 1000),
+        before: Math.floor(windowEnd.getTime() / 1000),
+        per_page: STRAVA_PAGE_SIZE,
+        page
+      });
       for (const activity of activities) {
+        upstream.set(activity.id, activity);
+      }
+      if (activities.length < STRAVA_PAGE_SIZE) break;
+    }
+    summary.activities_checked = upstream.size;
+
+    const stored = this.db.getStravaRunsBetween(summary.window_start, summary.window_end);
+    const storedIds = new Set(stored.map(run => run.strava_id));
+
+    for (const run of stored) {
+      const activity = upstream.get(run.strava_id!);
+      const ref = { run_id: run.id!, strava_id: run.strava_id!, name: run.name };
+
+      if (!activity) {
+        if (missingAction === 'delete') {
+          this.db.trashRun(run.id!);
+          summary.removed.push({ ...ref, reason: 'not found on Strava' });
+        } else if (!run.strava_missing_at) {
+          this.db.updateRun(run.id!, { strava_missing_at: new Date().toISOString() });
+          summary.flagged.push(ref);
+        } else {
+          summary.unchanged++;
+        }
+        continue;
+      }
+
+      if (!STRAVA_RUN_TYPES.includes(activity.type)) {
+        this.db.trashRun(run.id!);
+        summary.removed.push({ ...ref, reason: `type changed to ${activity.type}` });
+        continue;
+      }
+
+      const changes = this.diffRun(run, this.activityUpdate(run, activity));
+      if (run.strava_missing_at) {
+        changes.push({ field: 'strava_missing_at', from: run.strava_missing_at, to: null });
+      }
+      if (changes.length === 0) {
+        summary.unchanged++;
+        continue;
+      }
+
+      const update: Record<string, string | number | null> = {};
+      for (const change of changes) {
+        update[change.field] = change.to;
+      }
+      this.db.updateRun(run.id!, update as Partial<Run>);
+      summary.updated.push({ ...ref, name: activity.name, changes });
+    }
+
+    // Runs in the window we never stored (e.g. type changed to Run, or missed by a poll)
+    for (const activity of upstream.values()) {
+      if (storedIds.has(activity.id) || !STRAVA_RUN_TYPES.includes(activity.type)) continue;
+      // Stored outside the window (start date edited on Strava)
+      const existing = this.db.getRunByStravaId(activity.id);
+      if (existing) {
+        const update = this.activityUpdate(existing, activity);
+        const changes = this.diffRun(existing, update);
+        if (existing.strava_missing_at) {
+          changes.push({ field: 'strava_missing_at', from: existing.strava_missing_at, to: null });
+        }
+        if (changes.length > 0) {
+          this.db.updateRun(existing.id!, { ...update, strava_missing_at: null });
+          summary.updated.push({ run_id: existing.id!, strava_id: activity.id, name: activity.name, changes });
+        }
+        continue;
+      }
+      if (this.isSetAside(activity.id)) continue;
+      const runId = this.db.insertRun(this.activityToRun(activity));
+      getDuplicateService(this.config).checkRun(runId);
+      summary.added.push({ strava_id: activity.id, name: activity.name });
+    }
+
+    console.log(`[Strava] Reconciled ${days} days: ${summary.added.length} added, ${summary.updated.length} updated, ` +
+      `${summary.removed.length} removed, ${summary.flagged.length} flagged, ${summary.unchanged} unchanged`);
+
+    return summary;
+  }
+
+  private diffRun(stored: Run, fresh: Partial<Omit<Run, 'id' | 'created_at' | 'updated_at'>>): RunFieldChange[] {
+    const changes: RunFieldChange[] = [];
+    for (const field of Object.keys(fresh) as (keyof typeof fresh)[]) {
+      // Entered by hand or classified here, never set from Strava
+      if (field === 'notes' || field === 'tags' || field === 'workout_type' || field === 'workout_type_manual' || field === 'edited_fields') continue;
+      const from = stored[field] ?? null;
+      const to = fresh[field] ?? null;
+      if (from !== to) {
+        changes.push({ field, from, to });
+      }
+    }
+    return changes;
+  }
+
+  // Current backfill checkpoint (or a fresh idle state)
+  getBackfillState(): StravaBackfillState {
+    const stored = this.db.getSyncMetadata(BACKFILL_STATE_KEY);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as StravaBackfillState;
+      } catch (error) {
+        console.error('[Strava] Ignoring corrupt backfill checkpoint:', error);
+      }
+    }
+    return this.initialBackfillState();
+  }
+
+  private initialBackfillState(): StravaBackfillState {
+    return {
+      status: 'idle',
+      before: null,
+      pages: 0,
+      activities_fetched: 0,
+      runs_added: 0,
+      oldest_activity_date: null,
+      resume_at: null,
+      started_at: null,
+      updated_at: null,
+      completed_at: null,
+      error: null
+    };
+  }
+
+  isBackfillRunning(): boolean {
+    return this.backfillPromise !== null;
+  }
+
+  // True when there is history left to import (never started, or interrupted)
+  needsBackfill(): boolean {
+    return this.getBackfillState().status !== 'completed';
+  }
+
+  // Start (or resume) the history backfill in the background
+  startBackfill(restart: boolean = false): StravaBackfillState {
+    if (this.backfillPromise) {
+      return this.getBackfillState();
+    }
+
+    if (restart) {
+      this.saveBackfillState(this.initialBackfillState());
+    }
+
+    this.backfillPromise = this.runBackfill()
+      .catch(error => {
+        console.error('[Strava] Backfill crashed:', error);
+        return this.getBackfillState();
+      })
+      .finally(() => {
+        this.backfillPromise = null;
+      });
+
+    return this.getBackfillState();
+  }
+
+  // Walk the athlete's whole activity history, newest to oldest, using the
+  // `before` cursor so activities added meanwhile don't shift the pages.
+  // The checkpoint is saved after every page, so the job resumes where it stopped.
+  async runBackfill(): Promise<StravaBackfillState> {
+    const state = this.getBackfillState();
+    if (state.status === 'completed') {
+      return state;
+    }
+
+    const now = new Date().toISOString();
+    state.status = 'running';
+    state.started_at = state.started_at || now;
+    state.resume_at = null;
+    state.error = null;
+    this.saveBackfillState(state);
+
+    try {
+      const accessToken = await this.ensureValidToken();
+      this.setAuthHeaders(accessToken);
+
+      let throttledAttempts = 0;
+      while (true) {
+        const waitMs = this.rateLimitWaitMs();
+        if (waitMs === null) {
+          state.status = 'rate_limited';
+          state.error = 'Daily Strava rate limit reached; backfill will resume on the next scheduled sync';
+          this.saveBackfillState(state);
+          console.warn('[Strava] Backfill paused: daily rate limit reached');
+          return state;
+        }
+        if (waitMs > 0) {
+          state.status = 'waiting';
+          state.resume_at = new Date(Date.now() + waitMs).toISOString();
+          this.saveBackfillState(state);
+          console.log(`[Strava] Backfill waiting ${Math.round(waitMs / 1000)}s for the 15-minute rate limit window`);
+          await this.sleep(waitMs);
+          state.status = 'running';
+          state.resume_at = null;
+          // Token may have expired while waiting
+          this.setAuthHeaders(await this.ensureValidToken());
+        }
+
+        const params: Record<string, number> = { per_page: STRAVA_PAGE_SIZE };
+        if (state.before) {
+          params.before = state.before;
+        }
+
+        let activities: StravaActivity[];
         try {
-          // Skip non-running activities - accept 'Run', 'VirtualRun', 'TrailRun', 'Race'
-          const runTypes = ['Run', 'VirtualRun', 'TrailRun', 'Race'];
-          if (!runTypes.includes(activity.type)) {
-            continue;
+          activities = await this.fetchActivities(params);
+          throttledAttempts = 0;
+        } catch (error: any) {
+          if (error.response?.status !== 429 || ++throttledAttempts > MAX_THROTTLED_ATTEMPTS) {
+            throw error;
+          }
+          // Usage headers are usually on the 429 and the loop waits on them;
+          // without them, sit out the rest of the current 15-minute window
+          if (this.rateLimitWaitMs() === 0) {
+            await this.sleep(this.msUntilNextWindow());
           }
+          continue;
+        }
+
+        if (activities.length === 0) {
+          break;
+        }
 
-          // Check if already exists
-          const existing = this.db.getRunByStravaId(activity.id);
-          if (existing) continue;
-
-          // Prepare run data
-          const run: Omit<Run, 'id' | 'created_at' | 'updated_at'> = {
-            strava_id: activity.id,
-            name: activity.name || 'Untitled Run',
-            distance: activity.distance || 0,
-            moving_time: activity.moving_time || 0,
-            elapsed_time: activity.elapsed_time || 0,
-            start_date: new Date(activity.start_date).toISOString(),
-            start_date_local: activity.start_date_local,
-            type: activity.type,
-            upload_id: activity.upload_id || null,
-            average_speed: activity.average_speed || null,
-            max_speed: activity.max_speed || null,
-            average_heartrate: activity.average_heartrate || null,
-            max_heartrate: activity.max_heartrate || null,
-            total_elevation_gain: activity.total_elevation_gain || null,
-            elev_high: activity.elev_high || null,
-            elev_low: activity.elev_low || null,
-            location_country: activity.location_country || null,
-            location_state: activity.location_state || null,
-            location_city: activity.location_city || null,
-            latitude_start: activity.start_latlng?.[0] || null,
-            longitude_start: activity.start_latlng?.[1] || null,
-            latitude_end: activity.end_latlng?.[0] || null,
-            longitude_end: activity.end_latlng?.[1] || null,
-            polyline: activity.map?.summary_polyline || null
-          };
-
-          this.db.insertRun(run);
-          added++;
-          console.log(`[Strava] Added run: ${activity.name} (${(activity.distance/1000).toFixed(2)} km)`);
-        } catch (err: any) {
-          console.error(`[Strava] Error processing activity ${activity.id}:`, err.message);
-          errors.push(`Activity ${activity.id}: ${err.message}`);
+        const result = this.importActivities(activities);
+        const oldest = activities.reduce((min, a) => (a.start_date < min ? a.start_date : min), activities[0].start_date);
+
+        state.pages++;
+        state.activities_fetched += activities.length;
+        state.runs_added += result.added;
+        state.oldest_activity_date = oldest;
+        state.before = Math.floor(new Date(oldest).getTime() / 1000);
+        this.saveBackfillState(state);
+
+        console.log(`[Strava] Backfill page ${state.pages}: ${activities.length} activities, ${result.added} runs added (back to ${oldest})`);
+        for (const err of result.errors) {
+          console.warn(`[Strava] Backfill ${err}`);
+        }
+
+        if (activities.length < STRAVA_PAGE_SIZE) {
+          break;
         }
       }
 
-      // Update last sync time
-      const now = Date.now() / 1000;
-      this.db.setSyncMetadata('last_strava_sync', new Date(now * 1000).toISOString());
+      state.status = 'completed';
+      state.completed_at = new Date().toISOString();
+      this.saveBackfillState(state);
+      console.log(`[Strava] Backfill completed: ${state.activities_fetched} activities, ${state.runs_added} runs added`);
     } catch (error: any) {
-      errors.push(`Poll failed: ${error.response?.data?.message || error.message}`);
+      state.status = 'failed';
+      state.error = error.response?.data?.message || error.message;
+      this.saveBackfillState(state);
+      console.error('[Strava] Backfill failed:', state.error);
+    }
+
+    return state;
+  }
+
+  // Strava webhook: validate the subscription handshake (GET ?hub.challenge=...)
+  verifyWebhookToken(token: string | undefined): boolean {
+    const expected = this.config.strava.webhook_verify_token;
+    return !!expected && token === expected;
+  }
+
+  // Handle a push event. Strava expects a 200 within two seconds, so the
+  // route acknowledges first and this runs afterwards. The endpoint is public,
+  // so events must carry our subscription and athlete ids, and destructive
+  // ones are confirmed with Strava before anything is changed.
+  async handleWebhookEvent(event: StravaWebhookEvent): Promise<string> {
+    const subscriptionId = await this.getWebhookSubscriptionId();
+    if (!subscriptionId || String(event.subscription_id) !== subscriptionId) {
+      return `ignored event for subscription ${event.subscription_id}`;
+    }
+    const athleteId = await this.getAthleteId();
+    if (!athleteId || String(event.owner_id) !== athleteId) {
+      return `ignored event for athlete ${event.owner_id}`;
+    }
+
+    if (event.object_type === 'athlete') {
+      if (event.updates?.authorized === 'false') {
+        if (!(await this.isAccessRevoked())) return 'deauthorization not confirmed by Strava, ignored';
+        this.clearTokens();
+        return 'athlete deauthorized, tokens cleared';
+      }
+      return 'ignored athlete update';
+    }
+
+    switch (event.aspect_type) {
+      case 'create':
+      case 'update':
+        return this.syncActivity(event.object_id);
+      case 'delete': {
+        if (!(await this.isActivityGone(event.object_id))) {
+          return `activity ${event.object_id} still on Strava, delete ignored`;
+        }
+        const trashed = this.db.trashRunByStravaId(event.object_id);
+        return trashed ? `moved run for activity ${event.object_id} to the trash` : `activity ${event.object_id} not stored`;
+      }
+      default:
+        return `ignored ${event.aspect_type} event`;
+    }
+  }
+
+  // Id of our push subscription, looked up once if it was created elsewhere
+  private async getWebhookSubscriptionId(): Promise<string | null> {
+    const stored = this.db.getSyncMetadata('strava_subscription_id');
+    if (stored) return stored;
+    const subscription = await this.getWebhookSubscription();
+    return subscription ? String(subscription.id) : null;
+  }
+
+  // Id of the connected athlete, looked up once for tokens saved before it was recorded
+  private async getAthleteId(): Promise<string | null> {
+    const stored = this.db.getSyncMetadata('strava_athlete_id');
+    if (stored) return stored;
+    const athlete = await this.getAthlete();
+    if (!athlete) return null;
+    this.db.setSyncMetadata('strava_athlete_id', String(athlete.id));
+    return String(athlete.id);
+  }
+
+  // Strava rejects the refresh token once the athlete has revoked access
+  private async isAccessRevoked(): Promise<boolean> {
+    const refreshToken = this.config.strava.refresh_token;
+    if (!refreshToken) return false;
+    try {
+      this.saveTokens(await this.refreshAccessToken(refreshToken));
+      return false;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 400 || status === 401) return true;
+      throw error;
+    }
+  }
+
+  // Deleted (or made private without activity:read_all) activities are a 404
+  private async isActivityGone(activityId: number): Promise<boolean> {
+    const accessToken = await this.ensureValidToken();
+    this.setAuthHeaders(accessToken);
+    try {
+      const response = await this.client.get<StravaActivity>(`/activities/${activityId}`);
+      this.recordRateLimit(response.headers);
+      return false;
+    } catch (error: any) {
+      if (error.response?.headers) {
+        this.recordRateLimit(error.response.headers);
+      }
+      if (error.response?.status === 404) return true;
+      throw error;
+    }
+  }
+
+  // Fetch one activity and make the runs table match it: insert new runs,
+  // update changed ones and drop ones that are no longer runs or visible to us
+  async syncActivity(activityId: number): Promise<string> {
+    const accessToken = await this.ensureValidToken();
+    this.setAuthHeaders(accessToken);
+
+    const existing = this.db.getRunByStravaId(activityId);
+    let activity: StravaActivity;
+    try {
+      const response = await this.client.get<StravaActivity>(`/activities/${activityId}`);
+      this.recordRateLimit(response.headers);
+      activity = response.data;
+    } catch (error: any) {
+      if (error.response?.headers) {
+        this.recordRateLimit(error.response.headers);
+      }
+      // Made private without activity:read_all, or deleted before we got here
+      if (error.response?.status === 404 && existing) {
+        this.db.trashRun(existing.id!);
+        return `activity ${activityId} no longer visible, run removed`;
+      }
+      throw error;
     }
 
-    return { found, added, errors };
+    const isRun = STRAVA_RUN_TYPES.includes(activity.type);
+    if (!existing) {
+      if (!isRun) return `activity ${activityId} is a ${activity.type}, skipped`;
+      if (this.isSetAside(activityId)) return `activity ${activityId} is in the trash, archived or merged, skipped`;
+      const runId = this.db.insertRun(this.activityToRun(activity));
+      await this.syncRunLaps(runId, activityId);
+      await this.syncRunStreams(runId, activityId);
+      getDuplicateService(this.config).checkRun(runId);
+      return `added run ${activity.name}`;
+    }
+
+    if (!isRun) {
+      this.db.trashRun(existing.id!);
+      return `activity ${activityId} changed to ${activity.type}, run removed`;
+    }
+
+    this.db.updateRun(existing.id!, { ...this.activityUpdate(existing, activity), strava_missing_at: null });
+    return `updated run ${activity.name}`;
+  }
+
+  // Strava push subscription management (one subscription per application)
+  async getWebhookSubscription(): Promise<StravaSubscription | null> {
+    const response = await axios.get<StravaSubscription[]>(STRAVA_PUSH_SUBSCRIPTIONS_URL, {
+      params: {
+        client_id: this.config.strava.client_id,
+        client_secret: this.config.strava.client_secret
+      }
+    });
+    // Webhook events are matched against this subscription id
+    const subscription = response.data[0] || null;
+    this.db.setSyncMetadata('strava_subscription_id', subscription ? String(subscription.id) : '');
+    return subscription;
+  }
+
+  // Strava calls back to GET callbackUrl with hub.challenge before answering,
+  // so the server must be reachable from the internet at that URL
+  async createWebhookSubscription(callbackUrl: string): Promise<StravaSubscription> {
+    if (!this.config.strava.webhook_verify_token) {
+      throw new Error('strava.webhook_verify_token must be set in config before subscribing');
+    }
+
+    const params = new URLSearchParams({
+      client_id: this.config.strava.client_id,
+      client_secret: this.config.strava.client_secret,
+      callback_url: callbackUrl,
+      verify_token: this.config.strava.webhook_verify_token
+    });
+
+    const response = await axios.post(STRAVA_PUSH_SUBSCRIPTIONS_URL, params.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+
+    const now = new Date().toISOString();
+    const subscription = await this.getWebhookSubscription();
+    return subscription || { id: response.data.id, callback_url: callbackUrl, created_at: now, updated_at: now };
+  }
+
+  async deleteWebhookSubscription(): Promise<boolean> {
+    const subscription = await this.getWebhookSubscription();
+    if (!subscription) return false;
+
+    await axios.delete(`${STRAVA_PUSH_SUBSCRIPTIONS_URL}/${subscription.id}`, {
+      params: {
+        client_id: this.config.strava.client_id,
+        client_secret: this.config.strava.client_secret
+      }
+    });
+    this.db.setSyncMetadata('strava_subscription_id', '');
+    return true;
+  }
+
+  // Forget the tokens after the athlete revokes access on strava.com
+  private clearTokens(): void {
+    this.config.strava.access_token = '';
+    this.config.strava.refresh_token = '';
+    this.config.strava.token_expires_at = null;
+
+    const fs = require('fs');
+    try {
+      const configJson = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+      configJson.strava = { ...configJson.strava, access_token: '', refresh_token: '', token_expires_at: null };
+      fs.writeFileSync(this.configPath, JSON.stringify(configJson, null, 2) + '\n');
+    } catch (error) {
+      console.error('[Strava] Failed to clear tokens in config file:', error);
+    }
+  }
+
+  getRateLimit(): StravaRateLimit | null {
+    return this.rateLimit;
+  }
+
+  private saveBackfillState(state: StravaBackfillState): void {
+    state.updated_at = new Date().toISOString();
+    this.db.setSyncMetadata(BACKFILL_STATE_KEY, JSON.stringify(state));
+  }
+
+  // GET /athlete/activities, recording rate limit usage from the response
+  private async fetchActivities(params: Record<string, number>): Promise<StravaActivity[]> {
+    try {
+      const response = await this.client.get<StravaActivity[]>('/athlete/activities', { params });
+      this.recordRateLimit(response.headers);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.headers) {
+        this.recordRateLimit(error.response.headers);
+      }
+      throw error;
+    }
+  }
+
+  // Strava reports "15-minute,daily" pairs. Read-only endpoints have their own,
+  // lower X-ReadRateLimit-* budget, which is the one that applies to us.
+  private recordRateLimit(headers: Record<string, any>): void {
+    const limit = headers['x-readratelimit-limit'] || headers['x-ratelimit-limit'];
+    const usage = headers['x-readratelimit-usage'] || headers['x-ratelimit-usage'];
+    if (!limit || !usage) return;
+
+    const [shortLimit, dailyLimit] = String(limit).split(',').map(Number);
+    const [shortUsage, dailyUsage] = String(usage).split(',').map(Number);
+    if ([shortLimit, dailyLimit, shortUsage, dailyUsage].some(n => !Number.isFinite(n))) return;
+
+    this.rateLimit = {
+      short_limit: shortLimit,
+      short_usage: shortUsage,
+      daily_limit: dailyLimit,
+      daily_usage: dailyUsage,
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  private isRateLimited(): boolean {
+    return this.rateLimitWaitMs() !== 0;
+  }
+
+  // 0 = go ahead, > 0 = wait for the 15-minute window, null = daily budget spent.
+  // Windows reset on the quarter hour and daily usage at midnight UTC.
+  private rateLimitWaitMs(): number | null {
+    const limit = this.rateLimit;
+    if (!limit) return 0;
+
+    const now = new Date();
+    const updated = new Date(limit.updated_at);
+    const sameDay = updated.toISOString().slice(0, 10) === now.toISOString().slice(0, 10);
+    if (sameDay && limit.daily_usage >= limit.daily_limit - RATE_LIMIT_HEADROOM) {
+      return null;
+    }
+
+    const windowStart = Math.floor(now.getTime() / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+    const sameWindow = updated.getTime() >= windowStart;
+    if (sameWindow && limit.short_usage >= limit.short_limit - RATE_LIMIT_HEADROOM) {
+      return this.msUntilNextWindow();
+    }
+
+    return 0;
+  }
+
+  private msUntilNextWindow(): number {
+    const now = Date.now();
+    const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+    return windowStart + RATE_LIMIT_WINDOW_MS - now + 1000;
+  }
+
+  // Trashed, archived or merged runs: never brought back by polls, backfills,
+  // reconciliation or webhooks (restore them from the trash instead)
+  private isSetAside(activityId: number): boolean {
+    return this.db.getTrashedRunByStravaId(activityId) !== null
+      || this.db.isStravaActivityArchived(activityId)
+      || this.db.getStravaActivityMergedInto(activityId) !== null;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  // Insert running activities that aren't stored yet
+  private importActivities(activities: StravaActivity[]): { added: number; errors: string[] } {
+    const errors: string[] = [];
+    let added = 0;
+
+    for (const activity of activities) {
+      try {
+        if (!STRAVA_RUN_TYPES.includes(activity.type)) {
+          continue;
+        }
+
+        // Check if already exists, or was trashed or archived
+        const existing = this.db.getRunByStravaId(activity.id);
+        if (existing || this.isSetAside(activity.id)) continue;
+
+        const runId = this.db.insertRun(this.activityToRun(activity));
+        getDuplicateService(this.config).checkRun(runId);
+        added++;
+        console.log(`[Strava] Added run: ${activity.name} (${(activity.distance/1000).toFixed(2)} km)`);
+      } catch (err: any) {
+        console.error(`[Strava] Error processing activity ${activity.id}:`, err.message);
+        errors.push(`Activity ${activity.id}: ${err.message}`);
+      }
+    }
+
+    return { added, errors };
+  }
+
+  // Strava's values for a stored run, leaving out the fields edited by hand
+  private activityUpdate(stored: Run, activity: StravaActivity): Partial<Omit<Run, 'id' | 'created_at' | 'updated_at'>> {
+    const edited = new Set<string>(stored.edited_fields || []);
+    return Object.fromEntries(Object.entries(this.activityToRun(activity)).filter(([field]) => !edited.has(field)));
+  }
+
+  private activityToRun(activity: StravaActivity): Omit<Run, 'id' | 'created_at' | 'updated_at'> {
+    return {
+      strava_id: activity.id,
+      name: activity.name || 'Untitled Run',
+      distance: activity.distance || 0,
+      moving_time: activity.moving_time || 0,
+      elapsed_time: activity.elapsed_time || 0,
+      start_date: new Date(activity.start_date).toISOString(),
+      start_date_local: activity.start_date_local,
+      type: activity.type,
+      upload_id: activity.upload_id || null,
+      average_speed: activity.average_speed || null,
+      max_speed: activity.max_speed || null,
+      average_heartrate: activity.average_heartrate || null,
+      max_heartrate: activity.max_heartrate || null,
+      total_elevation_gain: activity.total_elevation_gain || null,
+      elev_high: activity.elev_high || null,
+      elev_low: activity.elev_low || null,
+      location_country: activity.location_country || null,
+      location_state: activity.location_state || null,
+      location_city: activity.location_city || null,
+      latitude_start: activity.start_latlng?.[0] || null,
+      longitude_start: activity.start_latlng?.[1] || null,
+      latitude_end: activity.end_latlng?.[0] || null,
+      longitude_end: activity.end_latlng?.[1] || null,
+      polyline: activity.map?.summary_polyline || null
+    };
   }
 
   // Get athlete info
@@ -229,7 +964,7 @@ export class StravaService {
   // Decode polyline to GeoJSON coordinates
   decodePolyline(encoded: string): [number, number][] {
     try {
-      return polyline.decode(encoded, 5); // precision 5 as per Strava
+      return polyline.decode(encoded, 5) as [number, number][]; // precision 5 as per Strava
     } catch (error) {
       console.error('Failed to decode polyline:', error);
       return [];
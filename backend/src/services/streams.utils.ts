@@ -0,0 +1,133 @@
+import { RunStreams, STREAM_TYPES, StreamType, TrackPoint } from '../models/database.types';
+import { cumulativeDistances, smoothAltitudes } from './parsers/track.utils';
+
+export type StreamData = Omit<RunStreams, 'run_id' | 'source' | 'created_at'>;
+
+// Speed and grade are smoothed over this many seconds either side of a sample,
+// roughly what Strava does for velocity_smooth / grade_smooth
+const SMOOTHING_WINDOW_SECONDS = 5;
+// Grade over shorter distances than this is GPS noise
+const MIN_GRADE_DISTANCE = 10;
+
+// Raw /activities/{id}/streams response with key_by_type=true
+export type StravaStreamSet = Partial<Record<StreamType, { data: any[] }>>;
+
+function emptyStreams(pointCount: number): StreamData {
+  return {
+    point_count: pointCount,
+    time: null,
+    latlng: null,
+    distance: null,
+    altitude: null,
+    heartrate: null,
+    cadence: null,
+    velocity_smooth: null,
+    grade_smooth: null
+  };
+}
+
+export function stravaToStreams(raw: StravaStreamSet): StreamData {
+  const pointCount = raw.time?.data.length ?? raw.distance?.data.length ?? 0;
+  const streams = emptyStreams(pointCount);
+
+  for (const type of STREAM_TYPES) {
+    const data = raw[type]?.data;
+    // Strava sends every stream at the same resolution; anything else is unusable
+    if (data && data.length === pointCount && pointCount > 0) {
+      (streams as any)[type] = data;
+    }
+  }
+
+  return streams;
+}
+
+// Fill gaps in a per-point series with the nearest earlier value (or the first
+// value for leading gaps). Returns null when the series has no values at all.
+function fillGaps<T>(values: (T | null)[]): T[] | null {
+  const first = values.find(v => v !== null);
+  if (first === undefined || first === null) return null;
+
+  let last: T = first;
+  return values.map(v => {
+    if (v !== null) last = v;
+    return last;
+  });
+}
+
+// Build streams from the track points of an uploaded GPX/TCX/FIT file
+export function trackToStreams(points: TrackPoint[]): StreamData {
+  const streams = emptyStreams(points.length);
+  if (points.length === 0) return streams;
+
+  const start = points[0].time.getTime();
+  const time = points.map(p => Math.round((p.time.getTime() - start) / 1000));
+  const hasPosition = points.some(p => p.lat !== null && p.lon !== null);
+  const hasDistance = hasPosition || points.some(p => p.distance !== null);
+  const distance = hasDistance ? cumulativeDistances(points).map(d => Math.round(d * 10) / 10) : null;
+  const rawAltitude = fillGaps(points.map(p => p.altitude));
+  const altitude = rawAltitude ? smoothAltitudes(rawAltitude).map(a => Math.round(a * 10) / 10) : null;
+
+  streams.time = time;
+  streams.latlng = hasPosition
+    ? fillGaps(points.map(p => (p.lat !== null && p.lon !== null ? [p.lat, p.lon] as [number, number] : null)))
+    : null;
+  streams.distance = distance;
+  streams.altitude = altitude;
+  streams.heartrate = fillGaps(points.map(p => p.heartrate));
+  streams.cadence = fillGaps(points.map(p => p.cadence));
+
+  const recordedSpeed = points.some(p => p.speed !== null) ? fillGaps(points.map(p => p.speed)) : null;
+  streams.velocity_smooth = recordedSpeed
+    ? recordedSpeed.map(v => Math.round(v * 1000) / 1000)
+    : distance ? smoothedSpeed(time, distance) : null;
+  streams.grade_smooth = distance && altitude ? smoothedGrade(time, distance, altitude) : null;
+
+  return streams;
+}
+
+// Speed in m/s over a centered time window
+function smoothedSpeed(time: number[], distance: number[]): number[] {
+  let from = 0;
+  let to = 0;
+  return time.map(t => {
+    while (time[from] < t - SMOOTHING_WINDOW_SECONDS) from++;
+    while (to < time.length - 1 && time[to + 1] <= t + SMOOTHING_WINDOW_SECONDS) to++;
+    const dt = time[to] - time[from];
+    const speed = dt > 0 ? (distance[to] - distance[from]) / dt : 0;
+    return Math.round(Math.max(0, speed) * 1000) / 1000;
+  });
+}
+
+// Percent grade over a centered time window
+function smoothedGrade(time: number[], distance: number[], altitude: number[]): number[] {
+  let from = 0;
+  let to = 0;
+  return time.map(t => {
+    while (time[from] < t - SMOOTHING_WINDOW_SECONDS) from++;
+    while (to < time.length - 1 && time[to + 1] <= t + SMOOTHING_WINDOW_SECONDS) to++;
+    const dd = distance[to] - distance[from];
+    if (dd < MIN_GRADE_DISTANCE) return 0;
+    return Math.round(((altitude[to] - altitude[from]) / dd) * 1000) / 10;
+  });
+}
+
+// Reduce every stream to at most `maxPoints` samples by picking evenly spaced
+// indices (first and last are always kept, so totals stay exact)
+export function downsampleStreams<T extends StreamData>(streams: T, maxPoints: number): T {
+  if (maxPoints < 2 || streams.point_count <= maxPoints) {
+    return streams;
+  }
+
+  const indices: number[] = [];
+  const step = (streams.point_count - 1) / (maxPoints - 1);
+  for (let i = 0; i < maxPoints; i++) {
+    indices.push(Math.round(i * step));
+  }
+
+  const result: any = { ...streams, point_count: indices.length };
+  for (const type of STREAM_TYPES) {
+    const data = streams[type] as any[] | null;
+    result[type] = data ? indices.map(i => data[i]) : null;
+  }
+  return result as T;
+}
@@ -0,0 +1,66 @@
+import { AppConfig } from '../config/config.service';
+import { DatabaseService, getDatabase } from './database.service';
+import { getAthleteService } from './athlete.service';
+import { formatSplitPace } from './splits.utils';
+import { addDays, loadSeries, rtss, trimp } from './training-load.utils';
+import { RunTrainingLoad, TrainingLoad } from '../models/database.types';
+
+export class TrainingLoadService {
+  private config: AppConfig;
+  private db: DatabaseService;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.db = getDatabase(config);
+  }
+
+  // Daily acute and chronic load, form and acute:chronic ratio for the last
+  // `days` days, with each run's load. The averages are computed from the
+  // first run on, so the start of the window is already warmed up.
+  getTrainingLoad(days: number = 180, includeArchived: boolean = true): TrainingLoad {
+    const runs = this.db.getRunSummaries(includeArchived);
+    // Heart rate range for TRIMP and threshold speed for rTSS
+    const profile = getAthleteService(this.config).getEffectiveProfile();
+    const threshold = 1000 / profile.threshold_pace;
+
+    const runLoads: RunTrainingLoad[] = runs.map(run => {
+      const heartRateLoad = trimp(run.moving_time, run.average_heartrate, profile.resting_hr, profile.max_hr);
+      return {
+        run_id: run.id!,
+        name: run.name,
+        date: run.start_date_local.slice(0, 10),
+        load: Math.round((heartRateLoad ?? rtss(run.moving_time, run.distance, threshold)) * 10) / 10,
+        method: heartRateLoad !== null ? 'trimp' : 'rtss'
+      };
+    });
+
+    const daily = new Map<string, number>();
+    for (const run of runLoads) {
+      daily.set(run.date, (daily.get(run.date) || 0) + run.load);
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const windowStart = addDays(today, -(days - 1));
+    const firstDay = runLoads.length > 0 && runLoads[0].date < windowStart ? runLoads[0].date : windowStart;
+    const series = loadSeries(daily, firstDay, today).filter(day => day.date >= windowStart);
+
+    return {
+      days,
+      hr_max: profile.max_hr,
+      hr_rest: profile.resting_hr,
+      threshold_pace: formatSplitPace(profile.threshold_pace),
+      current: series[series.length - 1] ?? null,
+      series,
+      runs: runLoads.filter(run => run.date >= windowStart && run.date <= today)
+    };
+  }
+}
+
+let trainingLoadServiceInstance: TrainingLoadService | null = null;
+
+export function getTrainingLoadService(config: AppConfig): TrainingLoadService {
+  if (!trainingLoadServiceInstance) {
+    trainingLoadServiceInstance = new TrainingLoadService(config);
+  }
+  return trainingLoadServiceInstance;
+}
@@ -0,0 +1,57 @@
+import { TrainingLoadDay } from '../models/database.types';
+
+// Time constants of the acute (fatigue) and chronic (fitness) averages, in days
+export const ATL_DAYS = 7;
+export const CTL_DAYS = 42;
+// Below this chronic load the acute:chronic ratio is noise
+const MIN_CTL_FOR_ACWR = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Banister's TRIMP: minutes weighted by heart rate reserve, exponentially so
+// that hard minutes count for more. Uses the commonly quoted male
+// coefficients (0.64, 1.92). Null without a usable heart rate.
+export function trimp(movingSeconds: number, averageHeartrate: number | null, hrRest: number, hrMax: number): number | null {
+  if (!averageHeartrate || !movingSeconds || hrMax <= hrRest) return null;
+  const reserve = Math.min(Math.max((averageHeartrate - hrRest) / (hrMax - hrRest), 0), 1);
+  return (movingSeconds / 60) * reserve * 0.64 * Math.exp(1.92 * reserve);
+}
+
+// Running TSS from pace: hours times intensity factor squared times 100,
+// where intensity is average speed over threshold speed. An hour at
+// threshold scores 100. There's no grade adjustment, so hilly runs score low.
+export function rtss(movingSeconds: number, distance: number, thresholdSpeed: number): number {
+  if (!movingSeconds || !distance || thresholdSpeed <= 0) return 0;
+  const intensity = (distance / movingSeconds) / thresholdSpeed;
+  return (movingSeconds / 3600) * intensity * intensity * 100;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// One entry per day from `start` to `end` (YYYY-MM-DD, inclusive), with
+// exponentially weighted acute and chronic load. Form (TSB) is the previous
+// day's chronic minus acute load, so a hard day doesn't lower that day's form.
+export function loadSeries(dailyLoads: Map<string, number>, start: string, end: string): TrainingLoadDay[] {
+  const series: TrainingLoadDay[] = [];
+  let atl = 0;
+  let ctl = 0;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const load = dailyLoads.get(date) || 0;
+    const tsb = ctl - atl;
+    atl += (load - atl) / ATL_DAYS;
+    ctl += (load - ctl) / CTL_DAYS;
+    series.push({
+      date,
+      load: round(load),
+      atl: round(atl),
+      ctl: round(ctl),
+      tsb: round(tsb),
+      acwr: ctl >= MIN_CTL_FOR_ACWR ? Math.round((atl / ctl) * 100) / 100 : null
+    });
+  }
+  return series;
+}
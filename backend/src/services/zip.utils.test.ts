@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createZipWriter, openZip } from './zip.utils';
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-utils-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+async function writeZip(filePath: string, entries: [string, Buffer | string][]): Promise<void> {
+  const output = fs.createWriteStream(filePath);
+  const zip = createZipWriter(output);
+  for (const [fileName, data] of entries) {
+    await zip.add(fileName, data);
+  }
+  await zip.finish();
+  await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+}
+
+describe('createZipWriter', () => {
+  it('writes entries that read back unchanged', async () => {
+    const filePath = path.join(tempDir, 'export.zip');
+    const binary = Buffer.from(Array.from({ length: 70000 }, (_, i) => (i * 7) % 256));
+    await writeZip(filePath, [
+      ['export.json', JSON.stringify({ runs: [] })],
+      ['gpx/Läufe am Morgen.gpx', '<gpx></gpx>'],
+      ['data.bin', binary],
+      ['empty.csv', '']
+    ]);
+
+    const zip = await openZip(filePath);
+    try {
+      expect(zip.entries.map(e => e.fileName)).toEqual(['export.json', 'gpx/Läufe am Morgen.gpx', 'data.bin', 'empty.csv']);
+      expect((await zip.read(zip.entries[0])).toString()).toBe('{"runs":[]}');
+      expect((await zip.read(zip.entries[1])).toString()).toBe('<gpx></gpx>');
+      expect((await zip.read(zip.entries[2])).equals(binary)).toBe(true);
+      expect((await zip.read(zip.entries[3])).length).toBe(0);
+    } finally {
+      zip.close();
+    }
+  });
+
+  it('writes an empty archive', async () => {
+    const filePath = path.join(tempDir, 'empty.zip');
+    await writeZip(filePath, []);
+
+    const zip = await openZip(filePath);
+    expect(zip.entries).toEqual([]);
+    zip.close();
+  });
+});
+
+describe('openZip', () => {
+  it('rejects files that are not ZIP archives', async () => {
+    const filePath = path.join(tempDir, 'export.json');
+    fs.writeFileSync(filePath, '{}');
+
+    await expect(openZip(filePath)).rejects.toThrow('Not a valid ZIP archive');
+  });
+});
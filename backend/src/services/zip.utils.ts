@@ -0,0 +1,147 @@
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import yauzl from 'yauzl';
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+// A ZIP read from disk. Only the central directory is loaded; each entry is
+// inflated when it is read, so multi-GB archives never sit in memory.
+export interface ZipArchive {
+  entries: yauzl.Entry[];
+  stream(entry: yauzl.Entry): Promise<Readable>;
+  read(entry: yauzl.Entry): Promise<Buffer>;
+  close(): void;
+}
+
+export async function openZip(filePath: string): Promise<ZipArchive> {
+  let zip: yauzl.ZipFile;
+  let entries: yauzl.Entry[];
+  try {
+    zip = await yauzl.openPromise(filePath, { lazyEntries: true, autoClose: false });
+    entries = await readEntries(zip);
+  } catch (error: any) {
+    throw new Error(`Not a valid ZIP archive: ${error.message}`);
+  }
+
+  return {
+    entries: entries.filter(entry => !entry.fileName.endsWith('/')),
+    stream: entry => zip.openReadStreamPromise(entry),
+    read: async entry => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of await zip.openReadStreamPromise(entry)) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks);
+    },
+    close: () => zip.close()
+  };
+}
+
+function readEntries(zip: yauzl.ZipFile): Promise<yauzl.Entry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: yauzl.Entry[] = [];
+    zip.on('entry', (entry: yauzl.Entry) => {
+      entries.push(entry);
+      zip.readEntry();
+    });
+    zip.on('end', () => resolve(entries));
+    zip.on('error', reject);
+    zip.readEntry();
+  });
+}
+
+// A ZIP written to a stream one entry at a time. Each entry is deflated and
+// written as soon as it is added, so the archive is never held in memory.
+// No ZIP64: entries and the archive must stay under 4 GB.
+export interface ZipWriter {
+  add(fileName: string, data: Buffer | string): Promise<void>;
+  // Writes the central directory; the caller ends the stream
+  finish(): Promise<void>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0: deflate
+const UTF8_NAMES_FLAG = 0x0800;
+const DEFLATE_METHOD = 8;
+
+export function createZipWriter(output: Writable): ZipWriter {
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+
+  const write = async (chunk: Buffer): Promise<void> => {
+    offset += chunk.length;
+    if (!output.write(chunk)) await once(output, 'drain');
+  };
+
+  return {
+    add: async (fileName, data) => {
+      const content = typeof data === 'string' ? Buffer.from(data) : data;
+      const compressed = await deflateRaw(content);
+      const name = Buffer.from(fileName);
+      const { time, date } = dosDateTime(new Date());
+
+      // Fields shared by the local and central headers, from "version needed" to the extra field length
+      const common = Buffer.alloc(26);
+      common.writeUInt16LE(ZIP_VERSION, 0);
+      common.writeUInt16LE(UTF8_NAMES_FLAG, 2);
+      common.writeUInt16LE(DEFLATE_METHOD, 4);
+      common.writeUInt16LE(time, 6);
+      common.writeUInt16LE(date, 8);
+      common.writeUInt32LE(crc32(content), 10);
+      common.writeUInt32LE(compressed.length, 14);
+      common.writeUInt32LE(content.length, 18);
+      common.writeUInt16LE(name.length, 22);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+      central.writeUInt16LE(ZIP_VERSION, 4);
+      common.copy(central, 6);
+      central.writeUInt32LE(offset, 42);
+      centralHeaders.push(central, name);
+
+      const local = Buffer.alloc(4);
+      local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+      await write(Buffer.concat([local, common, name]));
+      await write(compressed);
+    },
+    finish: async () => {
+      const directory = Buffer.concat(centralHeaders);
+      const entries = centralHeaders.length / 2;
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+      end.writeUInt16LE(entries, 8);
+      end.writeUInt16LE(entries, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(offset, 16);
+      await write(directory);
+      await write(end);
+    }
+  };
+}
+
+// MS-DOS time and date, in local time, as ZIP headers store them
+function dosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
+
+// zlib.crc32 needs Node 20.15
+const CRC32_TABLE = Int32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+function crc32(data: Buffer): number {
+  let crc = -1;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
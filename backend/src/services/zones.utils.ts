@@ -0,0 +1,108 @@
+import { EffectiveAthleteProfile, HrZone, HrZoneModel, PaceZone } from '../models/database.types';
+import { formatSplitPace } from './splits.utils';
+
+const HR_ZONE_NAMES = ['Recovery', 'Endurance', 'Tempo', 'Threshold', 'VO2max'];
+
+// Lower bounds of zones 2 to 5, as fractions of max HR (percent_max), of heart
+// rate reserve (karvonen) or of threshold HR (lthr, Friel's running zones
+// with 5a-5c as one zone)
+const HR_ZONE_BOUNDS: Record<HrZoneModel, number[]> = {
+  percent_max: [0.6, 0.7, 0.8, 0.9],
+  karvonen: [0.6, 0.7, 0.8, 0.9],
+  lthr: [0.85, 0.9, 0.95, 1.0]
+};
+
+const PACE_ZONE_NAMES = ['Recovery', 'Easy', 'Steady', 'Tempo', 'Interval', 'Repetition'];
+
+// Lower bounds of pace zones 2 to 6, as fractions of threshold speed. At
+// Daniels' paces, easy runs fall in zone 2, marathon pace in 3, threshold
+// pace in 4, interval pace in 5 and repetition pace in 6.
+const PACE_ZONE_BOUNDS = [0.75, 0.87, 0.96, 1.04, 1.12];
+
+// A gap between samples longer than this is a pause; it isn't counted
+const MAX_SAMPLE_GAP = 30;
+// Pace is taken over stretches of at least this many seconds, so GPS jitter
+// between single samples doesn't land in the fast zones
+const PACE_WINDOW = 10;
+
+export function hrZones(model: HrZoneModel, profile: EffectiveAthleteProfile): HrZone[] {
+  const toHr = (fraction: number): number => {
+    switch (model) {
+      case 'karvonen':
+        return Math.round(profile.resting_hr + fraction * (profile.max_hr - profile.resting_hr));
+      case 'lthr':
+        return Math.round(fraction * profile.threshold_hr);
+      default:
+        return Math.round(fraction * profile.max_hr);
+    }
+  };
+
+  const bounds = [0, ...HR_ZONE_BOUNDS[model].map(toHr)];
+  return HR_ZONE_NAMES.map((name, i) => ({
+    zone: i + 1,
+    name,
+    min_hr: bounds[i],
+    max_hr: i + 1 < bounds.length ? bounds[i + 1] : null
+  }));
+}
+
+// Index (0-4) of the zone a heart rate falls in
+export function zoneIndex(zones: HrZone[], heartrate: number): number {
+  const index = zones.findIndex(zone => zone.max_hr === null || heartrate < zone.max_hr);
+  return index === -1 ? zones.length - 1 : index;
+}
+
+// Seconds spent in each zone. Each interval between samples counts towards
+// the zone of its first sample's heart rate.
+export function timeInZones(stream: { time: number[]; heartrate: number[] }, zones: HrZone[]): number[] {
+  const seconds = zones.map(() => 0);
+  const n = Math.min(stream.time.length, stream.heartrate.length);
+  for (let i = 0; i < n - 1; i++) {
+    const gap = stream.time[i + 1] - stream.time[i];
+    const heartrate = stream.heartrate[i];
+    if (gap <= 0 || gap > MAX_SAMPLE_GAP || !heartrate) continue;
+    seconds[zoneIndex(zones, heartrate)] += gap;
+  }
+  return seconds;
+}
+
+export function paceZones(thresholdSpeed: number): PaceZone[] {
+  const bounds = [0, ...PACE_ZONE_BOUNDS.map(fraction => fraction * thresholdSpeed)];
+  return PACE_ZONE_NAMES.map((name, i) => {
+    const minSpeed = bounds[i];
+    const maxSpeed = i + 1 < bounds.length ? bounds[i + 1] : null;
+    return {
+      zone: i + 1,
+      name,
+      min_speed: Math.round(minSpeed * 1000) / 1000,
+      max_speed: maxSpeed !== null ? Math.round(maxSpeed * 1000) / 1000 : null,
+      slowest_pace: minSpeed > 0 ? formatSplitPace(1000 / minSpeed) : null,
+      fastest_pace: maxSpeed !== null ? formatSplitPace(1000 / maxSpeed) : null
+    };
+  });
+}
+
+// Index (0-5) of the pace zone a speed (m/s) falls in
+export function paceZoneIndex(zones: PaceZone[], speed: number): number {
+  const index = zones.findIndex(zone => zone.max_speed === null || speed < zone.max_speed);
+  return index === -1 ? zones.length - 1 : index;
+}
+
+// Seconds spent in each pace zone, from stretches of at least PACE_WINDOW
+// seconds. Pauses split stretches and aren't counted.
+export function timeInPaceZones(stream: { time: number[]; distance: number[] }, zones: PaceZone[]): number[] {
+  const seconds = zones.map(() => 0);
+  const n = Math.min(stream.time.length, stream.distance.length);
+  let start = 0;
+  for (let i = 1; i < n; i++) {
+    if (stream.time[i] - stream.time[i - 1] > MAX_SAMPLE_GAP) {
+      start = i;
+      continue;
+    }
+    const duration = stream.time[i] - stream.time[start];
+    if (duration < PACE_WINDOW) continue;
+    seconds[paceZoneIndex(zones, (stream.distance[i] - stream.distance[start]) / duration)] += duration;
+    start = i;
+  }
+  return seconds;
+}
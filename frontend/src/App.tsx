@@ -7,6 +7,7 @@ import Parkrun from '@/pages/Parkrun';
 import Settings from '@/pages/Settings';
 import Recommendations from '@/pages/Recommendations';
 import Calendar from '@/pages/Calendar';
+import Trash from '@/pages/Trash';
 
 function App() {
   const navItems = [
@@ -15,6 +16,7 @@ function App() {
     { label: 'Stats', to: '/stats' },
     { label: 'Parkrun', to: '/parkrun' },
     { label: 'Recommendations', to: '/recommendations' },
+    { label: 'Trash', to: '/trash' },
     { label: 'Settings', to: '/settings' }
   ];
 
@@ -51,6 +53,7 @@ function App() {
           <Route path="/stats" element={<Stats />} />
           <Route path="/parkrun" element={<Parkrun />} />
           <Route path="/recommendations" element={<Recommendations />} />
+          <Route path="/trash" element={<Trash />} />
           <Route path="/settings" element={<Settings />} />
         </Routes>
       </main>
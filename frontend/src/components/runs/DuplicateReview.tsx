@@ -0,0 +1,138 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { getRunDuplicates, mergeRunDuplicate, dismissRunDuplicate } from '@/lib/api-client';
+import { Copy } from 'lucide-react';
+
+interface DuplicateRun {
+  id: number;
+  strava_id: number | null;
+  name: string;
+  distance: number;
+  moving_time: number;
+  start_date_local: string;
+  average_heartrate: number | null;
+}
+
+interface DuplicatePair {
+  id: number;
+  time_overlap: number;
+  distance_difference: number;
+  start_distance: number | null;
+  confidence: 'high' | 'medium';
+  run: DuplicateRun | null;
+  duplicate_run: DuplicateRun | null;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export default function DuplicateReview() {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['duplicates'],
+    queryFn: () => getRunDuplicates(),
+    staleTime: 30000
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['runs'] });
+    queryClient.invalidateQueries({ queryKey: ['stats'] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, keepRunId }: { id: number; keepRunId: number }) => mergeRunDuplicate(id, keepRunId),
+    onSuccess: () => {
+      toast.success('✓ Runs merged');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Merge failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: number) => dismissRunDuplicate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Dismiss failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const pairs: DuplicatePair[] = (data?.duplicates || []).filter((p: DuplicatePair) => p.run && p.duplicate_run);
+  if (pairs.length === 0) {
+    return null;
+  }
+
+  const busy = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Copy className="mr-2 h-5 w-5" />
+          Possible Duplicates
+          <Badge variant="warning" className="ml-2">{pairs.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          These runs overlap in time and distance. Keep one to merge them: missing details such as heart rate
+          or the route are copied over from the other before it is removed.
+        </p>
+        {pairs.map(pair => (
+          <div key={pair.id} className="space-y-3 rounded-md border p-3">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant={pair.confidence === 'high' ? 'destructive' : 'secondary'}>
+                {pair.confidence === 'high' ? 'Likely duplicate' : 'Possible duplicate'}
+              </Badge>
+              <span>{Math.round(pair.time_overlap * 100)}% time overlap</span>
+              <span>• {(pair.distance_difference * 100).toFixed(1)}% distance difference</span>
+              {pair.start_distance !== null && <span>• starts {pair.start_distance} m apart</span>}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {[pair.run!, pair.duplicate_run!].map(run => (
+                <div key={run.id} className="space-y-1 rounded-md bg-muted p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="truncate font-medium">{run.name}</p>
+                    <Badge variant="outline">{run.strava_id ? 'Strava' : 'Upload'}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{format(new Date(run.start_date_local), 'PPP p')}</p>
+                  <p className="text-xs">
+                    {(run.distance / 1000).toFixed(2)} km • {formatDuration(run.moving_time)}
+                    {run.average_heartrate ? ` • ${Math.round(run.average_heartrate)} bpm` : ''}
+                  </p>
+                  <Button
+                    size="sm"
+                    className="mt-1 w-full"
+                    disabled={busy}
+                    onClick={() => mergeMutation.mutate({ id: pair.id, keepRunId: run.id })}
+                  >
+                    Keep this run
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={busy}
+              onClick={() => dismissMutation.mutate(pair.id)}
+            >
+              Not a duplicate
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
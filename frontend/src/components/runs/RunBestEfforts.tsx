@@ -0,0 +1,59 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { getRunBestEfforts } from '@/lib/api-client';
+
+interface RunBestEffortsProps {
+  runId: number;
+}
+
+function formatOffset(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function RunBestEfforts({ runId }: RunBestEffortsProps) {
+  const { data } = useQuery({
+    queryKey: ['runs', runId, 'best-efforts'],
+    queryFn: () => getRunBestEfforts(runId),
+    staleTime: 300000
+  });
+
+  const efforts = data?.efforts || [];
+  if (efforts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">Best Efforts</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-normal">Distance</th>
+            <th className="py-1 font-normal">Time</th>
+            <th className="py-1 font-normal">Pace</th>
+            <th className="py-1 font-normal">From</th>
+          </tr>
+        </thead>
+        <tbody>
+          {efforts.map(effort => (
+            <tr key={effort.distance_key} className="border-t">
+              <td className="py-1">
+                {effort.label}
+                {effort.rank === 1 && <Badge className="ml-1 px-1.5 py-0 text-[10px]">PR</Badge>}
+                {effort.rank === 2 && <Badge variant="secondary" className="ml-1 px-1.5 py-0 text-[10px]">2nd</Badge>}
+                {effort.rank === 3 && <Badge variant="secondary" className="ml-1 px-1.5 py-0 text-[10px]">3rd</Badge>}
+              </td>
+              <td className="py-1 font-medium">{effort.time}</td>
+              <td className="py-1">{effort.pace}</td>
+              <td className="py-1 text-muted-foreground">
+                {effort.start_offset !== null ? formatOffset(effort.start_offset) : 'Whole run'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
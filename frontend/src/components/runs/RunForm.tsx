@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createRun, updateRun, RunInput, WorkoutType } from '@/lib/api-client';
+import { WORKOUT_TYPE_LABELS } from '@/components/runs/WorkoutTypeBadge';
+
+const RUN_TYPES = [
+  { value: 'Run', label: 'Run' },
+  { value: 'TrailRun', label: 'Trail Run' },
+  { value: 'VirtualRun', label: 'Treadmill / Virtual' },
+  { value: 'Race', label: 'Race' }
+];
+
+const FIELD_CLASS = 'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+interface RunFormProps {
+  // Run to edit; a new run is created when omitted
+  run?: any;
+  onClose: () => void;
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+}
+
+// 'h:mm:ss', 'mm:ss' or plain minutes -> seconds
+function parseDuration(value: string): number | null {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.some(p => !Number.isFinite(p) || p < 0)) return null;
+  if (parts.length === 1) return Math.round(parts[0] * 60);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return parts.length <= 3 ? Math.round(seconds) : null;
+}
+
+export default function RunForm({ run, onClose }: RunFormProps) {
+  const queryClient = useQueryClient();
+  const isEdit = !!run;
+
+  const initialForm = {
+    name: run?.name ?? '',
+    type: run?.type ?? 'Run',
+    start: run ? run.start_date_local.slice(0, 16) : '',
+    distanceKm: run ? (run.distance / 1000).toFixed(2) : '',
+    movingTime: run ? formatDuration(run.moving_time) : '',
+    elapsedTime: run && run.elapsed_time !== run.moving_time ? formatDuration(run.elapsed_time) : '',
+    averageHeartrate: run?.average_heartrate ? String(run.average_heartrate) : '',
+    notes: run?.notes ?? '',
+    tags: (run?.tags ?? []).join(', '),
+    // '' leaves it to the classifier
+    workoutType: (run?.workout_type_manual ? run.workout_type : '') as WorkoutType | ''
+  };
+  const [form, setForm] = useState(initialForm);
+
+  const set = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const saveMutation = useMutation({
+    mutationFn: (input: RunInput) => (isEdit ? updateRun(run.id, input) : createRun(input)),
+    onSuccess: () => {
+      toast.success(isEdit ? '✓ Run updated' : '✓ Run added');
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Save failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const distance = parseFloat(form.distanceKm);
+    const movingTime = parseDuration(form.movingTime);
+    const elapsedTime = form.elapsedTime ? parseDuration(form.elapsedTime) : movingTime;
+    if (!form.name.trim() || !form.start || !Number.isFinite(distance) || !movingTime || !elapsedTime) {
+      toast.error('✗ Name, start, distance and moving time are required');
+      return;
+    }
+
+    const fields: [keyof typeof form, RunInput][] = [
+      ['name', { name: form.name.trim() }],
+      ['type', { type: form.type }],
+      ['start', { start_date: new Date(form.start).toISOString(), start_date_local: `${form.start}:00` }],
+      ['distanceKm', { distance: Math.round(distance * 1000) }],
+      ['movingTime', { moving_time: movingTime }],
+      ['elapsedTime', { elapsed_time: elapsedTime }],
+      ['averageHeartrate', { average_heartrate: form.averageHeartrate ? parseFloat(form.averageHeartrate) : null }],
+      ['notes', { notes: form.notes.trim() || null }],
+      ['tags', { tags: form.tags.split(',').map((t: string) => t.trim()).filter(Boolean) }],
+      ['workoutType', { workout_type: form.workoutType || null }]
+    ];
+    // When editing, only send what changed: the form shows rounded values
+    // (distance to 10 m, start to the minute in this browser's time zone), so
+    // sending them back would rewrite the stored ones
+    const input: RunInput = Object.assign({}, ...fields
+      .filter(([field]) => !isEdit || form[field] !== initialForm[field])
+      .map(([, value]) => value));
+    if (Object.keys(input).length === 0) {
+      onClose();
+      return;
+    }
+
+    saveMutation.mutate(input);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isEdit ? 'Edit Run' : 'Add Run'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="run-name">Name</Label>
+              <Input id="run-name" value={form.name} onChange={set('name')} placeholder="Evening treadmill" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-type">Type</Label>
+              <select id="run-type" className={`${FIELD_CLASS} h-10`} value={form.type} onChange={set('type')}>
+                {RUN_TYPES.map(t => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-start">Start</Label>
+              <Input id="run-start" type="datetime-local" value={form.start} onChange={set('start')} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-distance">Distance (km)</Label>
+              <Input id="run-distance" type="number" step="0.01" min="0" value={form.distanceKm} onChange={set('distanceKm')} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-moving">Moving time (h:mm:ss)</Label>
+              <Input id="run-moving" value={form.movingTime} onChange={set('movingTime')} placeholder="0:45:00" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-elapsed">Elapsed time (optional)</Label>
+              <Input id="run-elapsed" value={form.elapsedTime} onChange={set('elapsedTime')} placeholder="Same as moving time" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-hr">Avg heart rate (optional)</Label>
+              <Input id="run-hr" type="number" min="20" max="250" value={form.averageHeartrate} onChange={set('averageHeartrate')} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-tags">Tags (comma separated)</Label>
+              <Input id="run-tags" value={form.tags} onChange={set('tags')} placeholder="treadmill, intervals" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="run-workout">Workout</Label>
+              <select id="run-workout" className={`${FIELD_CLASS} h-10`} value={form.workoutType} onChange={set('workoutType')}>
+                <option value="">
+                  Automatic{run?.workout_type && !run.workout_type_manual ? ` (${WORKOUT_TYPE_LABELS[run.workout_type as WorkoutType]})` : ''}
+                </option>
+                {(Object.keys(WORKOUT_TYPE_LABELS) as WorkoutType[]).map(workoutType => (
+                  <option key={workoutType} value={workoutType}>{WORKOUT_TYPE_LABELS[workoutType]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="run-notes">Notes</Label>
+            <textarea id="run-notes" rows={3} className={FIELD_CLASS} value={form.notes} onChange={set('notes')} />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {isEdit ? 'Save' : 'Add Run'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { useQuery } from '@tanstack/react-query';
+import { getRunHrZones } from '@/lib/api-client';
+
+interface RunHrZonesProps {
+  runId: number;
+}
+
+// Zone 1 to 5, easy to hard
+export const HR_ZONE_COLORS = ['#94a3b8', '#3b82f6', '#10b981', '#f59e0b', '#ef4444'];
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+export default function RunHrZones({ runId }: RunHrZonesProps) {
+  const { data, isError } = useQuery({
+    queryKey: ['runs', runId, 'hr-zones'],
+    queryFn: () => getRunHrZones(runId),
+    retry: false,
+    staleTime: 300000
+  });
+
+  if (isError || !data) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Heart Rate Zones</p>
+        <p className="text-xs text-muted-foreground">
+          {data.source === 'streams' ? 'From heart rate stream' : 'From average heart rate'}
+        </p>
+      </div>
+      <div className="flex h-4 w-full overflow-hidden rounded-full bg-muted">
+        {data.zones.map((zone, i) => zone.percent > 0 && (
+          <div
+            key={zone.zone}
+            style={{ width: `${zone.percent}%`, backgroundColor: HR_ZONE_COLORS[i] }}
+            title={`Z${zone.zone} ${zone.name}: ${zone.percent}%`}
+          />
+        ))}
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          {data.zones.map((zone, i) => (
+            <tr key={zone.zone} className="border-t">
+              <td className="py-1">
+                <span className="mr-2 inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: HR_ZONE_COLORS[i] }} />
+                Z{zone.zone} {zone.name}
+              </td>
+              <td className="py-1 text-muted-foreground">
+                {zone.max_hr !== null ? `${zone.min_hr}–${zone.max_hr} bpm` : `${zone.min_hr}+ bpm`}
+              </td>
+              <td className="py-1">{formatDuration(zone.seconds)}</td>
+              <td className="py-1 text-right font-medium">{zone.percent}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
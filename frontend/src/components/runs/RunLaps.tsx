@@ -0,0 +1,79 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { getRunLaps } from '@/lib/api-client';
+
+interface RunLapsProps {
+  runId: number;
+}
+
+interface Lap {
+  id: number;
+  lap_index: number;
+  name: string | null;
+  distance: number;
+  moving_time: number;
+  pace: string;
+  average_heartrate: number | null;
+  intensity: string | null;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Rest and recovery laps are dimmed so the work reps of an interval session stand out
+const RECOVERY_INTENSITIES = ['rest', 'recovery', 'warmup', 'cooldown'];
+
+export default function RunLaps({ runId }: RunLapsProps) {
+  const { data } = useQuery({
+    queryKey: ['runs', runId, 'laps'],
+    queryFn: () => getRunLaps(runId),
+    staleTime: 300000
+  });
+
+  const laps: Lap[] = data?.laps || [];
+  // A single auto-lap covering the whole run says nothing about structure
+  if (laps.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">Laps</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-normal">Lap</th>
+            <th className="py-1 font-normal">Dist</th>
+            <th className="py-1 font-normal">Time</th>
+            <th className="py-1 font-normal">Pace</th>
+            <th className="py-1 font-normal">HR</th>
+          </tr>
+        </thead>
+        <tbody>
+          {laps.map(lap => {
+            const recovery = lap.intensity !== null && RECOVERY_INTENSITIES.includes(lap.intensity);
+            return (
+              <tr key={lap.id} className={`border-t ${recovery ? 'text-muted-foreground' : ''}`}>
+                <td className="py-1">
+                  {lap.lap_index + 1}
+                  {lap.intensity && lap.intensity !== 'active' && (
+                    <Badge variant="outline" className="ml-1 px-1.5 py-0 text-[10px]">{lap.intensity}</Badge>
+                  )}
+                </td>
+                <td className="py-1">
+                  {lap.distance >= 1000 ? `${(lap.distance / 1000).toFixed(2)} km` : `${Math.round(lap.distance)} m`}
+                </td>
+                <td className="py-1">{formatDuration(lap.moving_time)}</td>
+                <td className="py-1 font-medium">{lap.pace}</td>
+                <td className="py-1">{lap.average_heartrate ? Math.round(lap.average_heartrate) : '–'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { getRunSplits } from '@/lib/api-client';
+
+interface RunSplitsProps {
+  runId: number;
+}
+
+interface Split {
+  split: number;
+  distance: number;
+  moving_time: number;
+  pace_seconds: number | null;
+  pace: string;
+  elevation_difference: number | null;
+  average_heartrate: number | null;
+}
+
+function formatPace(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function RunSplits({ runId }: RunSplitsProps) {
+  const [unit, setUnit] = useState<'km' | 'mi'>('km');
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['runs', runId, 'splits', unit],
+    queryFn: () => getRunSplits(runId, unit),
+    retry: false,
+    staleTime: 300000
+  });
+
+  const splits: Split[] = data?.splits || [];
+  const paces = splits.map(s => s.pace_seconds).filter((p): p is number => p !== null);
+  const fastest = paces.length > 0 ? Math.min(...paces) : 0;
+  const slowest = paces.length > 0 ? Math.max(...paces) : 0;
+  // Bars show speed relative to the slowest split so faster splits stand taller
+  const chartData = splits.map(s => ({
+    label: s.distance < data.split_distance * 0.95 ? `${s.split}*` : `${s.split}`,
+    pace: s.pace,
+    height: s.pace_seconds ? slowest * 1.1 - s.pace_seconds : 0,
+    fastest: s.pace_seconds === fastest
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Splits</p>
+        <div className="flex gap-1">
+          {(['km', 'mi'] as const).map(u => (
+            <Button
+              key={u}
+              size="sm"
+              variant={unit === u ? 'default' : 'outline'}
+              onClick={() => setUnit(u)}
+            >
+              {u}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading splits…</p>}
+      {isError && <p className="text-sm text-muted-foreground">No split data for this run</p>}
+
+      {splits.length > 0 && (
+        <>
+          <ResponsiveContainer width="100%" height={120}>
+            <BarChart data={chartData}>
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis hide domain={[0, 'dataMax']} />
+              <Tooltip
+                contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                formatter={(_: number, __: string, item: any) => [`${item.payload.pace} /${unit}`, 'Pace']}
+              />
+              <Bar dataKey="height" radius={[4, 4, 0, 0]}>
+                {chartData.map((entry, index) => (
+                  <Cell key={index} fill={entry.fastest ? '#10b981' : '#14b8a6'} fillOpacity={entry.fastest ? 1 : 0.7} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-normal">{unit === 'km' ? 'Km' : 'Mile'}</th>
+                <th className="py-1 font-normal">Pace</th>
+                <th className="py-1 font-normal">Elev</th>
+                <th className="py-1 font-normal">HR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {splits.map(s => (
+                <tr key={s.split} className="border-t">
+                  <td className="py-1">
+                    {s.distance < data.split_distance * 0.95
+                      ? `${(s.distance / data.split_distance).toFixed(2)}`
+                      : s.split}
+                  </td>
+                  <td className={`py-1 font-medium ${s.pace_seconds === fastest ? 'text-emerald-600' : ''}`}>
+                    {s.pace_seconds ? formatPace(s.pace_seconds) : 'N/A'}
+                  </td>
+                  <td className="py-1">
+                    {s.elevation_difference !== null
+                      ? `${s.elevation_difference > 0 ? '+' : ''}${Math.round(s.elevation_difference)} m`
+                      : '–'}
+                  </td>
+                  <td className="py-1">{s.average_heartrate ? Math.round(s.average_heartrate) : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
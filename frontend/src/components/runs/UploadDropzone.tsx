@@ -0,0 +1,142 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { uploadRuns } from '@/lib/api-client';
+import { RefreshCw, Upload } from 'lucide-react';
+
+interface UploadResult {
+  file: string;
+  status: 'created' | 'duplicate' | 'skipped' | 'failed';
+  run_id: number | null;
+  name: string | null;
+  reason: string | null;
+}
+
+const ACCEPTED_EXTENSIONS = ['.gpx', '.tcx', '.fit', '.gpx.gz', '.tcx.gz', '.fit.gz'];
+
+const STATUS_BADGES = {
+  created: { label: 'Created', variant: 'success' },
+  duplicate: { label: 'Duplicate', variant: 'secondary' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+  failed: { label: 'Failed', variant: 'destructive' }
+} as const;
+
+function isAccepted(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+export default function UploadDropzone() {
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => {
+      setProgress(0);
+      return uploadRuns(files, setProgress);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      toast.success(`✓ Uploaded ${data.created} runs (${data.duplicate} duplicates, ${data.failed} failed)`);
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Upload failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || uploadMutation.isPending) return;
+    const files = Array.from(fileList).filter(isAccepted);
+    if (files.length === 0) {
+      toast.error('✗ No GPX, TCX or FIT files selected');
+      return;
+    }
+    uploadMutation.mutate(files);
+  };
+
+  const results: UploadResult[] = uploadMutation.data?.results || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Upload className="mr-2 h-5 w-5" />
+          Upload Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className={`flex cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed p-6 text-center transition-colors ${
+            dragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+          }`}
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            handleFiles(e.dataTransfer.files);
+          }}
+        >
+          {uploadMutation.isPending ? (
+            <RefreshCw className="mb-2 h-6 w-6 animate-spin text-muted-foreground" />
+          ) : (
+            <Upload className="mb-2 h-6 w-6 text-muted-foreground" />
+          )}
+          <p className="text-sm font-medium">Drop GPX, TCX or FIT files here, or click to choose</p>
+          <p className="text-xs text-muted-foreground">Up to 100 files at a time; gzipped files are fine too</p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {uploadMutation.isPending && (
+          <div className="space-y-1">
+            <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+              <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {progress < 100 ? `Uploading… ${progress}%` : 'Processing files…'}
+            </p>
+          </div>
+        )}
+
+        {results.length > 0 && !uploadMutation.isPending && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {uploadMutation.data.created} created • {uploadMutation.data.duplicate} duplicates •{' '}
+              {uploadMutation.data.failed} failed
+            </p>
+            <div className="max-h-48 space-y-1 overflow-y-auto rounded-md bg-muted p-2 text-xs">
+              {results.map((result, index) => (
+                <div key={`${result.file}-${index}`} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    <span className="font-medium">{result.file}</span>
+                    {result.reason && <span className="text-muted-foreground"> — {result.reason}</span>}
+                  </span>
+                  <Badge variant={STATUS_BADGES[result.status].variant}>{STATUS_BADGES[result.status].label}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge';
+import { WorkoutType } from '@/lib/api-client';
+
+export const WORKOUT_TYPE_LABELS: Record<WorkoutType, string> = {
+  recovery: 'Recovery',
+  easy: 'Easy',
+  steady: 'Steady',
+  tempo: 'Tempo',
+  interval: 'Intervals',
+  long: 'Long',
+  race: 'Race'
+};
+
+// Chart colours, easy to hard (long and race set apart)
+export const WORKOUT_TYPE_COLORS: Record<WorkoutType, string> = {
+  recovery: '#94a3b8',
+  easy: '#3b82f6',
+  steady: '#10b981',
+  tempo: '#f59e0b',
+  interval: '#ef4444',
+  long: '#8b5cf6',
+  race: '#e11d48'
+};
+
+interface WorkoutTypeBadgeProps {
+  workoutType: WorkoutType | null;
+  manual?: boolean;
+}
+
+export default function WorkoutTypeBadge({ workoutType, manual }: WorkoutTypeBadgeProps) {
+  if (!workoutType) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1.5"
+      title={manual ? 'Set by hand' : 'Classified from pace, heart rate and distance'}
+    >
+      <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: WORKOUT_TYPE_COLORS[workoutType] }} />
+      {WORKOUT_TYPE_LABELS[workoutType]}
+      {manual && '*'}
+    </Badge>
+  );
+}
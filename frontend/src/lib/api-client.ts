@@ -1,8 +1,12 @@
 import api from './api';
 
+export type WorkoutType = 'recovery' | 'easy' | 'steady' | 'tempo' | 'interval' | 'long' | 'race';
+
 export const getRuns = async (params?: {
   startDate?: string;
   endDate?: string;
+  type?: string;
+  workoutType?: WorkoutType;
   limit?: number;
   offset?: number;
   sortBy?: string;
@@ -17,6 +21,56 @@ export const getRun = async (id: number) => {
   return response.data;
 };
 
+export interface RunInput {
+  name?: string;
+  type?: string;
+  distance?: number;
+  moving_time?: number;
+  elapsed_time?: number;
+  start_date?: string;
+  start_date_local?: string;
+  average_heartrate?: number | null;
+  notes?: string | null;
+  tags?: string[];
+  // null hands the workout type back to the classifier
+  workout_type?: WorkoutType | null;
+}
+
+export const createRun = async (run: RunInput) => {
+  const response = await api.post('/runs', run);
+  return response.data;
+};
+
+export const updateRun = async (id: number, run: RunInput) => {
+  const response = await api.patch(`/runs/${id}`, run);
+  return response.data;
+};
+
+export const getRunStreams = async (id: number, params?: { max_points?: number; types?: string }) => {
+  const response = await api.get(`/runs/${id}/streams`, { params });
+  return response.data;
+};
+
+export const getRunLaps = async (id: number) => {
+  const response = await api.get(`/runs/${id}/laps`);
+  return response.data;
+};
+
+export const getRunSplits = async (id: number, unit: 'km' | 'mi' = 'km') => {
+  const response = await api.get(`/runs/${id}/splits`, { params: { unit } });
+  return response.data;
+};
+
+export const getRunBestEfforts = async (id: number): Promise<{ run_id: number; efforts: RunBestEffort[] }> => {
+  const response = await api.get(`/runs/${id}/best-efforts`);
+  return response.data;
+};
+
+export const getRunHrZones = async (id: number, model?: HrZoneModel): Promise<RunHrZones> => {
+  const response = await api.get(`/runs/${id}/hr-zones`, { params: { model } });
+  return response.data;
+};
+
 export const uploadRun = async (file: File, name?: string) => {
   const formData = new FormData();
   formData.append('file', file);
@@ -27,6 +81,18 @@ export const uploadRun = async (file: File, name?: string) => {
   return response.data;
 };
 
+export const uploadRuns = async (files: File[], onProgress?: (percent: number) => void) => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  const response = await api.post('/runs/upload/bulk', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    onUploadProgress: (event) => {
+      if (onProgress && event.total) onProgress(Math.round((event.loaded / event.total) * 100));
+    }
+  });
+  return response.data;
+};
+
 export const deleteRun = async (id: number) => {
   const response = await api.delete(`/runs/${id}`);
   return response.data;
@@ -38,8 +104,12 @@ export const getStravaAuthUrl = async () => {
   return response.data;
 };
 
-export const triggerStravaSync = async () => {
-  const response = await api.post('/strava/sync');
+export const triggerStravaSync = async (options?: {
+  reconcile?: boolean;
+  days?: number;
+  missing?: 'flag' | 'delete';
+}) => {
+  const response = await api.post('/strava/sync', options);
   return response.data;
 };
 
@@ -48,6 +118,337 @@ export const getStravaStatus = async () => {
   return response.data;
 };
 
+export const getStravaBackfill = async () => {
+  const response = await api.get('/strava/backfill');
+  return response.data;
+};
+
+export const startStravaBackfill = async (restart?: boolean) => {
+  const response = await api.post('/strava/backfill', { restart });
+  return response.data;
+};
+
+// Import
+export interface ImportFileResult {
+  file: string;
+  status: 'created' | 'duplicate' | 'skipped' | 'failed';
+  run_id: number | null;
+  strava_id: number | null;
+  name: string | null;
+  reason: string | null;
+}
+
+export interface ImportSummary {
+  total: number;
+  created: number;
+  duplicate: number;
+  skipped: number;
+  failed: number;
+  results: ImportFileResult[];
+}
+
+export const importStravaArchive = async (archive: File) => {
+  const formData = new FormData();
+  formData.append('archive', archive);
+  const response = await api.post('/import/strava-archive', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return response.data as ImportSummary;
+};
+
+export const importAppleHealthExport = async (archive: File) => {
+  const formData = new FormData();
+  formData.append('archive', archive);
+  const response = await api.post('/import/apple-health', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return response.data as ImportSummary;
+};
+
+export interface DataImportSummary {
+  runs: ImportSummary;
+  parkrun_results: { total: number; created: number; existing: number };
+  custom_events: { total: number; created: number; existing: number };
+}
+
+export const importDataExport = async (file: File) => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await api.post('/import/data-export', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return response.data as DataImportSummary;
+};
+
+// Export
+export type ExportPart = 'json' | 'csv' | 'gpx';
+
+// Plain link targets, like getBackupDownloadUrl
+export const getExportUrl = (params: { startDate?: string; endDate?: string; type?: string; include?: ExportPart[] }) => {
+  const query = new URLSearchParams();
+  if (params.startDate) query.set('startDate', params.startDate);
+  if (params.endDate) query.set('endDate', params.endDate);
+  if (params.type) query.set('type', params.type);
+  if (params.include) query.set('include', params.include.join(','));
+  const search = query.toString();
+  return `/api/export${search ? `?${search}` : ''}`;
+};
+
+export const getRunGpxUrl = (id: number) => `/api/runs/${id}/gpx`;
+
+// Duplicates
+export const getRunDuplicates = async (status: 'pending' | 'dismissed' = 'pending') => {
+  const response = await api.get('/duplicates', { params: { status } });
+  return response.data;
+};
+
+export const scanRunDuplicates = async () => {
+  const response = await api.post('/duplicates/scan');
+  return response.data;
+};
+
+export const mergeRunDuplicate = async (id: number, keepRunId?: number) => {
+  const response = await api.post(`/duplicates/${id}/merge`, keepRunId !== undefined ? { keep_run_id: keepRunId } : {});
+  return response.data;
+};
+
+export const dismissRunDuplicate = async (id: number) => {
+  const response = await api.post(`/duplicates/${id}/dismiss`);
+  return response.data;
+};
+
+// Backups
+export interface Backup {
+  name: string;
+  kind: 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore' | 'uploaded' | 'other';
+  size: number;
+  created_at: string;
+}
+
+export interface RestoreResult {
+  restored: string;
+  pre_restore_backup: string;
+  schema_version: number;
+  runs: number;
+}
+
+export const getBackups = async () => {
+  const response = await api.get('/backups');
+  return response.data as { backups: Backup[]; total: number; auto_backup: boolean; schedule: string; keep: number };
+};
+
+export const createBackup = async () => {
+  const response = await api.post('/backups');
+  return response.data as Backup;
+};
+
+export const restoreBackup = async (name: string) => {
+  const response = await api.post(`/backups/${encodeURIComponent(name)}/restore`);
+  return response.data as RestoreResult;
+};
+
+export const restoreBackupUpload = async (file: File) => {
+  const formData = new FormData();
+  formData.append('backup', file);
+  const response = await api.post('/backups/restore', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return response.data as RestoreResult;
+};
+
+// Plain link target, so the browser streams the file straight to disk
+export const getBackupDownloadUrl = (name: string) => `/api/backups/${encodeURIComponent(name)}/download`;
+
+// Retention
+export type RetentionMode = 'archive' | 'strip' | 'delete';
+
+export interface RetentionSettings {
+  keep_years: number;
+  mode: RetentionMode;
+  auto_cleanup: boolean;
+  schedule: string;
+  cutoff: string;
+  archive: { runs: number; bytes: number; oldest: string | null; newest: string | null };
+}
+
+export interface RetentionPreview {
+  mode: RetentionMode;
+  keep_years: number;
+  cutoff: string;
+  runs: number;
+  total_distance: number;
+  heavy_bytes: number;
+  oldest: string | null;
+  newest: string | null;
+  candidates: {
+    id: number;
+    name: string;
+    type: string;
+    start_date: string;
+    distance: number;
+    has_route: boolean;
+    has_streams: boolean;
+    heavy_bytes: number;
+  }[];
+}
+
+export const getRetention = async () => {
+  const response = await api.get('/retention');
+  return response.data as RetentionSettings;
+};
+
+export const previewRetention = async (params?: { keep_years?: number; mode?: RetentionMode; limit?: number }) => {
+  const response = await api.get('/retention/preview', { params });
+  return response.data as RetentionPreview;
+};
+
+export const runRetentionCleanup = async () => {
+  const response = await api.post('/retention/cleanup');
+  return response.data as { mode: RetentionMode; keep_years: number; cutoff: string; runs: number };
+};
+
+// Trash
+export interface TrashedRun {
+  id: number;
+  strava_id: number | null;
+  name: string;
+  type: string;
+  distance: number;
+  moving_time: number;
+  start_date_local: string;
+  deleted_at: string;
+}
+
+export interface TrashedEvent {
+  id: number;
+  date: string;
+  title: string;
+  description?: string;
+  deleted_at: string;
+}
+
+export const getTrash = async () => {
+  const response = await api.get('/trash');
+  return response.data as { runs: TrashedRun[]; custom_events: TrashedEvent[]; total: number; trash_days: number };
+};
+
+export const restoreTrashedRun = async (id: number) => {
+  const response = await api.post(`/trash/runs/${id}/restore`);
+  return response.data;
+};
+
+export const purgeTrashedRun = async (id: number) => {
+  const response = await api.delete(`/trash/runs/${id}`);
+  return response.data;
+};
+
+export const restoreTrashedEvent = async (id: number) => {
+  const response = await api.post(`/trash/custom-events/${id}/restore`);
+  return response.data as CustomEvent;
+};
+
+export const purgeTrashedEvent = async (id: number) => {
+  const response = await api.delete(`/trash/custom-events/${id}`);
+  return response.data;
+};
+
+export const emptyTrash = async () => {
+  const response = await api.delete('/trash');
+  return response.data as { runs: number; custom_events: number };
+};
+
+// Audit log
+export type AuditEntity = 'run' | 'parkrun_result' | 'custom_event';
+export type AuditAction = 'insert' | 'update' | 'trash' | 'restore' | 'archive' | 'delete';
+export type AuditSource = 'strava_poll' | 'webhook' | 'upload' | 'import' | 'parkrun_scrape' | 'user' | 'retention' | 'system';
+
+export interface AuditEntry {
+  id: number;
+  entity_type: AuditEntity;
+  entity_id: number;
+  action: AuditAction;
+  source: AuditSource;
+  label: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  created_at: string;
+}
+
+export const getAuditLog = async (params?: {
+  entity_type?: AuditEntity;
+  entity_id?: number;
+  action?: AuditAction;
+  source?: AuditSource;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}) => {
+  const response = await api.get('/audit', { params });
+  return response.data as { entries: AuditEntry[]; total: number; limit: number; offset: number };
+};
+
+// Athlete
+export type HrZoneModel = 'percent_max' | 'karvonen' | 'lthr';
+
+export interface AthleteProfile {
+  max_hr: number | null;
+  resting_hr: number | null;
+  threshold_hr: number | null;
+  threshold_pace: number | null; // seconds per km
+  hr_zone_model: HrZoneModel;
+  updated_at: string;
+}
+
+export interface EffectiveAthleteProfile {
+  max_hr: number;
+  resting_hr: number;
+  threshold_hr: number;
+  threshold_pace: number;
+  hr_zone_model: HrZoneModel;
+  estimated: ('max_hr' | 'resting_hr' | 'threshold_hr' | 'threshold_pace')[];
+}
+
+export interface HrZone {
+  zone: number;
+  name: string;
+  min_hr: number;
+  max_hr: number | null;
+}
+
+export interface PaceZone {
+  zone: number;
+  name: string;
+  min_speed: number;
+  max_speed: number | null;
+  slowest_pace: string | null;
+  fastest_pace: string | null;
+}
+
+export interface RunHrZones {
+  run_id: number;
+  model: HrZoneModel;
+  source: 'streams' | 'average';
+  zones: (HrZone & { seconds: number; percent: number })[];
+}
+
+export interface HrZoneDistribution {
+  model: HrZoneModel;
+  profile: EffectiveAthleteProfile;
+  zones: HrZone[];
+  weeks: { week_start: string; seconds: number[]; total: number; runs: number }[];
+  totals: number[];
+}
+
+export const getAthleteProfile = async (): Promise<{ profile: AthleteProfile; effective: EffectiveAthleteProfile; zones: HrZone[]; pace_zones: PaceZone[] }> => {
+  const response = await api.get('/athlete');
+  return response.data;
+};
+
+export const updateAthleteProfile = async (profile: Partial<Omit<AthleteProfile, 'updated_at'>>) => {
+  const response = await api.put('/athlete', profile);
+  return response.data;
+};
+
 // Parkrun
 export const getParkrunResults = async (params?: {
   startDate?: string;
@@ -81,8 +482,16 @@ export const getParkrunRunnerStats = async (runnerName: string) => {
 };
 
 // Stats
-export const getStatsSummary = async (days?: number) => {
-  const response = await api.get('/stats/summary', { params: { days } });
+export interface WorkoutTypeStats {
+  workout_type: WorkoutType | null;
+  runs: number;
+  distance: number;
+  moving_time: number;
+  average_pace_seconds: number;
+}
+
+export const getStatsSummary = async (days?: number, workoutType?: WorkoutType) => {
+  const response = await api.get('/stats/summary', { params: { days, workout_type: workoutType } });
   return response.data;
 };
 
@@ -106,8 +515,119 @@ export const getPersonalRecords = async () => {
   return response.data;
 };
 
-export const predict5K = async () => {
-  const response = await api.get('/stats/predict-5k');
+export type BestEffortKey = '400m' | '1k' | '1mi' | '5k' | '10k' | 'half' | 'marathon';
+
+export interface BestEffort {
+  run_id: number;
+  distance_key: BestEffortKey;
+  distance: number;
+  elapsed_time: number;
+  start_offset: number | null;
+  source: 'streams' | 'summary';
+  time: string;
+  pace: string;
+}
+
+export interface RunBestEffort extends BestEffort {
+  label: string;
+  rank: number;
+}
+
+export interface BestEffortRecord extends BestEffort {
+  run_name: string;
+  start_date: string;
+  start_date_local: string;
+}
+
+export interface BestEffortSummary {
+  distance_key: BestEffortKey;
+  label: string;
+  distance: number;
+  best: BestEffortRecord | null;
+  efforts: number;
+  history: BestEffortRecord[];
+}
+
+export const getBestEfforts = async (): Promise<{ distances: BestEffortSummary[] }> => {
+  const response = await api.get('/stats/best-efforts');
+  return response.data;
+};
+
+export const rebuildBestEfforts = async (): Promise<{ runs: number; efforts: number }> => {
+  const response = await api.post('/stats/best-efforts/rebuild');
+  return response.data;
+};
+
+export const rebuildWorkoutTypes = async (): Promise<{ runs: number; threshold_pace: number; threshold_hr: number }> => {
+  const response = await api.post('/stats/workout-types/rebuild');
+  return response.data;
+};
+
+export interface PredictionInput {
+  source: 'race' | 'parkrun' | 'best_effort';
+  run_id: number | null;
+  name: string;
+  date: string;
+  distance: number;
+  elapsed_time: number;
+  time: string;
+  vdot: number;
+}
+
+export interface RacePrediction {
+  distance_key: BestEffortKey;
+  label: string;
+  distance: number;
+  predicted_seconds: number;
+  predicted_time: string;
+  pace: string;
+  riegel_seconds: number;
+  vdot_seconds: number;
+  lower_seconds: number;
+  upper_seconds: number;
+  lower_time: string;
+  upper_time: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface RacePredictions {
+  window_days: number;
+  vdot: number;
+  based_on: PredictionInput[];
+  predictions: RacePrediction[];
+}
+
+export const getRacePredictions = async (): Promise<RacePredictions> => {
+  const response = await api.get('/stats/predictions');
+  return response.data;
+};
+
+export interface TrainingLoadDay {
+  date: string;
+  load: number;
+  atl: number;
+  ctl: number;
+  tsb: number;
+  acwr: number | null;
+}
+
+export interface TrainingLoad {
+  days: number;
+  hr_max: number;
+  hr_rest: number;
+  threshold_pace: string;
+  current: TrainingLoadDay | null;
+  series: TrainingLoadDay[];
+  runs: { run_id: number; name: string; date: string; load: number; method: 'trimp' | 'rtss' }[];
+}
+
+export const getTrainingLoad = async (days?: number): Promise<TrainingLoad> => {
+  const response = await api.get('/stats/training-load', { params: { days } });
+  return response.data;
+};
+
+export const getHrZoneDistribution = async (weeks?: number, model?: HrZoneModel): Promise<HrZoneDistribution> => {
+  const response = await api.get('/stats/hr-zones', { params: { weeks, model } });
   return response.data;
 };
 
@@ -101,10 +101,10 @@ export default function Calendar() {
   };
 
   const handleDeleteCustomEvent = async (id: number) => {
-    if (!confirm('Delete this custom event?')) return;
+    if (!confirm('Move this event to the trash?')) return;
     try {
       await deleteCustomEvent(id);
-      toast.success('Event deleted');
+      toast.success('Event moved to trash');
       refetchCalendar();
       refetchCustom();
     } catch (e: any) {
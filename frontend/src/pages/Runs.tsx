@@ -4,20 +4,36 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { getRuns, deleteRun } from '@/lib/api-client';
-import { MapPin, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getRuns, deleteRun, getRunGpxUrl, WorkoutType } from '@/lib/api-client';
+import { Download, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
 import RunMap from '@/components/maps/RunMap';
+import RunSplits from '@/components/runs/RunSplits';
+import RunLaps from '@/components/runs/RunLaps';
+import RunBestEfforts from '@/components/runs/RunBestEfforts';
+import RunHrZones from '@/components/runs/RunHrZones';
+import UploadDropzone from '@/components/runs/UploadDropzone';
+import DuplicateReview from '@/components/runs/DuplicateReview';
+import RunForm from '@/components/runs/RunForm';
+import WorkoutTypeBadge, { WORKOUT_TYPE_LABELS } from '@/components/runs/WorkoutTypeBadge';
 import { format } from 'date-fns';
 
 export default function Runs() {
   const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
-  const [filters, setFilters] = useState({ startDate: '', endDate: '' });
+  const [filters, setFilters] = useState<{ startDate: string; endDate: string; workoutType: WorkoutType | '' }>({
+    startDate: '',
+    endDate: '',
+    workoutType: ''
+  });
+  // null: no form, 'new': add a run, otherwise the run being edited
+  const [formRun, setFormRun] = useState<any | 'new' | null>(null);
 
   const { data: runsData, refetch } = useQuery({
     queryKey: ['runs', filters],
     queryFn: () => getRuns({
       startDate: filters.startDate || undefined,
       endDate: filters.endDate || undefined,
+      workoutType: filters.workoutType || undefined,
       limit: 100,
       sortBy: 'start_date',
       sortOrder: 'desc'
@@ -26,7 +42,7 @@ export default function Runs() {
   });
 
   const handleDelete = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this run?')) return;
+    if (!confirm('Move this run to the trash? You can restore it from the Trash page.')) return;
     try {
       await deleteRun(id);
       refetch();
@@ -40,7 +56,25 @@ export default function Runs() {
 
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold">Runs</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Runs</h1>
+        <Button onClick={() => setFormRun('new')}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Run
+        </Button>
+      </div>
+
+      {formRun && (
+        <RunForm
+          key={formRun === 'new' ? 'new' : formRun.id}
+          run={formRun === 'new' ? undefined : formRun}
+          onClose={() => setFormRun(null)}
+        />
+      )}
+
+      <UploadDropzone />
+
+      <DuplicateReview />
 
       {/* Filters */}
       <Card>
@@ -70,13 +104,31 @@ export default function Runs() {
                   />
                 </div>
               </div>
+              <div>
+                <Label htmlFor="workoutType" className="text-xs">Workout</Label>
+                <select
+                  id="workoutType"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  value={filters.workoutType}
+                  onChange={(e) => setFilters(prev => ({ ...prev, workoutType: e.target.value as WorkoutType | '' }))}
+                >
+                  <option value="">All workouts</option>
+                  {(Object.keys(WORKOUT_TYPE_LABELS) as WorkoutType[]).map((workoutType) => (
+                    <option key={workoutType} value={workoutType}>
+                      {WORKOUT_TYPE_LABELS[workoutType]}
+                      {runsData?.workout_types?.[workoutType] ? ` (${runsData.workout_types[workoutType]})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => {
                   setFilters({
                     startDate: '',
-                    endDate: ''
+                    endDate: '',
+                    workoutType: ''
                   });
                 }}
               >
@@ -100,21 +152,42 @@ export default function Runs() {
                 <CardHeader className="pb-2">
                   <div className="flex items-start justify-between">
                     <div>
-                      <CardTitle className="text-base">{run.name}</CardTitle>
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        {run.name}
+                        <WorkoutTypeBadge workoutType={run.workout_type} manual={run.workout_type_manual} />
+                        {run.strava_missing_at && (
+                          <Badge variant="warning" title="No longer found on Strava during reconciliation">
+                            Missing on Strava
+                          </Badge>
+                        )}
+                      </CardTitle>
                       <p className="text-sm text-muted-foreground">
                         {format(new Date(run.start_date_local), 'PPP p')}
                       </p>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(run.id);
-                      }}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit run"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setFormRun(run);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(run.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -143,37 +216,71 @@ export default function Runs() {
                       Avg HR: {run.average_heartrate} bpm
                     </p>
                   )}
+                  {run.notes && (
+                    <p className="mt-2 whitespace-pre-line text-sm">{run.notes}</p>
+                  )}
+                  {run.tags?.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {run.tags.map((tag: string) => (
+                        <Badge key={tag} variant="secondary">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))
           ) : (
             <Card>
               <CardContent className="py-8 text-center text-muted-foreground">
-                No runs found. Connect Strava and sync your activities.
+                No runs found. Connect Strava and sync your activities, upload files or add a run by hand.
               </CardContent>
             </Card>
           )}
         </div>
 
-        {/* Map */}
+        {/* Map & splits */}
         <div className="lg:col-span-1">
-          <Card className="sticky top-6 h-[600px]">
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <MapPin className="mr-2 h-5 w-5" />
-                Route Map
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="p-0">
-              {selectedRun && selectedRun.polyline ? (
-                <RunMap polyline={selectedRun.polyline} startLat={selectedRun.latitude_start} startLng={selectedRun.longitude_start} />
-              ) : (
-                <div className="flex h-[500px] items-center justify-center text-muted-foreground">
-                  Select a run to view map
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <div className="sticky top-6 space-y-6">
+            <Card className="h-[600px]">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center">
+                  <MapPin className="mr-2 h-5 w-5" />
+                  Route Map
+                </CardTitle>
+                {selectedRun && selectedRun.polyline && (
+                  <a
+                    href={getRunGpxUrl(selectedRun.id)}
+                    download
+                    title="Download GPX"
+                    className="inline-flex h-9 items-center rounded-md px-3 text-sm hover:bg-accent hover:text-accent-foreground"
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    GPX
+                  </a>
+                )}
+              </CardHeader>
+              <CardContent className="p-0">
+                {selectedRun && selectedRun.polyline ? (
+                  <RunMap polyline={selectedRun.polyline} startLat={selectedRun.latitude_start} startLng={selectedRun.longitude_start} />
+                ) : (
+                  <div className="flex h-[500px] items-center justify-center text-muted-foreground">
+                    Select a run to view map
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {selectedRun && (
+              <Card>
+                <CardContent className="space-y-6 pt-6">
+                  <RunSplits runId={selectedRun.id} />
+                  <RunLaps runId={selectedRun.id} />
+                  <RunBestEfforts runId={selectedRun.id} />
+                  <RunHrZones runId={selectedRun.id} />
+                </CardContent>
+              </Card>
+            )}
+          </div>
         </div>
       </div>
     </div>
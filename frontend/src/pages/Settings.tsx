@@ -4,17 +4,61 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { getStravaStatus, getStravaAuthUrl, triggerStravaSync } from '@/lib/api-client';
-import { getParkrunSchedule, updateParkrunSchedule } from '@/lib/api-client';
-import { RefreshCw, Link2, Unlink } from 'lucide-react';
+import { getStravaStatus, getStravaAuthUrl, triggerStravaSync, getStravaBackfill, startStravaBackfill } from '@/lib/api-client';
+import { getParkrunSchedule, updateParkrunSchedule, importStravaArchive, importAppleHealthExport, scanRunDuplicates, ImportSummary } from '@/lib/api-client';
+import { getBackups, createBackup, restoreBackup, restoreBackupUpload, getBackupDownloadUrl, Backup } from '@/lib/api-client';
+import { getExportUrl, importDataExport, ExportPart } from '@/lib/api-client';
+import { getRetention, previewRetention, runRetentionCleanup, RetentionMode } from '@/lib/api-client';
+import { getAuditLog, AuditEntity, AuditSource, AuditAction } from '@/lib/api-client';
+import { getAthleteProfile, updateAthleteProfile, HrZoneModel } from '@/lib/api-client';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Link2, Unlink, History, Upload, Copy, Database, Download, RotateCcw, FileArchive, Archive, Eye, ScrollText, HeartPulse } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const AUDIT_PAGE_SIZE = 50;
+
+// Threshold pace is entered as m:ss per km and stored in seconds
+function formatPace(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function parsePace(value: string): number {
+  const match = value.trim().match(/^(\d{1,2}):([0-5]\d)$/);
+  if (!match) {
+    throw new Error('Threshold pace must be in m:ss format');
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+const HR_ZONE_MODEL_LABELS: Record<HrZoneModel, string> = {
+  percent_max: 'Percent of max HR',
+  karvonen: 'Karvonen (heart rate reserve)',
+  lthr: 'Lactate threshold HR'
+};
+
 export default function Settings() {
   const queryClient = useQueryClient();
   const [stravaName, setStravaName] = useState('');
   const [parkrunUrl, setParkrunUrl] = useState('');
   const [parkrunSchedule, setParkrunSchedule] = useState('');
   const [parkrunEnabled, setParkrunEnabled] = useState(true);
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
+  const [healthFile, setHealthFile] = useState<File | null>(null);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [exportStart, setExportStart] = useState('');
+  const [exportEnd, setExportEnd] = useState('');
+  const [exportType, setExportType] = useState('');
+  const [exportParts, setExportParts] = useState<ExportPart[]>(['json', 'csv', 'gpx']);
+  const [dataExportFile, setDataExportFile] = useState<File | null>(null);
+  const [auditEntity, setAuditEntity] = useState<AuditEntity | ''>('');
+  const [auditSource, setAuditSource] = useState<AuditSource | ''>('');
+  const [auditAction, setAuditAction] = useState<AuditAction | ''>('');
+  const [auditPage, setAuditPage] = useState(0);
+  const [maxHr, setMaxHr] = useState('');
+  const [restingHr, setRestingHr] = useState('');
+  const [thresholdHr, setThresholdHr] = useState('');
+  const [thresholdPace, setThresholdPace] = useState('');
+  const [zoneModel, setZoneModel] = useState<HrZoneModel>('percent_max');
 
   // Strava status
   const { data: stravaStatus, refetch: refetchStravaStatus } = useQuery({
@@ -23,6 +67,29 @@ export default function Settings() {
     staleTime: 10000
   });
 
+  // Strava history backfill (poll while it's running)
+  const { data: backfill } = useQuery({
+    queryKey: ['strava', 'backfill'],
+    queryFn: () => getStravaBackfill(),
+    enabled: !!stravaStatus?.connected,
+    refetchInterval: (query) => (query.state.data?.running ? 5000 : false)
+  });
+
+  // Athlete profile (heart rates and zone model)
+  const { data: athlete } = useQuery({
+    queryKey: ['athlete'],
+    queryFn: () => getAthleteProfile()
+  });
+
+  useEffect(() => {
+    if (!athlete) return;
+    setMaxHr(athlete.profile.max_hr?.toString() ?? '');
+    setRestingHr(athlete.profile.resting_hr?.toString() ?? '');
+    setThresholdHr(athlete.profile.threshold_hr?.toString() ?? '');
+    setThresholdPace(athlete.profile.threshold_pace !== null ? formatPace(athlete.profile.threshold_pace) : '');
+    setZoneModel(athlete.profile.hr_zone_model);
+  }, [athlete]);
+
   // Parkrun schedule
   const { data: parkrunScheduleData } = useQuery({
     queryKey: ['parkrun', 'schedule'],
@@ -34,6 +101,31 @@ export default function Settings() {
     }
   });
 
+  // Database backups
+  const { data: backupData } = useQuery({
+    queryKey: ['backups'],
+    queryFn: () => getBackups()
+  });
+
+  // Retention settings and archive size
+  const { data: retention } = useQuery({
+    queryKey: ['retention'],
+    queryFn: () => getRetention()
+  });
+
+  // Audit log, a page at a time
+  const { data: auditLog } = useQuery({
+    queryKey: ['audit', auditEntity, auditSource, auditAction, auditPage],
+    queryFn: () => getAuditLog({
+      entity_type: auditEntity || undefined,
+      source: auditSource || undefined,
+      action: auditAction || undefined,
+      limit: AUDIT_PAGE_SIZE,
+      offset: auditPage * AUDIT_PAGE_SIZE
+    }),
+    placeholderData: (previous) => previous
+  });
+
   const syncMutation = useMutation({
     mutationFn: () => triggerStravaSync(),
     onSuccess: (data) => {
@@ -46,6 +138,277 @@ export default function Settings() {
     }
   });
 
+  const reconcileMutation = useMutation({
+    mutationFn: () => triggerStravaSync({ reconcile: true, days: 30 }),
+    onSuccess: (data) => {
+      const r = data.reconciliation;
+      toast.success(
+        `✓ Reconciled: ${r.added.length} added, ${r.updated.length} updated, ` +
+        `${r.removed.length} removed, ${r.flagged.length} missing on Strava`
+      );
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Reconcile failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: (file: File) => importStravaArchive(file),
+    onSuccess: (data) => {
+      toast.success(`✓ Imported ${data.created} runs (${data.duplicate} already present, ${data.failed} failed)`);
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Import failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const healthMutation = useMutation({
+    mutationFn: (file: File) => importAppleHealthExport(file),
+    onSuccess: (data) => {
+      toast.success(`✓ Imported ${data.created} runs (${data.duplicate} already present, ${data.failed} failed)`);
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Import failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const dataImportMutation = useMutation({
+    mutationFn: (file: File) => importDataExport(file),
+    onSuccess: (data) => {
+      toast.success(`✓ Imported ${data.runs.created} runs, ${data.parkrun_results.created} parkrun results and ${data.custom_events.created} events`);
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['parkrun'] });
+      queryClient.invalidateQueries({ queryKey: ['customEvents'] });
+      queryClient.invalidateQueries({ queryKey: ['calendarEvents'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Import failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const duplicateScanMutation = useMutation({
+    mutationFn: () => scanRunDuplicates(),
+    onSuccess: (data) => {
+      toast.success(`✓ Checked ${data.checked} runs: ${data.flagged} flagged, ${data.merged} merged`);
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Scan failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const athleteMutation = useMutation({
+    mutationFn: () => updateAthleteProfile({
+      max_hr: maxHr ? Number(maxHr) : null,
+      resting_hr: restingHr ? Number(restingHr) : null,
+      threshold_hr: thresholdHr ? Number(thresholdHr) : null,
+      threshold_pace: thresholdPace ? parsePace(thresholdPace) : null,
+      hr_zone_model: zoneModel
+    }),
+    onSuccess: () => {
+      toast.success('✓ Athlete profile saved');
+      queryClient.invalidateQueries({ queryKey: ['athlete'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Save failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: (restart: boolean) => startStravaBackfill(restart),
+    onSuccess: (data) => {
+      toast.success(`✓ ${data.message}`);
+      queryClient.invalidateQueries({ queryKey: ['strava', 'backfill'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Backfill failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const backupMutation = useMutation({
+    mutationFn: () => createBackup(),
+    onSuccess: (data) => {
+      toast.success(`✓ Backup created: ${data.name}`);
+      queryClient.invalidateQueries({ queryKey: ['backups'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Backup failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (source: string | File) => (typeof source === 'string' ? restoreBackup(source) : restoreBackupUpload(source)),
+    onSuccess: (data) => {
+      toast.success(`✓ Restored ${data.restored} (${data.runs} runs)`);
+      // Everything may have changed
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Restore failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const retentionPreviewMutation = useMutation({
+    mutationFn: () => previewRetention(),
+    onError: (error: any) => {
+      toast.error(`✗ Preview failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const retentionCleanupMutation = useMutation({
+    mutationFn: () => runRetentionCleanup(),
+    onSuccess: (data) => {
+      toast.success(`✓ ${retentionResultText[data.mode]} ${data.runs} runs`);
+      retentionPreviewMutation.reset();
+      // Runs, stats and the archive have all changed
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Cleanup failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const handleRetentionCleanup = () => {
+    if (!retention) return;
+    const preview = retentionPreviewMutation.data;
+    const count = preview ? `${preview.runs} runs` : 'all runs';
+    const warning = retention.mode === 'delete' ? ' This cannot be undone.' : '';
+    if (!confirm(`${retentionActionText[retention.mode]} ${count} from before ${new Date(retention.cutoff).toLocaleDateString()}?${warning}`)) return;
+    retentionCleanupMutation.mutate();
+  };
+
+  const handleRestore = (source: string | File) => {
+    const name = typeof source === 'string' ? source : source.name;
+    if (!confirm(`Replace all current data with ${name}? A backup of the current database is taken first.`)) return;
+    restoreMutation.mutate(source);
+  };
+
+  const backupKindLabels: Record<Backup['kind'], string> = {
+    scheduled: 'Scheduled',
+    manual: 'Manual',
+    'pre-migration': 'Before upgrade',
+    'pre-restore': 'Before restore',
+    uploaded: 'Uploaded',
+    other: 'Other'
+  };
+
+  const toggleExportPart = (part: ExportPart) =>
+    setExportParts(parts => (parts.includes(part) ? parts.filter(p => p !== part) : [...parts, part]));
+
+  const exportUrl = getExportUrl({
+    ...(exportStart ? { startDate: exportStart } : {}),
+    // Inclusive of the whole end day
+    ...(exportEnd ? { endDate: `${exportEnd}T23:59:59Z` } : {}),
+    ...(exportType ? { type: exportType } : {}),
+    include: exportParts
+  });
+
+  const retentionActionText: Record<RetentionMode, string> = {
+    archive: 'Archive',
+    strip: 'Remove routes and streams of',
+    delete: 'Permanently delete'
+  };
+
+  const retentionResultText: Record<RetentionMode, string> = {
+    archive: 'Archived',
+    strip: 'Removed routes and streams of',
+    delete: 'Deleted'
+  };
+
+  const retentionModeText: Record<RetentionMode, string> = {
+    archive: 'moved to a compressed archive. They still count in stats and records, but no longer appear in the runs list',
+    strip: 'kept, but their route and streams are removed to save space. Maps and splits are no longer available for them',
+    delete: 'deleted'
+  };
+
+  const formatSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+  const auditEntityLabels: Record<AuditEntity, string> = {
+    run: 'Run',
+    parkrun_result: 'Parkrun result',
+    custom_event: 'Event'
+  };
+
+  const auditSourceLabels: Record<AuditSource, string> = {
+    strava_poll: 'Strava sync',
+    webhook: 'Strava webhook',
+    upload: 'Upload',
+    import: 'Import',
+    parkrun_scrape: 'Parkrun scrape',
+    user: 'You',
+    retention: 'Retention cleanup',
+    system: 'System'
+  };
+
+  const auditActionLabels: Record<AuditAction, string> = {
+    insert: 'Added',
+    update: 'Changed',
+    trash: 'Moved to trash',
+    restore: 'Restored',
+    archive: 'Archived',
+    delete: 'Deleted'
+  };
+
+  const formatAuditValue = (value: unknown) =>
+    value === null || value === undefined ? '–' : Array.isArray(value) ? value.join(', ') : String(value);
+
+  const backfillStatusText = () => {
+    const state = backfill?.state;
+    if (!state || state.status === 'idle') return 'Not started';
+    const progress = `${state.runs_added} runs from ${state.activities_fetched} activities`;
+    const oldest = state.oldest_activity_date
+      ? `, back to ${new Date(state.oldest_activity_date).toLocaleDateString()}`
+      : '';
+    switch (state.status) {
+      case 'running':
+        return `Importing… ${progress}${oldest}`;
+      case 'waiting':
+        return `Waiting for Strava rate limit until ${new Date(state.resume_at).toLocaleTimeString()} • ${progress}${oldest}`;
+      case 'rate_limited':
+        return `Paused (daily rate limit) • ${progress}${oldest}`;
+      case 'failed':
+        return `Failed: ${state.error} • ${progress}${oldest}`;
+      case 'completed':
+        return `Completed • ${progress}`;
+      default:
+        return progress;
+    }
+  };
+
+  const renderImportSummary = (data: ImportSummary) => (
+    <div className="space-y-2">
+      <p className="text-sm">
+        {data.created} created • {data.duplicate} duplicates • {data.skipped} skipped • {data.failed} failed
+      </p>
+      {data.results.some((r) => r.status === 'failed') && (
+        <div className="max-h-48 overflow-y-auto rounded-md bg-muted p-2 text-xs">
+          {data.results
+            .filter((r) => r.status === 'failed')
+            .map((r) => (
+              <p key={r.file}>
+                <span className="font-medium">{r.name || r.file}</span>: {r.reason}
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+
   const handleConnectStrava = async () => {
     try {
       const response = await getStravaAuthUrl();
@@ -122,6 +485,44 @@ export default function Settings() {
             </div>
           )}
 
+          {stravaStatus?.connected && (
+            <div className="flex items-center justify-between rounded-md bg-muted p-4">
+              <div>
+                <p className="text-sm font-medium">Reconcile Last 30 Days</p>
+                <p className="text-xs text-muted-foreground">
+                  Re-fetch recent activities to pick up renames, type changes and deletions made on Strava
+                </p>
+              </div>
+              <Button variant="outline" onClick={() => reconcileMutation.mutate()} disabled={reconcileMutation.isPending}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${reconcileMutation.isPending ? 'animate-spin' : ''}`} />
+                Reconcile
+              </Button>
+            </div>
+          )}
+
+          {stravaStatus?.connected && (
+            <div className="flex items-center justify-between rounded-md bg-muted p-4">
+              <div>
+                <p className="text-sm font-medium">Full History Import</p>
+                <p className="text-xs text-muted-foreground">{backfillStatusText()}</p>
+                {backfill?.rate_limit && (
+                  <p className="text-xs text-muted-foreground">
+                    API usage: {backfill.rate_limit.short_usage}/{backfill.rate_limit.short_limit} (15 min),{' '}
+                    {backfill.rate_limit.daily_usage}/{backfill.rate_limit.daily_limit} (daily)
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => backfillMutation.mutate(backfill?.state?.status === 'completed')}
+                disabled={backfill?.running || backfillMutation.isPending}
+              >
+                <History className={`mr-2 h-4 w-4 ${backfill?.running ? 'animate-spin' : ''}`} />
+                {backfill?.state?.status === 'completed' ? 'Re-import History' : 'Import History'}
+              </Button>
+            </div>
+          )}
+
           {!stravaStatus?.connected && (
             <div className="rounded-md bg-muted p-4">
               <p className="text-sm">
@@ -133,6 +534,588 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Athlete profile */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <HeartPulse className="mr-2 h-5 w-5" />
+            Athlete Profile
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Heart rates and threshold pace for zones, training load and workout types. Leave a value empty
+            to estimate it: max HR from the highest heart rate recorded on your runs, threshold HR as 89% of
+            max, threshold pace from your current VDOT.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-5">
+            <div className="grid gap-2">
+              <Label htmlFor="maxHr">Max HR</Label>
+              <Input
+                id="maxHr"
+                type="number"
+                value={maxHr}
+                onChange={(e) => setMaxHr(e.target.value)}
+                placeholder={athlete ? `${athlete.effective.max_hr} (estimated)` : ''}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="restingHr">Resting HR</Label>
+              <Input
+                id="restingHr"
+                type="number"
+                value={restingHr}
+                onChange={(e) => setRestingHr(e.target.value)}
+                placeholder={athlete ? `${athlete.effective.resting_hr} (default)` : ''}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="thresholdHr">Threshold HR</Label>
+              <Input
+                id="thresholdHr"
+                type="number"
+                value={thresholdHr}
+                onChange={(e) => setThresholdHr(e.target.value)}
+                placeholder={athlete ? `${athlete.effective.threshold_hr} (estimated)` : ''}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="thresholdPace">Threshold pace (/km)</Label>
+              <Input
+                id="thresholdPace"
+                value={thresholdPace}
+                onChange={(e) => setThresholdPace(e.target.value)}
+                placeholder={athlete ? `${formatPace(athlete.effective.threshold_pace)} (estimated)` : ''}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="zoneModel">Zone model</Label>
+              <select
+                id="zoneModel"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={zoneModel}
+                onChange={(e) => setZoneModel(e.target.value as HrZoneModel)}
+              >
+                {(Object.keys(HR_ZONE_MODEL_LABELS) as HrZoneModel[]).map((model) => (
+                  <option key={model} value={model}>{HR_ZONE_MODEL_LABELS[model]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {athlete && (
+            <div className="flex flex-wrap gap-2">
+              {athlete.zones.map((zone) => (
+                <Badge key={zone.zone} variant="secondary">
+                  Z{zone.zone} {zone.name}: {zone.max_hr !== null ? `${zone.min_hr}–${zone.max_hr}` : `${zone.min_hr}+`} bpm
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {athlete && (
+            <div className="flex flex-wrap gap-2">
+              {athlete.pace_zones.map((zone) => (
+                <Badge key={zone.zone} variant="outline">
+                  {zone.name}: {zone.slowest_pace === null
+                    ? `slower than ${zone.fastest_pace}`
+                    : zone.fastest_pace === null
+                      ? `faster than ${zone.slowest_pace}`
+                      : `${zone.slowest_pace}–${zone.fastest_pace}`} /km
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={() => athleteMutation.mutate()} disabled={athleteMutation.isPending}>
+            Save Profile
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Strava archive import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5" />
+            Import Strava Archive
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload the ZIP from Strava's "Download your data" (Settings → My Account). Runs are matched
+            by Strava activity ID, so a later sync won't duplicate them. Other activity types are skipped.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="file"
+              accept=".zip"
+              onChange={(e) => setArchiveFile(e.target.files?.[0] || null)}
+            />
+            <Button
+              onClick={() => archiveFile && archiveMutation.mutate(archiveFile)}
+              disabled={!archiveFile || archiveMutation.isPending}
+            >
+              {archiveMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Import
+            </Button>
+          </div>
+
+          {archiveMutation.data && renderImportSummary(archiveMutation.data)}
+        </CardContent>
+      </Card>
+
+      {/* Apple Health import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5" />
+            Import Apple Health Export
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload the export.zip from the Health app (profile picture → Export All Health Data). Running
+            workouts are imported with their heart rate and, for outdoor runs, the route. Workouts that match
+            a run you already have (e.g. also synced to Strava) are skipped.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="file"
+              accept=".zip"
+              onChange={(e) => setHealthFile(e.target.files?.[0] || null)}
+            />
+            <Button
+              onClick={() => healthFile && healthMutation.mutate(healthFile)}
+              disabled={!healthFile || healthMutation.isPending}
+            >
+              {healthMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Import
+            </Button>
+          </div>
+
+          {healthMutation.data && renderImportSummary(healthMutation.data)}
+        </CardContent>
+      </Card>
+
+      {/* Duplicate detection */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Copy className="mr-2 h-5 w-5" />
+            Duplicate Runs
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            New runs from Strava, uploads and imports are checked against runs that overlap in time, distance
+            and start location. Suspected duplicates are listed on the Runs page for review. Scan to check
+            runs added before duplicate detection existed.
+          </p>
+          <Button
+            onClick={() => duplicateScanMutation.mutate()}
+            disabled={duplicateScanMutation.isPending}
+          >
+            {duplicateScanMutation.isPending ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Copy className="mr-2 h-4 w-4" />
+            )}
+            Scan for Duplicates
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Data export */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileArchive className="mr-2 h-5 w-5" />
+            Export Data
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Download your runs, parkrun results and events as a ZIP: export.json with everything (including
+            streams and laps), CSV files for spreadsheets, and a GPX file per run with a route. Leave the
+            dates empty to export everything.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="grid gap-2">
+              <Label htmlFor="exportStart">From</Label>
+              <Input id="exportStart" type="date" value={exportStart} onChange={(e) => setExportStart(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="exportEnd">To</Label>
+              <Input id="exportEnd" type="date" value={exportEnd} onChange={(e) => setExportEnd(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="exportType">Type</Label>
+              <select
+                id="exportType"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={exportType}
+                onChange={(e) => setExportType(e.target.value)}
+              >
+                <option value="">All types</option>
+                <option value="Run">Run</option>
+                <option value="TrailRun">Trail Run</option>
+                <option value="VirtualRun">Treadmill / Virtual</option>
+                <option value="Race">Race</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {(['json', 'csv', 'gpx'] as ExportPart[]).map((part) => (
+              <label key={part} className="flex items-center gap-2">
+                <input type="checkbox" checked={exportParts.includes(part)} onChange={() => toggleExportPart(part)} />
+                {part.toUpperCase()}
+              </label>
+            ))}
+          </div>
+          <a
+            href={exportParts.length > 0 ? exportUrl : undefined}
+            download
+            aria-disabled={exportParts.length === 0}
+            className={`inline-flex h-10 items-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 ${
+              exportParts.length === 0 ? 'pointer-events-none opacity-50' : ''
+            }`}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download Export
+          </a>
+
+          <div className="grid gap-2">
+            <Label htmlFor="dataExportFile">Import an export</Label>
+            <p className="text-sm text-muted-foreground">
+              Load an export ZIP or export.json, e.g. from another install. Runs, results and events you
+              already have are skipped.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                id="dataExportFile"
+                type="file"
+                accept=".zip,.json"
+                onChange={(e) => setDataExportFile(e.target.files?.[0] || null)}
+              />
+              <Button
+                variant="outline"
+                onClick={() => dataExportFile && dataImportMutation.mutate(dataExportFile)}
+                disabled={!dataExportFile || dataImportMutation.isPending}
+              >
+                {dataImportMutation.isPending ? (
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Import
+              </Button>
+            </div>
+          </div>
+
+          {dataImportMutation.data && (
+            <div className="space-y-2">
+              {renderImportSummary(dataImportMutation.data.runs)}
+              <p className="text-sm">
+                Parkrun results: {dataImportMutation.data.parkrun_results.created} added,{' '}
+                {dataImportMutation.data.parkrun_results.existing} already present • Events:{' '}
+                {dataImportMutation.data.custom_events.created} added, {dataImportMutation.data.custom_events.existing} already present
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Data retention */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Archive className="mr-2 h-5 w-5" />
+            Data Retention
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {retention && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Runs older than {retention.keep_years} {retention.keep_years === 1 ? 'year' : 'years'} (before{' '}
+                {new Date(retention.cutoff).toLocaleDateString()}) are {retentionModeText[retention.mode]}.{' '}
+                {retention.auto_cleanup
+                  ? `Cleanup runs at "${retention.schedule}" (cron).`
+                  : 'Automatic cleanup is off (retention.auto_cleanup in config.json).'}
+              </p>
+              {retention.archive.runs > 0 && (
+                <p className="text-sm">
+                  Archive: {retention.archive.runs} runs
+                  {retention.archive.oldest && retention.archive.newest && (
+                    <> from {new Date(retention.archive.oldest).toLocaleDateString()} to {new Date(retention.archive.newest).toLocaleDateString()}</>
+                  )}{' '}
+                  • {formatSize(retention.archive.bytes)}
+                </p>
+              )}
+            </>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => retentionPreviewMutation.mutate()}
+              disabled={retentionPreviewMutation.isPending}
+            >
+              {retentionPreviewMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Eye className="mr-2 h-4 w-4" />
+              )}
+              Preview Cleanup
+            </Button>
+            <Button
+              onClick={handleRetentionCleanup}
+              disabled={!retention || retentionCleanupMutation.isPending}
+            >
+              {retentionCleanupMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Archive className="mr-2 h-4 w-4" />
+              )}
+              Run Cleanup Now
+            </Button>
+          </div>
+
+          {retentionPreviewMutation.data && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {retentionPreviewMutation.data.runs === 0
+                  ? 'Nothing to clean up.'
+                  : `${retentionActionText[retentionPreviewMutation.data.mode]} ${retentionPreviewMutation.data.runs} runs ` +
+                    `(${(retentionPreviewMutation.data.total_distance / 1000).toFixed(0)} km, ` +
+                    `${formatSize(retentionPreviewMutation.data.heavy_bytes)} of routes and streams)`}
+              </p>
+              {retentionPreviewMutation.data.candidates.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-md bg-muted p-2 text-xs">
+                  {retentionPreviewMutation.data.candidates.map((run) => (
+                    <p key={run.id}>
+                      {new Date(run.start_date).toLocaleDateString()} •{' '}
+                      <span className="font-medium">{run.name}</span> • {(run.distance / 1000).toFixed(1)} km
+                      {run.has_streams ? ' • streams' : run.has_route ? ' • route' : ''}
+                    </p>
+                  ))}
+                  {retentionPreviewMutation.data.runs > retentionPreviewMutation.data.candidates.length && (
+                    <p className="text-muted-foreground">
+                      …and {retentionPreviewMutation.data.runs - retentionPreviewMutation.data.candidates.length} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Backups */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Database className="mr-2 h-5 w-5" />
+            Backups
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {backupData?.auto_backup
+              ? `Scheduled backups run at "${backupData.schedule}" (cron); the newest ${backupData.keep} scheduled and manual backups are kept.`
+              : 'Scheduled backups are off (database.auto_backup in config.json).'}{' '}
+            Restoring replaces all data, after saving a copy of the current database.
+          </p>
+          <Button
+            onClick={() => backupMutation.mutate()}
+            disabled={backupMutation.isPending || restoreMutation.isPending}
+          >
+            {backupMutation.isPending ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Database className="mr-2 h-4 w-4" />
+            )}
+            Back Up Now
+          </Button>
+
+          {backupData && backupData.backups.length > 0 && (
+            <div className="max-h-72 space-y-1 overflow-y-auto rounded-md border p-2">
+              {backupData.backups.map((backup) => (
+                <div key={backup.name} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{new Date(backup.created_at).toLocaleString()}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {backup.name} • {formatSize(backup.size)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Badge variant="outline">{backupKindLabels[backup.kind]}</Badge>
+                    <a
+                      href={getBackupDownloadUrl(backup.name)}
+                      download
+                      title="Download"
+                      className="inline-flex h-9 items-center rounded-md px-3 hover:bg-accent hover:text-accent-foreground"
+                    >
+                      <Download className="h-4 w-4" />
+                    </a>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Restore"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => handleRestore(backup.name)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="restoreFile">Restore from a file</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="restoreFile"
+                type="file"
+                accept=".db"
+                onChange={(e) => setRestoreFile(e.target.files?.[0] || null)}
+              />
+              <Button
+                variant="outline"
+                onClick={() => restoreFile && handleRestore(restoreFile)}
+                disabled={!restoreFile || restoreMutation.isPending}
+              >
+                {restoreMutation.isPending ? (
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                )}
+                Restore
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Audit log */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ScrollText className="mr-2 h-5 w-5" />
+            Audit Log
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Every change to runs, parkrun results and events, with what made it and the fields that changed.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="grid gap-2">
+              <Label htmlFor="auditEntity">Record</Label>
+              <select
+                id="auditEntity"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={auditEntity}
+                onChange={(e) => { setAuditEntity(e.target.value as AuditEntity | ''); setAuditPage(0); }}
+              >
+                <option value="">Everything</option>
+                {(Object.keys(auditEntityLabels) as AuditEntity[]).map((entity) => (
+                  <option key={entity} value={entity}>{auditEntityLabels[entity]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="auditSource">Source</Label>
+              <select
+                id="auditSource"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={auditSource}
+                onChange={(e) => { setAuditSource(e.target.value as AuditSource | ''); setAuditPage(0); }}
+              >
+                <option value="">All sources</option>
+                {(Object.keys(auditSourceLabels) as AuditSource[]).map((source) => (
+                  <option key={source} value={source}>{auditSourceLabels[source]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="auditAction">Change</Label>
+              <select
+                id="auditAction"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={auditAction}
+                onChange={(e) => { setAuditAction(e.target.value as AuditAction | ''); setAuditPage(0); }}
+              >
+                <option value="">All changes</option>
+                {(Object.keys(auditActionLabels) as AuditAction[]).map((action) => (
+                  <option key={action} value={action}>{auditActionLabels[action]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {auditLog && auditLog.entries.length === 0 && (
+            <p className="text-sm text-muted-foreground">No changes recorded</p>
+          )}
+          {auditLog && auditLog.entries.length > 0 && (
+            <div className="max-h-96 space-y-2 overflow-y-auto rounded-md border p-2">
+              {auditLog.entries.map((entry) => (
+                <div key={entry.id} className="space-y-1 border-b pb-2 text-sm last:border-b-0 last:pb-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={entry.action === 'delete' ? 'destructive' : 'secondary'}>{auditActionLabels[entry.action]}</Badge>
+                    <span className="font-medium">
+                      {auditEntityLabels[entry.entity_type]} #{entry.entity_id}{entry.label ? ` – ${entry.label}` : ''}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(`${entry.created_at.replace(' ', 'T')}Z`).toLocaleString()} • {auditSourceLabels[entry.source]}
+                  </p>
+                  {entry.changes && entry.action === 'update' && (
+                    <ul className="text-xs">
+                      {Object.entries(entry.changes).map(([field, change]) => (
+                        <li key={field} className="truncate">
+                          <span className="font-mono">{field}</span>: {formatAuditValue(change.from)} → {formatAuditValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {auditLog && auditLog.total > AUDIT_PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {auditLog.offset + 1}–{auditLog.offset + auditLog.entries.length} of {auditLog.total}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={auditPage === 0} onClick={() => setAuditPage(auditPage - 1)}>
+                  Newer
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={auditLog.offset + auditLog.entries.length >= auditLog.total}
+                  onClick={() => setAuditPage(auditPage + 1)}
+                >
+                  Older
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Parkrun */}
       <Card>
         <CardHeader>
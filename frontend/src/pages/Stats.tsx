@@ -1,6 +1,10 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import {
   BarChart,
   Bar,
@@ -10,20 +14,57 @@ import {
   Tooltip,
   ResponsiveContainer,
   AreaChart,
-  Area
+  Area,
+  LineChart,
+  Line,
+  ComposedChart,
+  Legend
 } from 'recharts';
 import {
   getStatsSummary,
   getPaceProgress,
   getWeeklyDistance,
   getPersonalRecords,
-  getLocationStats
+  getLocationStats,
+  getBestEfforts,
+  rebuildBestEfforts,
+  rebuildWorkoutTypes,
+  getRacePredictions,
+  getTrainingLoad,
+  getHrZoneDistribution,
+  BestEffortKey,
+  RacePrediction,
+  PredictionInput,
+  WorkoutTypeStats
 } from '@/lib/api-client';
 import {
-  MapPin, TrendingUp, Trophy, Activity, Target, Calendar, Award
+  MapPin, TrendingUp, Trophy, Activity, Target, Calendar, Award, Medal, RefreshCw, Timer, HeartPulse, Gauge, Layers
 } from 'lucide-react';
+import { HR_ZONE_COLORS } from '@/components/runs/RunHrZones';
+import { WORKOUT_TYPE_COLORS, WORKOUT_TYPE_LABELS } from '@/components/runs/WorkoutTypeBadge';
+
+const CONFIDENCE_STYLES: Record<RacePrediction['confidence'], string> = {
+  high: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-300',
+  medium: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+  low: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300'
+};
+
+const TRAINING_LOAD_PERIODS = [90, 180, 365];
+
+const HR_ZONE_PERIODS = [12, 26, 52];
+
+const INPUT_SOURCE_LABELS: Record<PredictionInput['source'], string> = {
+  race: 'Race',
+  parkrun: 'parkrun',
+  best_effort: 'Best effort'
+};
 
 export default function Stats() {
+  const queryClient = useQueryClient();
+  const [historyDistance, setHistoryDistance] = useState<BestEffortKey>('5k');
+  const [loadDays, setLoadDays] = useState(180);
+  const [zoneWeeks, setZoneWeeks] = useState(12);
+
    const { data: summary } = useQuery({
      queryKey: ['stats', 'summary'],
      queryFn: () => getStatsSummary(),
@@ -54,6 +95,85 @@ export default function Stats() {
     staleTime: 60000
   });
 
+  const { data: bestEfforts } = useQuery({
+    queryKey: ['stats', 'best-efforts'],
+    queryFn: () => getBestEfforts(),
+    staleTime: 60000
+  });
+
+  const { data: predictions, isError: noPredictions } = useQuery({
+    queryKey: ['stats', 'predictions'],
+    queryFn: () => getRacePredictions(),
+    retry: false,
+    staleTime: 60000
+  });
+
+  const { data: trainingLoad } = useQuery({
+    queryKey: ['stats', 'training-load', loadDays],
+    queryFn: () => getTrainingLoad(loadDays),
+    placeholderData: (previous) => previous,
+    staleTime: 60000
+  });
+
+  const { data: hrZones } = useQuery({
+    queryKey: ['stats', 'hr-zones', zoneWeeks],
+    queryFn: () => getHrZoneDistribution(zoneWeeks),
+    placeholderData: (previous) => previous,
+    staleTime: 60000
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: () => rebuildBestEfforts(),
+    onSuccess: result => {
+      toast.success(`✓ Recomputed ${result.efforts} best efforts from ${result.runs} runs`);
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Recompute failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const reclassifyMutation = useMutation({
+    mutationFn: () => rebuildWorkoutTypes(),
+    onSuccess: result => {
+      toast.success(`✓ Classified ${result.runs} runs`);
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+    },
+    onError: (error: any) => {
+      toast.error(`✗ Classification failed: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const distances = bestEfforts?.distances || [];
+  const selectedDistance = distances.find(d => d.distance_key === historyDistance);
+  const historyData = (selectedDistance?.history || []).map(effort => ({
+    date: format(new Date(effort.start_date_local), 'MMM d, yyyy'),
+    seconds: effort.elapsed_time,
+    time: effort.time,
+    run_name: effort.run_name
+  }));
+
+  // Minutes per zone per week, one key per zone for the stacked bars
+  const zoneData = (hrZones?.weeks || []).map(week => ({
+    week_start: week.week_start,
+    ...Object.fromEntries(week.seconds.map((seconds, i) => [`z${i + 1}`, Math.round(seconds / 60)]))
+  }));
+  const zoneTotal = (hrZones?.totals || []).reduce((sum, seconds) => sum + seconds, 0);
+
+  const formatEffortTime = (seconds: number) => {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+  };
+
+  // Workout types cover runs only, so shares are of their own total
+  const workoutMixDistance = (summary?.by_workout_type ?? [])
+    .reduce((sum: number, row: WorkoutTypeStats) => sum + row.distance, 0);
+
   const formatPaceForChart = (seconds: number) => {
     const min = Math.floor(seconds / 60);
     const sec = Math.round(seconds % 60);
@@ -139,6 +259,72 @@ export default function Stats() {
         ))}
       </div>
 
+      {/* Workout mix */}
+      {summary?.by_workout_type && summary.by_workout_type.length > 0 && (
+        <Card className="shadow-sm">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center">
+                <Layers className="mr-2 h-5 w-5" />
+                Workout Mix
+              </CardTitle>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={reclassifyMutation.isPending}
+                onClick={() => reclassifyMutation.mutate()}
+                title="Classify every run again with the current threshold pace and heart rate"
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${reclassifyMutation.isPending ? 'animate-spin' : ''}`} />
+                Reclassify
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex h-4 w-full overflow-hidden rounded-full bg-muted">
+              {summary.by_workout_type.map((row: WorkoutTypeStats) => row.distance > 0 && (
+                <div
+                  key={row.workout_type ?? 'unclassified'}
+                  style={{
+                    width: `${(row.distance / workoutMixDistance) * 100}%`,
+                    backgroundColor: row.workout_type ? WORKOUT_TYPE_COLORS[row.workout_type] : '#e2e8f0'
+                  }}
+                  title={row.workout_type ? WORKOUT_TYPE_LABELS[row.workout_type] : 'Unclassified'}
+                />
+              ))}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 font-medium">Workout</th>
+                  <th className="py-1 font-medium text-right">Runs</th>
+                  <th className="py-1 font-medium text-right">Distance</th>
+                  <th className="py-1 font-medium text-right">Avg Pace</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.by_workout_type.map((row: WorkoutTypeStats) => (
+                  <tr key={row.workout_type ?? 'unclassified'} className="border-t">
+                    <td className="py-1">
+                      <span
+                        className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: row.workout_type ? WORKOUT_TYPE_COLORS[row.workout_type] : '#e2e8f0' }}
+                      />
+                      {row.workout_type ? WORKOUT_TYPE_LABELS[row.workout_type] : 'Unclassified'}
+                    </td>
+                    <td className="py-1 text-right">{row.runs}</td>
+                    <td className="py-1 text-right">{(row.distance / 1000).toFixed(1)} km</td>
+                    <td className="py-1 text-right font-medium">
+                      {row.average_pace_seconds > 0 ? `${formatPaceForChart(row.average_pace_seconds)} /km` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pace Progress Chart */}
       <Card className="bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-900 border-0 shadow-lg">
         <CardHeader className="bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-t-lg">
@@ -234,6 +420,335 @@ export default function Stats() {
         </CardContent>
       </Card>
 
+      {/* Fitness & Fatigue */}
+      <Card className="bg-gradient-to-br from-violet-50 to-fuchsia-50 dark:from-slate-800 dark:to-slate-900 border-0 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-violet-500 to-fuchsia-600 text-white rounded-t-lg">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <HeartPulse className="mr-2 h-5 w-5" />
+              Fitness & Fatigue
+            </CardTitle>
+            <div className="flex gap-1">
+              {TRAINING_LOAD_PERIODS.map(days => (
+                <Button
+                  key={days}
+                  size="sm"
+                  variant="ghost"
+                  className={`text-white hover:bg-white/20 hover:text-white ${loadDays === days ? 'bg-white/20' : ''}`}
+                  onClick={() => setLoadDays(days)}
+                >
+                  {days}d
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          {trainingLoad?.current && (
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {[
+                { label: 'Fitness (CTL)', value: trainingLoad.current.ctl.toFixed(0) },
+                { label: 'Fatigue (ATL)', value: trainingLoad.current.atl.toFixed(0) },
+                { label: 'Form (TSB)', value: `${trainingLoad.current.tsb > 0 ? '+' : ''}${trainingLoad.current.tsb.toFixed(0)}` },
+                { label: 'Acute:Chronic', value: trainingLoad.current.acwr !== null ? trainingLoad.current.acwr.toFixed(2) : '—' }
+              ].map(metric => (
+                <div key={metric.label} className="rounded-lg border bg-white/50 dark:bg-slate-800/50 p-3 text-center">
+                  <p className="text-xs text-muted-foreground mb-1">{metric.label}</p>
+                  <p className="text-xl font-bold">{metric.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {trainingLoad && trainingLoad.runs.length > 0 ? (
+            <>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={trainingLoad.series}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="currentColor" strokeOpacity={0.2} />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(value) => format(new Date(value), 'MMM d')} minTickGap={24} />
+                  <YAxis tick={{ fontSize: 12 }} />
+                  <Tooltip
+                    contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                    labelFormatter={(value) => format(new Date(value), 'PPP')}
+                  />
+                  <Legend />
+                  <Bar dataKey="load" fill="#c4b5fd" name="Daily load" />
+                  <Area type="monotone" dataKey="tsb" stroke="#f59e0b" fill="#fde68a" fillOpacity={0.4} name="Form (TSB)" />
+                  <Line type="monotone" dataKey="ctl" stroke="#7c3aed" strokeWidth={3} dot={false} name="Fitness (CTL)" />
+                  <Line type="monotone" dataKey="atl" stroke="#db2777" strokeWidth={2} dot={false} name="Fatigue (ATL)" />
+                </ComposedChart>
+              </ResponsiveContainer>
+              <p className="text-xs text-muted-foreground">
+                Load is TRIMP for runs with heart rate (max {trainingLoad.hr_max}, resting {trainingLoad.hr_rest} bpm) and
+                rTSS from pace otherwise (threshold {trainingLoad.threshold_pace} /km). Fitness and fatigue are 42- and
+                7-day weighted averages; an acute:chronic ratio above 1.5 is a sharp jump in load.
+              </p>
+            </>
+          ) : (
+            <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <HeartPulse className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+                <p>No runs in this period.</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Weekly time in heart rate zones */}
+      <Card className="bg-gradient-to-br from-red-50 to-orange-50 dark:from-slate-800 dark:to-slate-900 border-0 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-red-500 to-orange-500 text-white rounded-t-lg">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Gauge className="mr-2 h-5 w-5" />
+              Heart Rate Zones
+            </CardTitle>
+            <div className="flex gap-1">
+              {HR_ZONE_PERIODS.map(weeks => (
+                <Button
+                  key={weeks}
+                  size="sm"
+                  variant="ghost"
+                  className={`text-white hover:bg-white/20 hover:text-white ${zoneWeeks === weeks ? 'bg-white/20' : ''}`}
+                  onClick={() => setZoneWeeks(weeks)}
+                >
+                  {weeks}w
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          {hrZones && zoneTotal > 0 ? (
+            <>
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                {hrZones.zones.map((zone, i) => (
+                  <div key={zone.zone} className="rounded-lg border bg-white/50 dark:bg-slate-800/50 p-3 text-center">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      <span className="mr-1 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: HR_ZONE_COLORS[i] }} />
+                      Z{zone.zone} {zone.name}
+                    </p>
+                    <p className="text-xl font-bold">{Math.round((hrZones.totals[i] / zoneTotal) * 100)}%</p>
+                    <p className="text-xs text-muted-foreground">
+                      {zone.max_hr !== null ? `${zone.min_hr}–${zone.max_hr}` : `${zone.min_hr}+`} bpm
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={zoneData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="currentColor" strokeOpacity={0.2} />
+                  <XAxis dataKey="week_start" tick={{ fontSize: 12 }} tickFormatter={(value) => format(new Date(value), 'MMM d')} minTickGap={16} />
+                  <YAxis tick={{ fontSize: 12 }} label={{ value: 'Minutes', angle: -90, position: 'insideLeft', fontSize: 12 }} />
+                  <Tooltip
+                    contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                    labelFormatter={(value) => `Week of ${format(new Date(value), 'PPP')}`}
+                    formatter={(value) => `${value} min`}
+                  />
+                  <Legend />
+                  {hrZones.zones.map((zone, i) => (
+                    <Bar key={zone.zone} dataKey={`z${zone.zone}`} stackId="zones" fill={HR_ZONE_COLORS[i]} name={`Z${zone.zone} ${zone.name}`} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+              <p className="text-xs text-muted-foreground">
+                Zones use the {hrZones.model === 'karvonen' ? 'Karvonen (heart rate reserve)' : hrZones.model === 'lthr' ? 'threshold heart rate' : 'percent of max heart rate'} model
+                (max {hrZones.profile.max_hr}, resting {hrZones.profile.resting_hr}, threshold {hrZones.profile.threshold_hr} bpm).
+                Runs without a heart rate stream count all their time in the zone of their average heart rate.
+                Set your heart rates in Settings.
+              </p>
+            </>
+          ) : (
+            <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <Gauge className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+                <p>No heart rate data in this period.</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Best Efforts & PR history */}
+      <Card className="bg-gradient-to-br from-rose-50 to-pink-50 dark:from-slate-800 dark:to-slate-900 border-0 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-rose-500 to-pink-600 text-white rounded-t-lg">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Medal className="mr-2 h-5 w-5" />
+              Best Efforts
+            </CardTitle>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-white hover:bg-white/20 hover:text-white"
+              disabled={rebuildMutation.isPending}
+              onClick={() => rebuildMutation.mutate()}
+              title="Recompute best efforts from every run's streams"
+            >
+              <RefreshCw className={`mr-2 h-4 w-4 ${rebuildMutation.isPending ? 'animate-spin' : ''}`} />
+              Recompute
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {distances.some(d => d.best) ? (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 font-normal">Distance</th>
+                    <th className="py-2 font-normal">Time</th>
+                    <th className="py-2 font-normal">Pace</th>
+                    <th className="py-2 font-normal">Run</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {distances.map(d => (
+                    <tr
+                      key={d.distance_key}
+                      className={`border-t ${d.best ? 'cursor-pointer hover:bg-white/60 dark:hover:bg-slate-800/60' : 'text-muted-foreground'} ${
+                        d.distance_key === historyDistance ? 'bg-white/80 dark:bg-slate-800/80' : ''
+                      }`}
+                      onClick={() => d.best && setHistoryDistance(d.distance_key)}
+                    >
+                      <td className="py-2 font-medium">{d.label}</td>
+                      <td className="py-2 font-bold">{d.best?.time || '—'}</td>
+                      <td className="py-2">{d.best ? `${d.best.pace} /km` : '—'}</td>
+                      <td className="py-2">
+                        {d.best ? (
+                          <>
+                            <p className="truncate">{d.best.run_name}</p>
+                            <p className="text-xs text-muted-foreground">{format(new Date(d.best.start_date_local), 'PPP')}</p>
+                          </>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <p className="mb-2 text-sm font-medium">
+                  {selectedDistance?.label} PR history
+                  {selectedDistance && (
+                    <span className="ml-2 font-normal text-muted-foreground">
+                      {selectedDistance.history.length} PRs from {selectedDistance.efforts} efforts
+                    </span>
+                  )}
+                </p>
+                {historyData.length > 0 ? (
+                  <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={historyData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="currentColor" strokeOpacity={0.2} />
+                      <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                      <YAxis
+                        tickFormatter={(value) => formatEffortTime(value)}
+                        domain={['dataMin - 10', 'dataMax + 10']}
+                        tick={{ fontSize: 12 }}
+                        width={60}
+                      />
+                      <Tooltip
+                        contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                        formatter={(value: number, _name, item) => [`${formatEffortTime(value)} (${item.payload.run_name})`, 'PR']}
+                      />
+                      <Line type="stepAfter" dataKey="seconds" stroke="#e11d48" strokeWidth={3} dot={{ r: 4 }} name="PR" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+                    No efforts at this distance yet
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="py-8 text-center text-muted-foreground">
+              <Medal className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+              <p>No best efforts yet.</p>
+              <p className="text-sm">Runs with distance streams are searched for their fastest 400m, 1K, mile, 5K and more.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Race Predictions */}
+      <Card className="bg-gradient-to-br from-cyan-50 to-sky-50 dark:from-slate-800 dark:to-slate-900 border-0 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-cyan-500 to-sky-600 text-white rounded-t-lg">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Timer className="mr-2 h-5 w-5" />
+              Race Predictions
+            </CardTitle>
+            {predictions && (
+              <Badge variant="outline" className="border-white/60 text-white">VDOT {predictions.vdot.toFixed(1)}</Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {predictions && !noPredictions ? (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 font-normal">Distance</th>
+                    <th className="py-2 font-normal">Predicted</th>
+                    <th className="py-2 font-normal">Range</th>
+                    <th className="py-2 font-normal">Pace</th>
+                    <th className="py-2 font-normal">Confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {predictions.predictions.map(prediction => (
+                    <tr
+                      key={prediction.distance_key}
+                      className="border-t"
+                      title={`Riegel ${formatEffortTime(prediction.riegel_seconds)} • VDOT ${formatEffortTime(prediction.vdot_seconds)}`}
+                    >
+                      <td className="py-2 font-medium">{prediction.label}</td>
+                      <td className="py-2 font-bold">{prediction.predicted_time}</td>
+                      <td className="py-2 text-muted-foreground">{prediction.lower_time} – {prediction.upper_time}</td>
+                      <td className="py-2">{prediction.pace} /km</td>
+                      <td className="py-2">
+                        <Badge variant="default" className={CONFIDENCE_STYLES[prediction.confidence]}>{prediction.confidence}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Based on
+                  <span className="ml-2 font-normal text-muted-foreground">best performances of the last {predictions.window_days} days</span>
+                </p>
+                {predictions.based_on.map((input, idx) => (
+                  <div key={idx} className="flex items-center justify-between rounded-lg border bg-white/60 dark:bg-slate-800/60 p-3">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{input.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(input.date), 'PPP')} • {(input.distance / 1000).toFixed(2)} km in {input.time}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Badge variant="outline">{INPUT_SOURCE_LABELS[input.source]}</Badge>
+                      <span className="text-sm font-bold">{input.vdot.toFixed(1)}</span>
+                    </div>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Each prediction averages Riegel's formula and Daniels' VDOT. The range widens the further a distance is from what you've raced.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="py-8 text-center text-muted-foreground">
+              <Timer className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+              <p>No recent races or best efforts to predict from.</p>
+              <p className="text-sm">Race results, parkruns and fast efforts of 1.5 km or more from the last six months are used.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Two-column section: Personal Records & Locations */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Personal Records */}
@@ -248,7 +763,7 @@ export default function Stats() {
             {personalRecords ? (
               <div className="grid grid-cols-2 gap-4">
                 {[
-                  { label: 'Longest Run', value: personalRecords.longest_distance ? `${(personalRecords.longest_distance.distance / 1000).toFixed(1)} km` : '—', icon: Target },
+                  { label: 'Longest Run', value: personalRecords.longest_distance ? `${personalRecords.longest_distance.distance.toFixed(1)} km` : '—', icon: Target },
                   { label: '5K PB', value: personalRecords.fastest_5k?.time || '—', icon: Trophy },
                   { label: '10K PB', value: personalRecords.fastest_10k?.time || '—', icon: Trophy },
                   { label: 'Most Elevation', value: personalRecords.most_elevation ? `${personalRecords.most_elevation.elevation}m` : '—', icon: MapPin }
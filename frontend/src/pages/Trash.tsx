@@ -0,0 +1,207 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  getTrash,
+  restoreTrashedRun,
+  purgeTrashedRun,
+  restoreTrashedEvent,
+  purgeTrashedEvent,
+  emptyTrash
+} from '@/lib/api-client';
+import { CalendarDays, Footprints, RotateCcw, Trash2 } from 'lucide-react';
+
+// SQLite timestamps are UTC without a zone, e.g. '2025-02-19 08:15:00'
+function formatTrashedAt(value: string): string {
+  return format(new Date(`${value.replace(' ', 'T')}Z`), 'PPP p');
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export default function Trash() {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['trash'],
+    queryFn: () => getTrash()
+  });
+
+  // Restoring or purging changes what the rest of the app shows
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+    queryClient.invalidateQueries({ queryKey: ['runs'] });
+    queryClient.invalidateQueries({ queryKey: ['stats'] });
+    queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['customEvents'] });
+    queryClient.invalidateQueries({ queryKey: ['calendarEvents'] });
+  };
+
+  const onError = (action: string) => (error: any) => {
+    toast.error(`✗ ${action} failed: ${error.response?.data?.error || error.message}`);
+  };
+
+  const restoreRunMutation = useMutation({
+    mutationFn: (id: number) => restoreTrashedRun(id),
+    onSuccess: () => {
+      toast.success('✓ Run restored');
+      invalidate();
+    },
+    onError: onError('Restore')
+  });
+
+  const purgeRunMutation = useMutation({
+    mutationFn: (id: number) => purgeTrashedRun(id),
+    onSuccess: () => {
+      toast.success('✓ Run permanently deleted');
+      invalidate();
+    },
+    onError: onError('Delete')
+  });
+
+  const restoreEventMutation = useMutation({
+    mutationFn: (id: number) => restoreTrashedEvent(id),
+    onSuccess: () => {
+      toast.success('✓ Event restored');
+      invalidate();
+    },
+    onError: onError('Restore')
+  });
+
+  const purgeEventMutation = useMutation({
+    mutationFn: (id: number) => purgeTrashedEvent(id),
+    onSuccess: () => {
+      toast.success('✓ Event permanently deleted');
+      invalidate();
+    },
+    onError: onError('Delete')
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: () => emptyTrash(),
+    onSuccess: result => {
+      toast.success(`✓ Trash emptied: ${result.runs} runs, ${result.custom_events} events deleted`);
+      invalidate();
+    },
+    onError: onError('Emptying the trash')
+  });
+
+  const busy = restoreRunMutation.isPending || purgeRunMutation.isPending || restoreEventMutation.isPending ||
+    purgeEventMutation.isPending || emptyMutation.isPending;
+
+  const runs = data?.runs || [];
+  const events = data?.custom_events || [];
+
+  const handleEmpty = () => {
+    if (!confirm(`Permanently delete all ${data?.total} items in the trash? This cannot be undone.`)) return;
+    emptyMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Deleted runs and events stay here until you restore them or delete them for good.
+            {data && data.trash_days > 0 && ` Items are removed automatically after ${data.trash_days} days.`}
+          </p>
+        </div>
+        <Button variant="destructive" disabled={busy || !data?.total} onClick={handleEmpty}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty Trash
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Footprints className="mr-2 h-5 w-5" />
+            Runs
+            <Badge variant="secondary" className="ml-2">{runs.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {runs.length === 0 && <p className="text-sm text-muted-foreground">No runs in the trash</p>}
+          {runs.map(run => (
+            <div key={run.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="truncate font-medium">{run.name}</p>
+                  <Badge variant="outline">{run.strava_id ? 'Strava' : 'Upload'}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(run.start_date_local), 'PPP p')} • {(run.distance / 1000).toFixed(2)} km •{' '}
+                  {formatDuration(run.moving_time)}
+                </p>
+                <p className="text-xs text-muted-foreground">Deleted {formatTrashedAt(run.deleted_at)}</p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => restoreRunMutation.mutate(run.id)}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={busy}
+                  onClick={() => {
+                    if (confirm(`Permanently delete "${run.name}"? This cannot be undone.`)) purgeRunMutation.mutate(run.id);
+                  }}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarDays className="mr-2 h-5 w-5" />
+            Events
+            <Badge variant="secondary" className="ml-2">{events.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {events.length === 0 && <p className="text-sm text-muted-foreground">No events in the trash</p>}
+          {events.map(event => (
+            <div key={event.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="truncate font-medium">{event.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(event.date), 'PPP')}
+                  {event.description ? ` • ${event.description}` : ''}
+                </p>
+                <p className="text-xs text-muted-foreground">Deleted {formatTrashedAt(event.deleted_at)}</p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => restoreEventMutation.mutate(event.id)}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={busy}
+                  onClick={() => {
+                    if (confirm(`Permanently delete "${event.title}"? This cannot be undone.`)) purgeEventMutation.mutate(event.id);
+                  }}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}